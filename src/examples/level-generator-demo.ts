@@ -78,7 +78,8 @@ async function main() {
   // Demo 5: Compression demo
   console.log('\n5️⃣  Map Compression Demo...');
   const compressedData = mysticalGenerator.generateCompressed();
-  console.log(`Original estimated size: 25x25 = 625 cells`);
+  const { width, height } = compressedData.dimensions;
+  console.log(`Original estimated size: ${width}x${height} = ${width * height} cells`);
   console.log(`Compressed size: ${compressedData.metadata.compressionRatio.toFixed(1)}% of original`);
   console.log(`Compressed data: ${MapCompression.toCompactString(compressedData).length} characters`);
 
@@ -93,6 +94,13 @@ async function main() {
   console.log(`  - Monsters: ${parsed.startingActors.length}`);
   console.log(`  - Effects: ${parsed.environmentalEffects.length}`);
 
+  // Demo 7: Large map
+  console.log('\n7️⃣  Generating Large Outdoor Map (40x60)...');
+  const largeGenerator = new LevelGenerator(24680, 'wilderness', 'cellular', { width: 40, height: 60 });
+  const largeLevel = largeGenerator.generateLevel(5, 2, 'Long Chase');
+  displayLevelSummary(largeLevel);
+  console.log(MapRenderer.renderCompact(largeLevel.map.terrain));
+
   console.log('\n✨ Demo completed! The level generator is ready for use.');
 }
 
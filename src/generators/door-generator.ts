@@ -0,0 +1,184 @@
+/**
+ * Door Generator for FOURE VTT Level Generator
+ *
+ * Hangs doors, locked doors, portcullises and secret doors in the doorways where
+ * corridors meet rooms, and leaves a key or winch within reach of the players for
+ * every locked door they could not otherwise get past.
+ */
+
+import { Door, DoorType, DOOR_TYPES, GridPosition } from '../types/terrain.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { TerrainConnectivity } from '../utils/connectivity.js';
+import { InteractiveObject } from './environmental-storyteller.js';
+
+/**
+ * Relative chance of each door type in a doorway
+ */
+const DOOR_WEIGHTS: ReadonlyArray<readonly [DoorType, number]> = [
+  ['door', 6],
+  ['secret-door', 2],
+  ['locked-door', 2],
+  ['portcullis', 1]
+];
+
+/**
+ * Object that opens each kind of locked door
+ */
+const KEY_OBJECTS: Partial<Record<DoorType, { name: string; interactions: string[]; description: string }>> = {
+  'locked-door': {
+    name: 'Iron Key',
+    interactions: ['take', 'examine'],
+    description: 'A heavy iron key on a rusted ring'
+  },
+  portcullis: {
+    name: 'Portcullis Winch',
+    interactions: ['turn', 'examine'],
+    description: 'A creaking winch wound with chain'
+  }
+};
+
+/**
+ * Door placement and key generator
+ */
+export class DoorGenerator {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Put a door in each doorway, writing its type into the terrain grid.
+   * Check DCs follow the 4e moderate and hard DCs for the party level.
+   */
+  placeDoors(terrain: string[][], doorways: GridPosition[], partyLevel: number): Door[] {
+    return doorways.map((doorway, i): Door => {
+      const type = this.pickDoorType();
+      terrain[doorway.y][doorway.x] = type;
+      return this.createDoor(`door-${i}`, doorway, type, partyLevel);
+    });
+  }
+
+  /**
+   * Add a door for every square of door terrain that has none yet, such as the doors of
+   * stamped prefab vaults, so each one has a state and check DCs
+   */
+  addTerrainDoors(terrain: string[][], doors: Door[], partyLevel: number): Door[] {
+    const hung = new Set(doors.map(door => `${door.x},${door.y}`));
+    const ids = new Set(doors.map(door => door.id));
+    const added: Door[] = [];
+    let index = doors.length;
+
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      if (!(DOOR_TYPES as readonly string[]).includes(cell) || hung.has(`${x},${y}`)) return;
+
+      while (ids.has(`door-${index}`)) index++;
+      ids.add(`door-${index}`);
+      added.push(this.createDoor(`door-${index}`, { x, y }, cell as DoorType, partyLevel));
+    }));
+
+    return [...doors, ...added];
+  }
+
+  /**
+   * Place a key for each locked door whose far side the players can't reach another way.
+   * Keys go on open floor the players can reach from their spawn points without
+   * passing any locked door.
+   */
+  placeKeys(
+    terrain: string[][],
+    doors: Door[],
+    spawnPoints: GridPosition[],
+    theme: string
+  ): { doors: Door[]; keys: InteractiveObject[] } {
+    const locked = doors.filter(door => door.state === 'locked');
+    if (locked.length === 0) {
+      return { doors, keys: [] };
+    }
+
+    const analysis = TerrainConnectivity.analyzeWithBarriers(terrain, locked);
+    const spawnRegions = new Set(spawnPoints.map(spawn => analysis.regionMap[spawn.y]?.[spawn.x]));
+    const isReachable = (x: number, y: number): boolean => spawnRegions.has(analysis.regionMap[y]?.[x] ?? -1);
+
+    const spawnSquares = new Set(spawnPoints.map(spawn => `${spawn.x},${spawn.y}`));
+    const floor: GridPosition[] = [];
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === 'empty' && isReachable(x, y) && !spawnSquares.has(`${x},${y}`)) {
+        floor.push({ x, y });
+      }
+    }));
+
+    const keys: InteractiveObject[] = [];
+    const keyed = doors.map(door => {
+      const template = KEY_OBJECTS[door.type];
+      if (door.state !== 'locked' || !template || floor.length === 0) return door;
+
+      // Every walkable square beside the door is already reachable: there's another way round
+      const sides = this.getWalkableSides(analysis.regionMap, door);
+      if (sides.every(side => isReachable(side.x, side.y))) return door;
+
+      const key: InteractiveObject = {
+        id: `${door.id}-key`,
+        name: template.name,
+        position: this.random.pick(floor),
+        terrainType: 'empty',
+        interactions: [...template.interactions],
+        description: `${template.description}; it opens the ${door.type.replace('-', ' ')} at (${door.x}, ${door.y})`,
+        theme
+      };
+      keys.push(key);
+      return { ...door, keyId: key.id };
+    });
+
+    return { doors: keyed, keys };
+  }
+
+  private pickDoorType(): DoorType {
+    const total = DOOR_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+    const roll = this.random.next() * total;
+
+    let cumulative = 0;
+    for (const [type, weight] of DOOR_WEIGHTS) {
+      cumulative += weight;
+      if (roll < cumulative) {
+        return type;
+      }
+    }
+    return DOOR_WEIGHTS[DOOR_WEIGHTS.length - 1][0];
+  }
+
+  /**
+   * A door of the given type in its starting state: secret doors take finding and
+   * locked doors picking, while a portcullis needs its winch
+   */
+  private createDoor(id: string, position: GridPosition, type: DoorType, partyLevel: number): Door {
+    const base = { id, x: position.x, y: position.y, type };
+    switch (type) {
+      case 'secret-door':
+        return { ...base, state: 'closed', findDC: this.checkDC(partyLevel) };
+      case 'locked-door':
+        return { ...base, state: 'locked', pickDC: this.checkDC(partyLevel) };
+      case 'portcullis':
+        return { ...base, state: 'locked' };
+      default:
+        return { ...base, state: 'closed' };
+    }
+  }
+
+  /**
+   * Moderate or hard 4e skill check DC for the party level
+   */
+  private checkDC(partyLevel: number): number {
+    const base = this.random.chance(0.5) ? 12 : 19;
+    return base + Math.floor(partyLevel / 2);
+  }
+
+  /**
+   * Orthogonal neighbours of a door that belong to some walkable region
+   */
+  private getWalkableSides(regionMap: number[][], door: GridPosition): GridPosition[] {
+    return [[0, -1], [1, 0], [0, 1], [-1, 0]]
+      .map(([dx, dy]) => ({ x: door.x + dx, y: door.y + dy }))
+      .filter(side => (regionMap[side.y]?.[side.x] ?? -1) !== -1);
+  }
+}
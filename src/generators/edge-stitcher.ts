@@ -0,0 +1,318 @@
+/**
+ * Edge Stitcher for FOURE VTT Level Generator
+ *
+ * Makes neighbouring maps line up edge to edge for overland travel. A map is given the
+ * terrain of its outermost rows and columns, either copied from a neighbour or derived
+ * from a world seed and the tile's world coordinates, and every river, road and cliff
+ * line crossing those edges is carried on into the map. Both tiles sharing an edge derive
+ * the same terrain for it, so any tile of a world can be regenerated on its own and still
+ * match its neighbours.
+ */
+
+import { GridPosition, MapEdges, MapSide, MAP_SIDES, WorldTile } from '../types/terrain.js';
+import { ThemeRegionBiome } from '../types/theme.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { RegionGenerator } from './region-generator.js';
+
+/**
+ * Lines that run across tile borders, in carving order, with their terrain and how
+ * often a world edge is crossed by one
+ */
+const CROSSINGS = [
+  { kind: 'river', terrain: 'water', chance: 0.35 },
+  { kind: 'cliff', terrain: 'cliff', chance: 0.2 },
+  { kind: 'road', terrain: 'road', chance: 0.4 }
+] as const;
+
+type CrossingKind = typeof CROSSINGS[number]['kind'];
+
+/**
+ * A run of line terrain along one edge of the map
+ */
+interface Crossing {
+  readonly kind: CrossingKind;
+  readonly side: MapSide;
+  /** First border square of the run */
+  readonly start: GridPosition;
+  readonly width: number;
+}
+
+const CROSSING_TERRAIN = new Set<string>(CROSSINGS.map(crossing => crossing.terrain));
+
+/**
+ * Step from each side's border into the map
+ */
+const INWARD: Record<MapSide, GridPosition> = {
+  north: { x: 0, y: 1 },
+  east: { x: -1, y: 0 },
+  south: { x: 0, y: -1 },
+  west: { x: 1, y: 0 }
+};
+
+/**
+ * Rows behind each edge that partly take on the edge's terrain, so the border
+ * blends into the map rather than standing out as a strip
+ */
+const FRINGE_DEPTH = 3;
+
+/**
+ * Squares a line runs straight in from the edge before it turns toward the middle
+ */
+const LEAD_IN = 2;
+
+/**
+ * Chance per step that a line drifts sideways
+ */
+const MEANDER = 0.3;
+
+/**
+ * Squares left open in the middle of each cliff line, so cliffs never seal off part of the map
+ */
+const CLIFF_PASS = 2;
+
+/**
+ * Map edge constraint and stitching generator
+ */
+export class EdgeStitcher {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Seed of a world tile's own map, the same every time the tile is generated
+   */
+  static tileSeed(tile: WorldTile): number {
+    return SeededRandom.deriveSeed(tile.seed, `tile:${tile.x},${tile.y}`);
+  }
+
+  /**
+   * Edges of a world tile. Each edge is drawn from a stream keyed by the world seed and
+   * the edge's position in the world, so the tiles either side of it get the same
+   * terrain; corners are shared by four tiles the same way. Neighbouring tiles must be
+   * the same size and use the same biomes and river width.
+   */
+  static getWorldEdges(
+    tile: WorldTile,
+    width: number,
+    height: number,
+    biomes: ThemeRegionBiome[],
+    riverWidth: number = 1
+  ): Required<MapEdges> {
+    const world = new SeededRandom(tile.seed);
+    const { x, y } = tile;
+    const corner = (cx: number, cy: number): string =>
+      new RegionGenerator(world.fork(`corner:${cx},${cy}`)).pickBiome(biomes).ground;
+    const [northWest, northEast, southWest, southEast] = [
+      corner(x, y), corner(x + 1, y), corner(x, y + 1), corner(x + 1, y + 1)
+    ];
+
+    const edge = (key: string, length: number, first: string, last: string): string[] => {
+      const random = world.fork(`edge:${key}`);
+      const { ground, scatter = {} } = new RegionGenerator(random).pickBiome(biomes);
+
+      // Scatter the biome's terrain as the regions algorithm does, leaving line terrain
+      // to the crossings so stray marsh water is never taken for a river
+      const cells = Array.from({ length }, () => {
+        let roll = random.next();
+        for (const [feature, share] of Object.entries(scatter)) {
+          if (roll < share) {
+            return CROSSING_TERRAIN.has(feature) ? ground : feature;
+          }
+          roll -= share;
+        }
+        return ground;
+      });
+      cells[0] = first;
+      cells[length - 1] = last;
+
+      for (const { kind, terrain, chance } of CROSSINGS) {
+        if (!random.chance(chance)) continue;
+
+        const crossingWidth = kind === 'river' ? Math.max(1, riverWidth) : 1;
+        const offset = random.range(2, Math.max(2, length - 3 - crossingWidth));
+        const span = cells.slice(offset - 1, offset + crossingWidth + 1);
+        if (span.some(cell => CROSSING_TERRAIN.has(cell))) continue;
+
+        cells.fill(terrain, offset, offset + crossingWidth);
+      }
+
+      return cells;
+    };
+
+    return {
+      north: edge(`h:${x},${y}`, width, northWest, northEast),
+      east: edge(`v:${x + 1},${y}`, height, northEast, southEast),
+      south: edge(`h:${x},${y + 1}`, width, southWest, southEast),
+      west: edge(`v:${x},${y}`, height, northWest, southWest)
+    };
+  }
+
+  /**
+   * Edges of a finished map, to hand to the maps beside it
+   */
+  static getEdges(terrain: string[][]): Required<MapEdges> {
+    return {
+      north: [...terrain[0]],
+      east: terrain.map(row => row[row.length - 1]),
+      south: [...terrain[terrain.length - 1]],
+      west: terrain.map(row => row[0])
+    };
+  }
+
+  /**
+   * Write the given edges into the map's border, blend them into the squares behind,
+   * and carry every run of water, road or cliff along them into the map: rivers flow
+   * to a confluence, roads meet at a crossroads, and cliff lines run toward the middle
+   * with a pass left open. Roads bridge rivers and cut passes through cliffs. Where two
+   * edges share a corner square, the later of north, east, south and west wins.
+   */
+  stitch(terrain: string[][], edges: MapEdges): void {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const crossings: Crossing[] = [];
+
+    for (const side of MAP_SIDES) {
+      const edge = edges[side];
+      if (!edge) continue;
+
+      const squares = this.getSideSquares(width, height, side);
+      squares.forEach((square, i) => { terrain[square.y][square.x] = edge[i]; });
+      this.blendFringe(terrain, squares, side);
+
+      for (let i = 1; i < edge.length - 1; i++) {
+        const crossing = CROSSINGS.find(candidate => candidate.terrain === edge[i]);
+        if (!crossing || edge[i - 1] === edge[i]) continue;
+
+        let run = 1;
+        while (i + run < edge.length - 1 && edge[i + run] === edge[i]) run++;
+        crossings.push({ kind: crossing.kind, side, start: squares[i], width: run });
+      }
+    }
+
+    for (const { kind, terrain: line } of CROSSINGS) {
+      const runs = crossings.filter(crossing => crossing.kind === kind);
+      if (runs.length === 0) continue;
+
+      // Lines of one kind meet somewhere in the middle third of the map
+      const meeting = {
+        x: this.random.range(Math.floor(width / 3), Math.floor((2 * width) / 3)),
+        y: this.random.range(Math.floor(height / 3), Math.floor((2 * height) / 3))
+      };
+
+      for (const run of runs) {
+        const path = this.traceLine(width, height, run, meeting);
+        const pass = kind === 'cliff' ? Math.floor(path.length / 2) : -1;
+
+        path.forEach((square, i) => {
+          const inPass = i >= pass && i < pass + CLIFF_PASS;
+          for (let dy = 0; dy < run.width; dy++) {
+            for (let dx = 0; dx < run.width; dx++) {
+              const x = square.x + dx;
+              const y = square.y + dy;
+              if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) continue;
+              terrain[y][x] = this.lineTerrain(kind, line, terrain[y][x], inPass);
+            }
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Terrain a line leaves on a square it crosses
+   */
+  private lineTerrain(kind: CrossingKind, line: string, current: string, inPass: boolean): string {
+    switch (kind) {
+      case 'river':
+        return line;
+      case 'cliff':
+        // Rivers cut through cliffs, and each cliff leaves a pass open
+        return current === 'water' ? current : inPass ? 'empty' : line;
+      case 'road':
+        return current === 'water' || current === 'bridge' ? 'bridge' : line;
+    }
+  }
+
+  /**
+   * Squares a line visits from a crossing to the meeting point: straight in from the
+   * edge, then a meandering walk of single orthogonal steps, so the line never thins to
+   * a diagonal gap. The walk stays off the border.
+   */
+  private traceLine(width: number, height: number, crossing: Crossing, meeting: GridPosition): GridPosition[] {
+    const inward = INWARD[crossing.side];
+    const clamp = (value: number, max: number): number => Math.max(1, Math.min(max - 2, value));
+    let x = crossing.start.x;
+    let y = crossing.start.y;
+    const path: GridPosition[] = [];
+
+    for (let step = 0; step < LEAD_IN; step++) {
+      x = clamp(x + inward.x, width);
+      y = clamp(y + inward.y, height);
+      path.push({ x, y });
+    }
+
+    for (let step = 0; step < width * height && (x !== meeting.x || y !== meeting.y); step++) {
+      const dx = Math.sign(meeting.x - x);
+      const dy = Math.sign(meeting.y - y);
+      const remaining = Math.abs(meeting.x - x) + Math.abs(meeting.y - y);
+      const alongX = dy === 0 || (dx !== 0 && this.random.next() < Math.abs(meeting.x - x) / remaining);
+
+      if (this.random.chance(MEANDER)) {
+        // Drift sideways to the direction of travel
+        const drift = this.random.chance(0.5) ? 1 : -1;
+        if (alongX) y = clamp(y + drift, height);
+        else x = clamp(x + drift, width);
+      } else if (alongX) {
+        x += dx;
+      } else {
+        y += dy;
+      }
+      path.push({ x, y });
+    }
+
+    return path;
+  }
+
+  /**
+   * Let each square within a few rows of the edge take the terrain of the edge square
+   * in line with it, less often the further in it lies
+   */
+  private blendFringe(terrain: string[][], squares: GridPosition[], side: MapSide): void {
+    const inward = INWARD[side];
+    const height = terrain.length;
+    const width = terrain[0].length;
+
+    squares.slice(1, -1).forEach(square => {
+      const edgeTerrain = terrain[square.y][square.x];
+      if (CROSSING_TERRAIN.has(edgeTerrain)) return;
+
+      for (let depth = 1; depth <= FRINGE_DEPTH; depth++) {
+        const x = square.x + inward.x * depth;
+        const y = square.y + inward.y * depth;
+        if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) break;
+
+        if (this.random.chance(1 - depth / (FRINGE_DEPTH + 1))) {
+          terrain[y][x] = edgeTerrain;
+        }
+      }
+    });
+  }
+
+  /**
+   * Border squares of one side, in edge order
+   */
+  private getSideSquares(width: number, height: number, side: MapSide): GridPosition[] {
+    switch (side) {
+      case 'north':
+        return Array.from({ length: width }, (_, x) => ({ x, y: 0 }));
+      case 'south':
+        return Array.from({ length: width }, (_, x) => ({ x, y: height - 1 }));
+      case 'west':
+        return Array.from({ length: height }, (_, y) => ({ x: 0, y }));
+      case 'east':
+        return Array.from({ length: height }, (_, y) => ({ x: width - 1, y }));
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Elevation Generator for FOURE VTT Level Generator
+ *
+ * Builds a heightmap for a finished terrain grid: raised plateaus bounded by
+ * ledges and cliffs, daises around altars, and sunken pits and chasms.
+ */
+
+import { TerrainUtils, ELEVATION_LIMITS } from '../types/terrain.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+
+/**
+ * Chance that a plateau rises two levels (a cliff) instead of one (a ledge)
+ */
+const CLIFF_CHANCE = 0.35;
+
+/**
+ * Elevation of sunken terrain, relative to the ground
+ */
+const SUNKEN_TERRAIN: Record<string, number> = {
+  pit: -1,
+  chasm: -2
+};
+
+/**
+ * Heightmap generator
+ */
+export class ElevationGenerator {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Generate a heightmap with the same shape as the terrain grid.
+   * Squares that block movement stay at ground level.
+   */
+  generate(terrain: string[][]): number[][] {
+    const elevation = terrain.map(row => row.map(() => 0));
+
+    this.raisePlateaus(terrain, elevation);
+    this.raiseDaises(terrain, elevation);
+    this.sinkHazards(terrain, elevation);
+
+    return elevation;
+  }
+
+  /**
+   * Raise a few rectangular areas of open ground by one or two levels.
+   * Larger maps get proportionally more plateaus; some maps stay flat.
+   */
+  private raisePlateaus(terrain: string[][], elevation: number[][]): void {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const areaScale = Math.max(1, Math.round((width * height) / 625));
+    const count = this.random.range(0, 2) * areaScale;
+
+    for (let i = 0; i < count; i++) {
+      const plateauWidth = this.random.range(3, Math.max(3, Math.floor(width / 3)));
+      const plateauHeight = this.random.range(3, Math.max(3, Math.floor(height / 3)));
+      const left = this.random.range(1, width - plateauWidth - 1);
+      const top = this.random.range(1, height - plateauHeight - 1);
+      const rise = this.random.chance(CLIFF_CHANCE) ? 2 : 1;
+
+      for (let y = top; y < top + plateauHeight; y++) {
+        for (let x = left; x < left + plateauWidth; x++) {
+          if (!TerrainUtils.blocksMovement(terrain[y][x])) {
+            elevation[y][x] = Math.max(elevation[y][x], rise);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Raise each altar and its open neighbours one level above the altar's ground
+   */
+  private raiseDaises(terrain: string[][], elevation: number[][]): void {
+    const altars: Array<{ x: number; y: number; level: number }> = [];
+
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === 'altar') {
+        altars.push({ x, y, level: this.clamp(elevation[y][x] + 1) });
+      }
+    }));
+
+    for (const altar of altars) {
+      for (let y = altar.y - 1; y <= altar.y + 1; y++) {
+        for (let x = altar.x - 1; x <= altar.x + 1; x++) {
+          if (y < 0 || y >= terrain.length || x < 0 || x >= terrain[0].length) continue;
+          if (TerrainUtils.blocksMovement(terrain[y][x])) continue;
+
+          elevation[y][x] = Math.max(elevation[y][x], altar.level);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sink pits and chasms below the ground
+   */
+  private sinkHazards(terrain: string[][], elevation: number[][]): void {
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      const level = SUNKEN_TERRAIN[cell];
+      if (typeof level === 'number') {
+        elevation[y][x] = this.clamp(level);
+      }
+    }));
+  }
+
+  private clamp(level: number): number {
+    return Math.max(ELEVATION_LIMITS.min, Math.min(ELEVATION_LIMITS.max, level));
+  }
+}
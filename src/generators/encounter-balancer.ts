@@ -6,8 +6,12 @@
  */
 
 import { TerrainUtils } from '../types/terrain.js';
+import { ThemeRegistry } from '../types/theme.js';
 import { EnvironmentalStoryteller } from './environmental-storyteller.js';
 import { TerrainGenerator } from './terrain-generator.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { Pathfinder } from '../utils/pathfinding.js';
+import { LineOfSight } from '../utils/line-of-sight.js';
 
 /**
  * Monster stat block for balancing
@@ -61,6 +65,11 @@ export interface EncounterDifficulty {
   };
 }
 
+/**
+ * Distance (in squares) of the imaginary attackers used to score a square's cover
+ */
+const COVER_CHECK_RANGE = 4;
+
 /**
  * Tactical positioning analysis
  */
@@ -80,31 +89,49 @@ interface TacticalPosition {
 export class EncounterBalancer {
   private storyteller: EnvironmentalStoryteller;
   private difficulty: EncounterDifficulty;
-
-  constructor(storyteller: EnvironmentalStoryteller, difficultyLevel: number = 1) {
+  private random: SeededRandom;
+  private lineOfSight?: LineOfSight;
+  private lineOfSightTerrain?: string[][];
+  private elevation?: number[][];
+
+  constructor(
+    storyteller: EnvironmentalStoryteller,
+    difficultyLevel: number = 1,
+    random: SeededRandom = new SeededRandom(storyteller.getSeed()).fork('encounter')
+  ) {
     this.storyteller = storyteller;
     this.difficulty = this.getDifficultyConfig(difficultyLevel);
+    this.random = random;
   }
 
   /**
-   * Generate balanced encounter for the map
+   * Generate balanced encounter for the map.
+   * With a heightmap, raised squares score higher and high ground affects cover.
    */
   generateEncounter(
     terrain: string[][],
-    playerCount: number = 4
+    playerCount: number = 4,
+    reservedPositions: Array<{ x: number; y: number }> = [],
+    elevation?: number[][]
   ): {
     monsters: MonsterStats[];
     objectives: string[];
     tacticalNotes: string[];
+    xpBudget: number;
   } {
     const monsters: MonsterStats[] = [];
-    const xpRemaining = this.calculateXPBudget(playerCount);
+    const xpBudget = this.calculateXPBudget(playerCount);
+
+    if (elevation !== this.elevation) {
+      this.elevation = elevation;
+      this.lineOfSight = undefined;
+    }
 
     // Generate monster composition
-    const composition = this.generateMonsterComposition(xpRemaining);
+    const composition = this.generateMonsterComposition(xpBudget);
 
     // Place monsters in tactically interesting positions
-    const monsterPositions = this.findTacticalPositions(terrain, composition);
+    const monsterPositions = this.findTacticalPositions(terrain, composition, reservedPositions);
 
     // Create monster stats
     let monsterIndex = 0;
@@ -123,7 +150,7 @@ export class EncounterBalancer {
     const objectives = this.generateObjectives(terrain, monsters);
     const tacticalNotes = this.generateTacticalNotes(terrain, monsters);
 
-    return { monsters, objectives, tacticalNotes };
+    return { monsters, objectives, tacticalNotes, xpBudget };
   }
 
   /**
@@ -199,12 +226,25 @@ export class EncounterBalancer {
   /**
    * Find tactically interesting positions for monsters
    */
-  private findTacticalPositions(terrain: string[][], composition: Record<string, number>): TacticalPosition[] {
+  private findTacticalPositions(
+    terrain: string[][],
+    composition: Record<string, number>,
+    reservedPositions: Array<{ x: number; y: number }> = []
+  ): TacticalPosition[] {
     const positions: TacticalPosition[] = [];
     const totalMonsters = Object.values(composition).reduce((sum, count) => sum + count, 0);
 
-    // Find all suitable positions
-    const allPositions = this.analyzeAllPositions(terrain);
+    // Find all suitable positions, keeping clear of reserved squares (e.g. player spawns).
+    // Distance is measured in movement, so a monster behind a wall isn't pushed away needlessly,
+    // and monsters are only placed where the reserved squares can actually reach them.
+    const distances = reservedPositions.length > 0
+      ? new Pathfinder(terrain).distanceMap(reservedPositions)
+      : null;
+    const allPositions = this.analyzeAllPositions(terrain).filter(candidate => {
+      if (!distances) return true;
+      const distance = distances[candidate.position.y][candidate.position.x];
+      return distance > 2 && distance !== Infinity;
+    });
 
     // Sort by tactical value (descending)
     allPositions.sort((a, b) => b.tacticalValue - a.tacticalValue);
@@ -232,6 +272,7 @@ export class EncounterBalancer {
             tacticalValue,
             terrainType: terrain[y][x],
             cover: this.calculateCover(terrain, x, y),
+            elevation: this.getElevation(terrain, x, y),
             flanking: this.calculateFlanking(terrain, x, y),
             mobility: this.calculateMobility(terrain, x, y)
           });
@@ -307,7 +348,7 @@ export class EncounterBalancer {
     // Mobility bonus
     value += this.calculateMobility(terrain, x, y) * 3;
 
-    // Elevation bonus (if implemented)
+    // High ground bonus; sunken squares score lower
     value += (this.getElevation(terrain, x, y) || 0) * 2;
 
     return value;
@@ -339,24 +380,28 @@ export class EncounterBalancer {
    * Calculate cover value at position
    */
   private calculateCover(terrain: string[][], x: number, y: number): number {
+    const lineOfSight = this.getLineOfSight(terrain);
+    const target = { x, y };
     let cover = 0;
 
-    // Check adjacent terrain for cover
+    // Score the cover this square has against attackers a few squares away in each direction
     for (let dy = -1; dy <= 1; dy++) {
       for (let dx = -1; dx <= 1; dx++) {
         if (dx === 0 && dy === 0) continue;
 
-        const nx = x + dx;
-        const ny = y + dy;
+        const attacker = { x: x + dx * COVER_CHECK_RANGE, y: y + dy * COVER_CHECK_RANGE };
+        if (lineOfSight.blocksSight(attacker)) continue;
 
-        if (nx >= 0 && nx < terrain[0].length && ny >= 0 && ny < terrain.length) {
-          const neighborTerrain = terrain[ny][nx];
+        if (!lineOfSight.hasLineOfSight(attacker, target)) {
+          cover += 1;
+          continue;
+        }
 
-          if (TerrainUtils.blocksLineOfSight(neighborTerrain)) {
-            cover += 1;
-          } else if (['ruins', 'mushrooms', 'difficult'].includes(neighborTerrain)) {
-            cover += 0.5;
-          }
+        const level = lineOfSight.getCover(attacker, target);
+        if (level === 'superior') {
+          cover += 1;
+        } else if (level === 'cover') {
+          cover += 0.5;
         }
       }
     }
@@ -364,6 +409,17 @@ export class EncounterBalancer {
     return cover;
   }
 
+  /**
+   * Line of sight engine for the terrain being analyzed
+   */
+  private getLineOfSight(terrain: string[][]): LineOfSight {
+    if (!this.lineOfSight || this.lineOfSightTerrain !== terrain) {
+      this.lineOfSight = new LineOfSight(terrain, { elevation: this.elevation });
+      this.lineOfSightTerrain = terrain;
+    }
+    return this.lineOfSight;
+  }
+
   /**
    * Calculate flanking opportunities
    */
@@ -448,11 +504,10 @@ export class EncounterBalancer {
   }
 
   /**
-   * Get elevation (placeholder for future elevation system)
+   * Get elevation from the encounter's heightmap, if it has one
    */
   private getElevation(terrain: string[][], x: number, y: number): number | undefined {
-    // Placeholder - could be implemented with additional terrain properties
-    return undefined;
+    return this.elevation?.[y]?.[x];
   }
 
   /**
@@ -460,7 +515,7 @@ export class EncounterBalancer {
    */
   private createMonster(role: string, position: TacticalPosition, index: number): MonsterStats {
     const baseStats = this.getBaseStatsForRole(role);
-    const theme = this.storyteller['theme']; // Access private field
+    const theme = this.storyteller.getTheme();
 
     return {
       ...baseStats,
@@ -613,7 +668,7 @@ export class EncounterBalancer {
       case 'minions':
         return 'melee';
       case 'standards':
-        return Math.random() < 0.5 ? 'melee' : 'ranged';
+        return this.random.chance(0.5) ? 'melee' : 'ranged';
       case 'elites':
         return 'mixed';
       case 'solos':
@@ -648,22 +703,7 @@ export class EncounterBalancer {
    * Get theme-appropriate tags
    */
   private getTagsForTheme(theme: string): string[] {
-    const baseTags = ['monster'];
-
-    switch (theme) {
-      case 'dungeon':
-        return [...baseTags, 'undead', 'cave_dweller'];
-      case 'wilderness':
-        return [...baseTags, 'beast', 'wild'];
-      case 'underground':
-        return [...baseTags, 'elemental', 'crystal'];
-      case 'urban':
-        return [...baseTags, 'humanoid', 'civilized'];
-      case 'mystical':
-        return [...baseTags, 'magical', 'summoned'];
-      default:
-        return baseTags;
-    }
+    return ['monster', ...(ThemeRegistry.default.get(theme)?.monsterTags || [])];
   }
 
   /**
@@ -740,6 +780,11 @@ export class EncounterBalancer {
       notes.push('Environmental hazards present - avoid dangerous terrain');
     }
 
+    const onHighGround = monsters.filter(m => (this.getElevation(terrain, m.position.x, m.position.y) || 0) > 0).length;
+    if (onHighGround > 0) {
+      notes.push('Some enemies hold the high ground - expect them to be harder to hit from below');
+    }
+
     // Monster behavior analysis
     const aggressiveMonsters = monsters.filter(m => m.ai.behavior === 'aggressive').length;
     if (aggressiveMonsters > monsters.length / 2) {
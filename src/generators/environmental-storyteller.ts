@@ -2,11 +2,13 @@
  * Environmental Storytelling System for FOURE VTT Level Generator
  *
  * Creates narrative-rich environments with interactive elements, environmental effects,
- * and thematic consistency that tell stories through level design.
+ * and thematic consistency that tell stories through level design. What each theme
+ * places comes from its definition in ThemeRegistry.
  */
 
 import { TerrainGenerator } from './terrain-generator.js';
-import { TERRAIN_PALETTES } from '../types/terrain.js';
+import { ThemeRegistry, ThemeDefinition, ThemePlacement } from '../types/theme.js';
+import { SeededRandom } from '../utils/seeded-random.js';
 
 /**
  * Environmental effect configuration
@@ -67,555 +69,147 @@ interface Position {
  */
 export class EnvironmentalStoryteller {
   private generator: TerrainGenerator;
-  private theme: keyof typeof TERRAIN_PALETTES;
-
-  constructor(generator: TerrainGenerator, theme: keyof typeof TERRAIN_PALETTES) {
+  private theme: string;
+  private definition: ThemeDefinition | undefined;
+  private random: SeededRandom;
+
+  constructor(
+    generator: TerrainGenerator,
+    theme: string,
+    random: SeededRandom = new SeededRandom(generator.getSeed()).fork('storyteller')
+  ) {
     this.generator = generator;
     this.theme = theme;
+    this.definition = ThemeRegistry.default.get(theme);
+    this.random = random;
   }
 
   /**
-   * Generate environmental effects for the map
-   */
-  generateEnvironmentalEffects(terrain: string[][]): EnvironmentalEffect[] {
-    const effects: EnvironmentalEffect[] = [];
-
-    switch (this.theme) {
-      case 'dungeon':
-        effects.push(...this.generateDungeonEffects(terrain));
-        break;
-      case 'wilderness':
-        effects.push(...this.generateWildernessEffects(terrain));
-        break;
-      case 'underground':
-        effects.push(...this.generateUndergroundEffects(terrain));
-        break;
-      case 'urban':
-        effects.push(...this.generateUrbanEffects(terrain));
-        break;
-      case 'mystical':
-        effects.push(...this.generateMysticalEffects(terrain));
-        break;
-    }
-
-    return effects;
-  }
-
-  /**
-   * Generate interactive objects for the map
+   * Seed of the terrain this storyteller decorates
    */
-  generateInteractiveObjects(terrain: string[][]): InteractiveObject[] {
-    const objects: InteractiveObject[] = [];
-
-    switch (this.theme) {
-      case 'dungeon':
-        objects.push(...this.generateDungeonObjects(terrain));
-        break;
-      case 'wilderness':
-        objects.push(...this.generateWildernessObjects(terrain));
-        break;
-      case 'underground':
-        objects.push(...this.generateUndergroundObjects(terrain));
-        break;
-      case 'urban':
-        objects.push(...this.generateUrbanObjects(terrain));
-        break;
-      case 'mystical':
-        objects.push(...this.generateMysticalObjects(terrain));
-        break;
-    }
-
-    return objects;
+  getSeed(): number {
+    return this.generator.getSeed();
   }
 
   /**
-   * Generate narrative elements for the map
+   * ID of the theme this storyteller follows
    */
-  generateNarrativeElements(terrain: string[][]): NarrativeElement[] {
-    const elements: NarrativeElement[] = [];
-
-    switch (this.theme) {
-      case 'dungeon':
-        elements.push(...this.generateDungeonNarratives(terrain));
-        break;
-      case 'wilderness':
-        elements.push(...this.generateWildernessNarratives(terrain));
-        break;
-      case 'underground':
-        elements.push(...this.generateUndergroundNarratives(terrain));
-        break;
-      case 'urban':
-        elements.push(...this.generateUrbanNarratives(terrain));
-        break;
-      case 'mystical':
-        elements.push(...this.generateMysticalNarratives(terrain));
-        break;
-    }
-
-    return elements;
+  getTheme(): string {
+    return this.theme;
   }
 
   /**
-   * Dungeon-themed environmental effects
+   * Generate environmental effects for the map
    */
-  private generateDungeonEffects(terrain: string[][]): EnvironmentalEffect[] {
+  generateEnvironmentalEffects(terrain: string[][]): EnvironmentalEffect[] {
     const effects: EnvironmentalEffect[] = [];
-    const width = terrain[0].length;
-    const height = terrain.length;
-
-    // Cave darkness effect
-    effects.push({
-      id: 'cave-darkness',
-      name: 'Cave Darkness',
-      type: 'lighting',
-      area: 'global',
-      effects: {
-        brightness: 'dim',
-        concealment: 'partial'
-      },
-      description: 'The cave is shrouded in perpetual dimness, providing partial concealment',
-      theme: 'dungeon'
-    });
-
-    // Trap areas
-    const trapPositions = this.findSuitableTrapLocations(terrain, 3);
-    trapPositions.forEach((pos, index) => {
-      effects.push({
-        id: `trap-area-${index}`,
-        name: 'Suspicious Floor',
-        type: 'zone',
-        area: [pos],
-        effects: {
-          statusEffects: ['vulnerable']
-        },
-        description: 'The floor here looks unstable...',
-        theme: 'dungeon'
-      });
-    });
 
-    // Magical aura
-    const magicalPositions = this.findSuitableAuraLocations(terrain, 2);
-    magicalPositions.forEach((pos, index) => {
-      effects.push({
-        id: `magical-aura-${index}`,
-        name: 'Magical Residue',
-        type: 'aura',
-        area: [pos],
-        effects: {
-          healing: 5
-        },
-        description: 'Faint magical energy lingers in the air',
-        theme: 'dungeon'
+    for (const template of this.definition?.effects || []) {
+      const effect = (id: string, area: Position[] | 'global'): EnvironmentalEffect => ({
+        id,
+        name: template.name,
+        type: template.type,
+        area,
+        effects: template.effects,
+        description: template.description,
+        theme: this.theme
       });
-    });
-
-    return effects;
-  }
-
-  /**
-   * Wilderness-themed environmental effects
-   */
-  private generateWildernessEffects(terrain: string[][]): EnvironmentalEffect[] {
-    const effects: EnvironmentalEffect[] = [];
-
-    // Forest canopy
-    effects.push({
-      id: 'forest-canopy',
-      name: 'Forest Canopy',
-      type: 'global',
-      area: 'global',
-      effects: {
-        concealment: 'partial',
-        movementCost: 1
-      },
-      description: 'Thick foliage overhead provides cover but slows movement',
-      theme: 'wilderness'
-    });
-
-    // Weather effects (rain)
-    effects.push({
-      id: 'rain-slick',
-      name: 'Rain-slicked Ground',
-      type: 'global',
-      area: 'global',
-      effects: {
-        statusEffects: ['slippery']
-      },
-      description: 'Recent rain makes the ground treacherous',
-      theme: 'wilderness'
-    });
 
-    return effects;
-  }
-
-  /**
-   * Underground-themed environmental effects
-   */
-  private generateUndergroundEffects(terrain: string[][]): EnvironmentalEffect[] {
-    const effects: EnvironmentalEffect[] = [];
-
-    // Crystal resonance
-    effects.push({
-      id: 'crystal-resonance',
-      name: 'Crystal Resonance',
-      type: 'aura',
-      area: this.findCrystalLocations(terrain).slice(0, 3),
-      effects: {
-        brightness: 'bright',
-        healing: 3
-      },
-      description: 'Crystals hum with healing energy',
-      theme: 'underground'
-    });
-
-    // Underground chill
-    effects.push({
-      id: 'underground-chill',
-      name: 'Perpetual Chill',
-      type: 'global',
-      area: 'global',
-      effects: {
-        statusEffects: ['chilled']
-      },
-      description: 'The deep earth maintains a constant chill',
-      theme: 'underground'
-    });
-
-    return effects;
-  }
-
-  /**
-   * Urban-themed environmental effects
-   */
-  private generateUrbanEffects(terrain: string[][]): EnvironmentalEffect[] {
-    const effects: EnvironmentalEffect[] = [];
-
-    // Rubble field
-    effects.push({
-      id: 'rubble-field',
-      name: 'Rubble Field',
-      type: 'zone',
-      area: this.findRubbleAreas(terrain),
-      effects: {
-        movementCost: 2,
-        concealment: 'partial'
-      },
-      description: 'Collapsed buildings provide cover but hinder movement',
-      theme: 'urban'
-    });
-
-    // Street lighting
-    effects.push({
-      id: 'street-lights',
-      name: 'Street Lighting',
-      type: 'lighting',
-      area: 'global',
-      effects: {
-        brightness: 'dim'
-      },
-      description: 'Faint street lights cast eerie shadows',
-      theme: 'urban'
-    });
-
-    return effects;
-  }
-
-  /**
-   * Mystical-themed environmental effects
-   */
-  private generateMysticalEffects(terrain: string[][]): EnvironmentalEffect[] {
-    const effects: EnvironmentalEffect[] = [];
-
-    // Ley line energy
-    effects.push({
-      id: 'ley-line',
-      name: 'Ley Line Energy',
-      type: 'zone',
-      area: this.findLeyLinePath(terrain),
-      effects: {
-        brightness: 'bright',
-        healing: 5,
-        statusEffects: ['energized']
-      },
-      description: 'Powerful magical energy flows through ancient ley lines',
-      theme: 'mystical'
-    });
-
-    // Mystical fog
-    effects.push({
-      id: 'mystical-fog',
-      name: 'Mystical Fog',
-      type: 'global',
-      area: 'global',
-      effects: {
-        concealment: 'partial',
-        statusEffects: ['confused']
-      },
-      description: 'Thick fog infused with magical properties disorients travelers',
-      theme: 'mystical'
-    });
+      if (template.area === 'global') {
+        effects.push(effect(template.id, 'global'));
+      } else if (template.perSquare) {
+        this.findPlacement(terrain, template.area).forEach((pos, index) => {
+          effects.push(effect(`${template.id}-${index}`, [pos]));
+        });
+      } else {
+        effects.push(effect(template.id, this.findPlacement(terrain, template.area)));
+      }
+    }
 
     return effects;
   }
 
   /**
-   * Dungeon-themed interactive objects
-   */
-  private generateDungeonObjects(terrain: string[][]): InteractiveObject[] {
-    const objects: InteractiveObject[] = [];
-
-    // Treasure chests
-    const chestPositions = this.findSuitableObjectLocations(terrain, 'empty', 3);
-    chestPositions.forEach((pos, index) => {
-      objects.push({
-        id: `chest-${index}`,
-        name: 'Treasure Chest',
-        position: pos,
-        terrainType: 'empty',
-        interactions: ['open', 'lockpick', 'search'],
-        description: 'A sturdy wooden chest, possibly containing valuables',
-        theme: 'dungeon'
-      });
-    });
-
-    // Pressure plates
-    const platePositions = this.findSuitableObjectLocations(terrain, 'empty', 2);
-    platePositions.forEach((pos, index) => {
-      objects.push({
-        id: `pressure-plate-${index}`,
-        name: 'Pressure Plate',
-        position: pos,
-        terrainType: 'empty',
-        interactions: ['step', 'examine'],
-        description: 'A suspicious-looking stone plate set into the floor',
-        theme: 'dungeon'
-      });
-    });
-
-    return objects;
-  }
-
-  /**
-   * Wilderness-themed interactive objects
-   */
-  private generateWildernessObjects(terrain: string[][]): InteractiveObject[] {
-    const objects: InteractiveObject[] = [];
-
-    // Campfire
-    objects.push({
-      id: 'campfire',
-      name: 'Abandoned Campfire',
-      position: this.findCentralLocation(terrain),
-      terrainType: 'empty',
-      interactions: ['examine', 'use', 'rest'],
-      description: 'A recently used campfire with embers still glowing',
-      theme: 'wilderness'
-    });
-
-    // Hunting trap
-    const trapPositions = this.findSuitableObjectLocations(terrain, 'difficult', 2);
-    trapPositions.forEach((pos, index) => {
-      objects.push({
-        id: `hunting-trap-${index}`,
-        name: 'Hunting Trap',
-        position: pos,
-        terrainType: 'difficult',
-        interactions: ['examine', 'disarm', 'trigger'],
-        description: 'A cleverly concealed trap for small game',
-        theme: 'wilderness'
-      });
-    });
-
-    return objects;
-  }
-
-  /**
-   * Underground-themed interactive objects
-   */
-  private generateUndergroundObjects(terrain: string[][]): InteractiveObject[] {
-    const objects: InteractiveObject[] = [];
-
-    // Crystal formation
-    const crystalPositions = this.findCrystalLocations(terrain);
-    crystalPositions.forEach((pos, index) => {
-      objects.push({
-        id: `crystal-${index}`,
-        name: 'Crystal Formation',
-        position: pos,
-        terrainType: 'crystal',
-        interactions: ['mine', 'examine', 'channel'],
-        description: 'A beautiful crystal formation pulsing with inner light',
-        theme: 'underground'
-      });
-    });
-
-    return objects;
-  }
-
-  /**
-   * Urban-themed interactive objects
+   * Generate interactive objects for the map
    */
-  private generateUrbanObjects(terrain: string[][]): InteractiveObject[] {
+  generateInteractiveObjects(terrain: string[][]): InteractiveObject[] {
     const objects: InteractiveObject[] = [];
 
-    // Market stall
-    objects.push({
-      id: 'market-stall',
-      name: 'Abandoned Market Stall',
-      position: this.findCentralLocation(terrain),
-      terrainType: 'empty',
-      interactions: ['search', 'examine', 'use'],
-      description: 'A weathered market stall with some goods still remaining',
-      theme: 'urban'
-    });
-
-    // Sewer grate
-    const gratePositions = this.findSuitableObjectLocations(terrain, 'empty', 1);
-    gratePositions.forEach((pos, index) => {
-      objects.push({
-        id: `sewer-grate-${index}`,
-        name: 'Sewer Grate',
-        position: pos,
-        terrainType: 'empty',
-        interactions: ['lift', 'examine', 'enter'],
-        description: 'A heavy iron grate covering access to the sewers below',
-        theme: 'urban'
+    for (const template of this.definition?.objects || []) {
+      const { placement } = template;
+      const terrainType = template.terrainType || ('terrain' in placement ? placement.terrain : 'empty');
+
+      this.findPlacement(terrain, placement).forEach((pos, index) => {
+        objects.push({
+          // Single-square placements keep the plain ID
+          id: this.isSingleSquare(placement) ? template.id : `${template.id}-${index}`,
+          name: template.name,
+          position: pos,
+          terrainType,
+          interactions: template.interactions,
+          description: template.description,
+          theme: this.theme
+        });
       });
-    });
+    }
 
     return objects;
   }
 
   /**
-   * Mystical-themed interactive objects
+   * Generate narrative elements for the map
    */
-  private generateMysticalObjects(terrain: string[][]): InteractiveObject[] {
-    const objects: InteractiveObject[] = [];
-
-    // Portal
-    objects.push({
-      id: 'mystic-portal',
-      name: 'Mystic Portal',
-      position: this.findCentralLocation(terrain),
-      terrainType: 'portal',
-      interactions: ['enter', 'examine', 'stabilize'],
-      description: 'A swirling vortex of pure magical energy',
-      theme: 'mystical'
-    });
-
-    // Rune circle
-    const runePositions = this.findSuitableObjectLocations(terrain, 'empty', 3);
-    runePositions.forEach((pos, index) => {
-      objects.push({
-        id: `rune-circle-${index}`,
-        name: 'Ancient Rune Circle',
-        position: pos,
-        terrainType: 'empty',
-        interactions: ['activate', 'study', 'disrupt'],
-        description: 'A circle of glowing runes etched into the stone floor',
-        theme: 'mystical'
-      });
-    });
-
-    return objects;
+  generateNarrativeElements(terrain: string[][]): NarrativeElement[] {
+    return (this.definition?.narratives || []).map(template => ({
+      id: template.id,
+      type: template.type,
+      position: this.findPlacement(terrain, template.placement)[0] || this.findCentralLocation(terrain),
+      radius: template.radius,
+      message: template.message,
+      ...(template.conditions ? { conditions: template.conditions } : {}),
+      theme: this.theme
+    }));
   }
 
   /**
-   * Generate narrative elements for different themes
+   * Squares chosen by a placement; random placements draw from the storyteller's stream
    */
-  private generateDungeonNarratives(terrain: string[][]): NarrativeElement[] {
-    return [
-      {
-        id: 'ancient-warning',
-        type: 'warning',
-        position: this.findNarrativeLocation(terrain, 'central'),
-        radius: 3,
-        message: 'Turn back, mortal. The depths hunger for souls.',
-        theme: 'dungeon'
-      },
-      {
-        id: 'treasure-hint',
-        type: 'hint',
-        position: this.findNarrativeLocation(terrain, 'peripheral'),
-        radius: 2,
-        message: 'Riches await those brave enough to seek them.',
-        theme: 'dungeon'
-      }
-    ];
-  }
-
-  private generateWildernessNarratives(terrain: string[][]): NarrativeElement[] {
-    return [
-      {
-        id: 'wilderness-warning',
-        type: 'warning',
-        position: this.findNarrativeLocation(terrain, 'edge'),
-        radius: 4,
-        message: 'Danger lurks in the shadows of the ancient forest.',
-        theme: 'wilderness'
-      }
-    ];
-  }
-
-  private generateUndergroundNarratives(terrain: string[][]): NarrativeElement[] {
-    return [
-      {
-        id: 'crystal-prophecy',
-        type: 'story',
-        position: this.findCrystalLocations(terrain)[0] || this.findCentralLocation(terrain),
-        radius: 5,
-        message: 'When the crystals sing, the mountain shall awaken.',
-        theme: 'underground'
-      }
-    ];
-  }
-
-  private generateUrbanNarratives(terrain: string[][]): NarrativeElement[] {
-    return [
-      {
-        id: 'city-mystery',
-        type: 'story',
-        position: this.findCentralLocation(terrain),
-        radius: 3,
-        message: 'The city remembers what the people have forgotten.',
-        theme: 'urban'
-      }
-    ];
-  }
-
-  private generateMysticalNarratives(terrain: string[][]): NarrativeElement[] {
-    return [
-      {
-        id: 'magical-convergence',
-        type: 'story',
-        position: this.findCentralLocation(terrain),
-        radius: 6,
-        message: 'Here the threads of fate are woven by ancient hands.',
-        theme: 'mystical'
-      }
-    ];
-  }
-
-  // Utility methods for finding suitable locations
-  private findSuitableTrapLocations(terrain: string[][], count: number): Position[] {
-    const positions: Position[] = [];
+  private findPlacement(terrain: string[][], placement: ThemePlacement): Position[] {
+    const width = terrain[0].length;
+    const height = terrain.length;
 
-    for (let y = 1; y < terrain.length - 1; y++) {
-      for (let x = 1; x < terrain[0].length - 1; x++) {
-        if (terrain[y][x] === 'empty' && positions.length < count) {
-          positions.push({ x, y });
-        }
+    switch (placement.kind) {
+      case 'first':
+        return this.findInteriorLocations(terrain, placement.terrain, placement.count);
+      case 'all': {
+        const positions = this.findTerrainLocations(terrain, placement.terrain);
+        return placement.limit !== undefined ? positions.slice(0, placement.limit) : positions;
       }
+      case 'center':
+        return [this.findCentralLocation(terrain)];
+      case 'diagonal':
+        return this.findLeyLinePath(terrain);
+      case 'edge':
+        return [{
+          x: this.random.nextInt(width),
+          y: this.random.chance(0.5) ? 1 : height - 2
+        }];
+      case 'peripheral':
+        return [{
+          x: this.random.chance(0.5) ? 2 : width - 3,
+          y: this.random.nextInt(height)
+        }];
+      default:
+        return [this.findCentralLocation(terrain)];
     }
-
-    return positions;
   }
 
-  private findSuitableAuraLocations(terrain: string[][], count: number): Position[] {
-    return this.findSuitableObjectLocations(terrain, 'empty', count);
+  private isSingleSquare(placement: ThemePlacement): boolean {
+    return placement.kind === 'center' || placement.kind === 'edge' || placement.kind === 'peripheral';
   }
 
-  private findSuitableObjectLocations(terrain: string[][], requiredTerrain: string, count: number): Position[] {
+  // Utility methods for finding suitable locations
+  private findInteriorLocations(terrain: string[][], requiredTerrain: string, count: number): Position[] {
     const positions: Position[] = [];
 
     for (let y = 1; y < terrain.length - 1; y++) {
@@ -629,26 +223,12 @@ export class EnvironmentalStoryteller {
     return positions;
   }
 
-  private findCrystalLocations(terrain: string[][]): Position[] {
-    const positions: Position[] = [];
-
-    for (let y = 0; y < terrain.length; y++) {
-      for (let x = 0; x < terrain[0].length; x++) {
-        if (terrain[y][x] === 'crystal') {
-          positions.push({ x, y });
-        }
-      }
-    }
-
-    return positions;
-  }
-
-  private findRubbleAreas(terrain: string[][]): Position[] {
+  private findTerrainLocations(terrain: string[][], requiredTerrain: string): Position[] {
     const positions: Position[] = [];
 
     for (let y = 0; y < terrain.length; y++) {
       for (let x = 0; x < terrain[0].length; x++) {
-        if (terrain[y][x] === 'rubble') {
+        if (terrain[y][x] === requiredTerrain) {
           positions.push({ x, y });
         }
       }
@@ -676,26 +256,4 @@ export class EnvironmentalStoryteller {
       y: Math.floor(terrain.length / 2)
     };
   }
-
-  private findNarrativeLocation(terrain: string[][], preference: 'central' | 'peripheral' | 'edge'): Position {
-    const width = terrain[0].length;
-    const height = terrain.length;
-
-    switch (preference) {
-      case 'central':
-        return this.findCentralLocation(terrain);
-      case 'edge':
-        return {
-          x: Math.floor(Math.random() * width),
-          y: Math.random() < 0.5 ? 1 : height - 2
-        };
-      case 'peripheral':
-        return {
-          x: Math.random() < 0.5 ? 2 : width - 3,
-          y: Math.floor(Math.random() * height)
-        };
-      default:
-        return this.findCentralLocation(terrain);
-    }
-  }
 }
@@ -0,0 +1,221 @@
+/**
+ * Hazard Generator for FOURE VTT Level Generator
+ *
+ * Cuts a theme's large hazards into a finished map once the level's difficulty calls
+ * for them: lava rivers and chasms running across the map, bridged where the paths
+ * between the areas they separate cross them, and frozen lakes of ice. The map stays
+ * as connected as it was before.
+ */
+
+import { GridPosition, TerrainCategory, TerrainUtils } from '../types/terrain.js';
+import { HazardKind, ThemeHazard } from '../types/theme.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { NoiseField } from '../utils/noise.js';
+import { Pathfinder, MovementProfile } from '../utils/pathfinding.js';
+import { TerrainConnectivity, TerrainRegion } from '../utils/connectivity.js';
+
+/**
+ * Terrain of each cut across the map, and how often it drifts sideways per square
+ */
+const CUTS: Record<Exclude<HazardKind, 'frozen-lake'>, { terrain: string; meander: number }> = {
+  'lava-river': { terrain: 'lava', meander: 0.4 },
+  chasm: { terrain: 'chasm', meander: 0.15 }
+};
+
+/**
+ * Terrain laid where a path crosses a cut
+ */
+const CROSSING_TERRAIN = 'bridge';
+
+/**
+ * Cost of crossing one hazard square when routing between cut-off areas, in squares of
+ * detour, so routes look for the narrowest crossing near the direct line
+ */
+const CROSSING_COST = 10;
+
+const LAKE_TERRAIN = 'ice';
+
+/**
+ * Difficulty from which cuts are two squares wide
+ */
+const WIDE_CUT_DIFFICULTY = 4;
+
+/**
+ * Categories of terrain a hazard never replaces: walls, doors, altars and the like
+ */
+const KEPT_CATEGORIES = new Set([TerrainCategory.STRUCTURAL, TerrainCategory.INTERACTIVE]);
+
+/**
+ * Large terrain hazard generator
+ */
+export class HazardGenerator {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Add each of the theme's hazards whose minimum difficulty the level reaches, subject
+   * to its chance, writing them into the terrain grid. Protected squares (doorways,
+   * vaults) and the map's outer ring are left alone. Returns the kinds added, in order.
+   */
+  placeHazards(
+    terrain: string[][],
+    hazards: ThemeHazard[],
+    difficulty: number,
+    protectedSquares: GridPosition[] = []
+  ): HazardKind[] {
+    const kept = new Set(protectedSquares.map(square => `${square.x},${square.y}`));
+    const placed: HazardKind[] = [];
+
+    for (const hazard of hazards) {
+      if (difficulty < hazard.minDifficulty || !this.random.chance(hazard.chance ?? 1)) continue;
+
+      if (hazard.kind === 'frozen-lake') {
+        this.freezeLake(terrain, kept);
+      } else {
+        this.cutAcross(terrain, kept, hazard.kind, difficulty >= WIDE_CUT_DIFFICULTY ? 2 : 1);
+      }
+      placed.push(hazard.kind);
+    }
+
+    return placed;
+  }
+
+  /**
+   * Run a band of lava or chasm from one side of the map to the other, then bridge it
+   * where paths crossed it until every area it cut off can be reached again
+   */
+  private cutAcross(terrain: string[][], kept: Set<string>, kind: keyof typeof CUTS, cutWidth: number): void {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const { terrain: hazard, meander } = CUTS[kind];
+    const regionsBefore = TerrainConnectivity.analyze(terrain).regions.length;
+
+    const horizontal = this.random.chance(0.5);
+    const length = horizontal ? width : height;
+    const across = horizontal ? height : width;
+    const paint = (along: number, centre: number): void => {
+      const first = centre - Math.floor((cutWidth - 1) / 2);
+      for (let offset = first; offset < first + cutWidth; offset++) {
+        const { x, y } = horizontal ? { x: along, y: offset } : { x: offset, y: along };
+        if (this.canReplace(terrain, kept, x, y)) {
+          terrain[y][x] = hazard;
+        }
+      }
+    };
+
+    let centre = this.random.range(Math.floor(across / 3), Math.floor((2 * across) / 3));
+    for (let along = 1; along < length - 1; along++) {
+      paint(along, centre);
+      if (this.random.chance(meander)) {
+        centre = Math.max(2, Math.min(across - 3, centre + (this.random.chance(0.5) ? 1 : -1)));
+        // Fill the bend so the cut never thins to a diagonal step that could be slipped through
+        paint(along, centre);
+      }
+    }
+
+    this.bridgeCut(terrain, hazard, regionsBefore);
+  }
+
+  /**
+   * Lay a crossing over the cut for each area it cut off, where the cheapest route from
+   * the middle of that area to the middle of the largest one crosses it. Anything still
+   * cut off is tunnelled to instead.
+   */
+  private bridgeCut(terrain: string[][], hazard: string, regionsBefore: number): void {
+    const profile: MovementProfile = {
+      id: 'bridge-builder',
+      name: 'Bridge Builder',
+      terrainOverrides: { [hazard]: { blocksMovement: false, movementCost: CROSSING_COST } }
+    };
+    let analysis = TerrainConnectivity.analyze(terrain);
+
+    while (analysis.regions.length > regionsBefore) {
+      const path = new Pathfinder(terrain, profile).findPath(
+        HazardGenerator.centralSquare(analysis.regions[1]),
+        HazardGenerator.centralSquare(analysis.regions[0])
+      )?.path ?? [];
+
+      let bridged = 0;
+      const cross = (x: number, y: number): void => {
+        if (terrain[y][x] === hazard) {
+          terrain[y][x] = CROSSING_TERRAIN;
+          bridged++;
+        }
+      };
+
+      path.forEach((square, i) => {
+        cross(square.x, square.y);
+        const next = path[i + 1];
+        // A diagonal step over the cut needs both corner squares to stay walkable
+        if (next && next.x !== square.x && next.y !== square.y) {
+          cross(next.x, square.y);
+          cross(square.x, next.y);
+        }
+      });
+
+      if (bridged === 0) break;
+      analysis = TerrainConnectivity.analyze(terrain);
+    }
+
+    if (analysis.regions.length > regionsBefore && regionsBefore === 1) {
+      const repaired = TerrainConnectivity.repair(terrain, 'tunnel').terrain;
+      repaired.forEach((row, y) => { terrain[y] = row; });
+    }
+  }
+
+  /**
+   * Freeze a ragged, roughly round patch of open ground and water into ice
+   */
+  private freezeLake(terrain: string[][], kept: Set<string>): void {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const open: GridPosition[] = [];
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      if (this.isOpen(cell) && this.canReplace(terrain, kept, x, y)) open.push({ x, y });
+    }));
+    if (open.length === 0) return;
+
+    const centre = this.random.pick(open);
+    const side = Math.min(width, height);
+    const radius = this.random.range(Math.max(2, Math.floor(side / 8)), Math.max(3, Math.floor(side / 5)));
+    const shore = new NoiseField(this.random);
+
+    for (let y = centre.y - radius * 2; y <= centre.y + radius * 2; y++) {
+      for (let x = centre.x - radius * 2; x <= centre.x + radius * 2; x++) {
+        if (!this.canReplace(terrain, kept, x, y) || !this.isOpen(terrain[y][x])) continue;
+
+        // The shore wanders up to a third of the radius in or out
+        const reach = radius * (1 + shore.sample(x / 3, y / 3) / 3);
+        if (Math.hypot(x - centre.x, y - centre.y) <= reach) {
+          terrain[y][x] = LAKE_TERRAIN;
+        }
+      }
+    }
+  }
+
+  private canReplace(terrain: string[][], kept: Set<string>, x: number, y: number): boolean {
+    if (y < 1 || x < 1 || y >= terrain.length - 1 || x >= terrain[0].length - 1 || kept.has(`${x},${y}`)) {
+      return false;
+    }
+    const category = TerrainUtils.getTerrain(terrain[y][x])?.category;
+    return category !== undefined && !KEPT_CATEGORIES.has(category);
+  }
+
+  private isOpen(terrainType: string): boolean {
+    return TerrainUtils.getTerrain(terrainType)?.category === TerrainCategory.OPEN;
+  }
+
+  /**
+   * Square of a region closest to its centroid
+   */
+  private static centralSquare(region: TerrainRegion): GridPosition {
+    const cx = region.cells.reduce((sum, cell) => sum + cell.x, 0) / region.size;
+    const cy = region.cells.reduce((sum, cell) => sum + cell.y, 0) / region.size;
+    return region.cells.reduce((best, cell) =>
+      (cell.x - cx) ** 2 + (cell.y - cy) ** 2 < (best.x - cx) ** 2 + (best.y - cy) ** 2 ? cell : best
+    );
+  }
+}
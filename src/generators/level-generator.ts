@@ -6,10 +6,21 @@
  */
 
 import { TerrainGenerator, GenerationConfig } from './terrain-generator.js';
-import { EnvironmentalStoryteller } from './environmental-storyteller.js';
+import { EnvironmentalStoryteller, InteractiveObject, NarrativeElement } from './environmental-storyteller.js';
 import { EncounterBalancer, MonsterStats } from './encounter-balancer.js';
+import { ElevationGenerator } from './elevation-generator.js';
+import { DoorGenerator } from './door-generator.js';
+import { EdgeStitcher } from './edge-stitcher.js';
+import { HazardGenerator } from './hazard-generator.js';
 import { MapCompression } from '../utils/map-compression.js';
-import { TERRAIN_PALETTES, TERRAIN_TYPES, TerrainUtils } from '../types/terrain.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { LineOfSight } from '../utils/line-of-sight.js';
+import { Pathfinder } from '../utils/pathfinding.js';
+import { TerrainConnectivity } from '../utils/connectivity.js';
+import { RoomGraphData } from '../utils/room-graph.js';
+import { VaultPlacement } from '../types/prefab.js';
+import { TerrainUtils, MapLayers, Door, FloorLink, LinkType, GridPosition, MapEdges, WorldTile, MAP_DIMENSION_LIMITS } from '../types/terrain.js';
+import { ThemeRegistry, ThemeDefinition, DEFAULT_NAME_ADJECTIVES } from '../types/theme.js';
 import { CompressedMapData } from '../utils/map-compression.js';
 import { LevelObjective } from '../types/level-schema.js';
 
@@ -28,6 +39,18 @@ export interface GeneratedLevel {
   readonly map: {
     readonly dimensions: { width: number; height: number };
     readonly terrain: string[][];
+    /** Heightmap in levels relative to the ground, same shape as terrain */
+    readonly elevation?: number[][];
+    /** Features placed over base terrain; map.terrain holds the flattened result */
+    readonly layers?: MapLayers;
+    /** Doors hung where corridors meet rooms, with their open/closed/locked state */
+    readonly doors?: Door[];
+    /** Rooms, corridors and chokepoints of room-based (BSP and mixed) maps */
+    readonly graph?: RoomGraphData;
+    /** Prefab vaults stamped into the map, when the 'vaults' parameter asks for them */
+    readonly vaults?: VaultPlacement[];
+    /** Stairs, ladders and portals to the other floors of a dungeon set */
+    readonly links?: FloorLink[];
     readonly positions: Record<string, any>;
     readonly terrainConfigs: any;
   };
@@ -35,6 +58,8 @@ export interface GeneratedLevel {
   readonly startingActors: MonsterStats[];
   readonly playerSpawnPoints: Array<{ x: number; y: number }>;
   readonly environmentalEffects: any[];
+  readonly interactiveObjects: InteractiveObject[];
+  readonly narrativeElements: NarrativeElement[];
   readonly objectives: LevelObjective[];
   readonly tags: string[];
   readonly difficulty: string;
@@ -51,7 +76,73 @@ export interface GeneratedLevel {
     readonly algorithm: string;
     readonly compressedSize: number;
     readonly generationTime: number;
+    readonly xpBudget?: number;
+    /** Overworld tile the level was generated as */
+    readonly world?: WorldTile;
   };
+
+  /** The dungeon set this level is one floor of */
+  readonly dungeonSet?: {
+    readonly id: string;
+    readonly name: string;
+    /** Seed the whole set was generated from; the top floor's own seed */
+    readonly seed: number;
+    /** Floor number, counting down from 1 at the top */
+    readonly floor: number;
+    readonly floorCount: number;
+  };
+}
+
+/**
+ * Several floors generated from one seed, each linked to the next
+ */
+export interface DungeonSet {
+  readonly id: string;
+  readonly name: string;
+  readonly seed: number;
+  /** Floors from the top down */
+  readonly floors: GeneratedLevel[];
+}
+
+/**
+ * Supported number of floors in a dungeon set
+ */
+export const DUNGEON_SET_LIMITS = {
+  min: 2,
+  max: 10
+} as const;
+
+/**
+ * Chance that the way down from a floor is a ladder rather than stairs
+ */
+const LADDER_CHANCE = 0.25;
+
+/**
+ * Floors a dungeon set needs before its bottom floor gets a portal back to the top
+ */
+const RETURN_PORTAL_FLOORS = 3;
+
+/**
+ * Monster population mode
+ * - none: empty startingActors for manual placement
+ * - balanced: EncounterBalancer fills startingActors within an XP budget
+ */
+export type PopulationMode = 'none' | 'balanced';
+
+/**
+ * Optional level generator settings
+ */
+export interface LevelGeneratorOptions {
+  readonly width: number;
+  readonly height: number;
+  readonly parameters: Record<string, number | string | boolean>;
+  readonly populate: PopulationMode;
+  /** Example terrain grid for the wfc algorithm */
+  readonly example: string[][];
+  /** Terrain the map's border must hold, e.g. the facing edges of neighbouring maps */
+  readonly edges: MapEdges;
+  /** Overworld tile to generate, matching its neighbours along every edge */
+  readonly world: WorldTile;
 }
 
 /**
@@ -59,30 +150,61 @@ export interface GeneratedLevel {
  */
 export class LevelGenerator {
   private config: GenerationConfig;
+  private theme: ThemeDefinition;
+  private populate: PopulationMode;
 
   constructor(
     seed: number = Math.floor(Math.random() * 1000000),
-    theme: keyof typeof TERRAIN_PALETTES = 'dungeon',
-    algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' = 'mixed'
+    theme: string = 'dungeon',
+    algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' | 'wfc' | 'regions' = 'mixed',
+    options: Partial<LevelGeneratorOptions> = {}
   ) {
+    const width = options.width ?? MAP_DIMENSION_LIMITS.defaultWidth;
+    const height = options.height ?? MAP_DIMENSION_LIMITS.defaultHeight;
+
+    if (!TerrainUtils.isValidDimensions(width, height)) {
+      const { min, max } = MAP_DIMENSION_LIMITS;
+      throw new Error(`Map dimensions ${width}x${height} are outside the supported range (${min}-${max} per side)`);
+    }
+
+    const definition = ThemeRegistry.default.get(theme);
+    if (!definition) {
+      throw new Error(`Unknown theme '${theme}'; registered themes: ${ThemeRegistry.default.getIds().join(', ')}`);
+    }
+    this.theme = definition;
+
     this.config = {
-      width: 25,
-      height: 25,
+      width,
+      height,
       seed,
       theme,
       algorithm,
       parameters: {
-        minRoomSize: 4,
-        maxRooms: 8,
-        corridorWidth: 1,
-        initialFill: 0.45,
-        iterations: 4,
-        birthLimit: 4,
-        deathLimit: 3,
-        steps: 2000,
-        branchChance: 0.1
-      }
+        // Defaults scale with map area; explicit parameters always win
+        ...TerrainGenerator.getDefaultParameters(width, height),
+        // A world tile's rivers come in over its edges rather than being laid across it
+        ...(options.world ? { rivers: 0 } : {}),
+        ...options.parameters
+      },
+      ...(options.example ? { example: options.example } : {}),
+      ...(options.edges ? { edges: options.edges } : {}),
+      ...(options.world ? { world: options.world } : {})
     };
+    this.populate = options.populate ?? 'none';
+  }
+
+  /**
+   * Generator for a tile of an overworld. The level's seed comes from the world seed and
+   * the tile's coordinates, so the tile comes out the same every time and lines up with
+   * its neighbours as long as they share its theme, size and parameters.
+   */
+  static forWorldTile(
+    world: WorldTile,
+    theme: string = 'wilderness',
+    algorithm: GenerationConfig['algorithm'] = 'regions',
+    options: Partial<LevelGeneratorOptions> = {}
+  ): LevelGenerator {
+    return new LevelGenerator(EdgeStitcher.tileSeed(world), theme, algorithm, { ...options, world });
   }
 
   /**
@@ -96,16 +218,68 @@ export class LevelGenerator {
   ): GeneratedLevel {
     const startTime = Date.now();
 
+    // Terrain draws from the seed's primary stream; every other stage gets its own
+    // labelled sub-stream so changes in one stage never reshuffle the others
+    const random = new SeededRandom(this.config.seed);
+
     // Generate terrain
-    const terrainGenerator = new TerrainGenerator(this.config);
+    const terrainGenerator = new TerrainGenerator(this.config, random);
     const terrain = terrainGenerator.generate();
+    const vaults = terrainGenerator.getVaults();
+
+    // Theme hazards for the difficulty, kept off doorways and vaults; the 'hazards'
+    // parameter set to false leaves them out
+    if (this.theme.hazards && this.config.parameters.hazards !== false) {
+      const protectedSquares = [
+        ...terrainGenerator.getDoorways(terrain),
+        ...vaults.flatMap(vault => Array.from({ length: vault.width * vault.height }, (_, i) => ({
+          x: vault.x + (i % vault.width),
+          y: vault.y + Math.floor(i / vault.width)
+        })))
+      ];
+      new HazardGenerator(random.fork('hazards'))
+        .placeHazards(terrain, this.theme.hazards, difficultyLevel, protectedSquares);
+    }
+
+    const layers = { features: terrainGenerator.getFeatureLayer(terrain) };
+    const graph = terrainGenerator.getRoomGraph(terrain);
+
+    // Hang doors in the room doorways; the 'doors' parameter set to false leaves them open
+    const doorGenerator = new DoorGenerator(random.fork('doors'));
+    const doorwayDoors = this.config.parameters.doors === false
+      ? []
+      : doorGenerator.placeDoors(terrain, terrainGenerator.getDoorways(terrain), difficultyLevel);
+    // Doors that came with the terrain, such as those of prefab vaults, are listed too
+    const placedDoors = doorGenerator.addTerrainDoors(terrain, doorwayDoors, difficultyLevel);
+
+    // Heightmap for the finished terrain; the 'elevation' parameter set to false keeps maps flat
+    const elevation = this.config.parameters.elevation === false
+      ? undefined
+      : new ElevationGenerator(random.fork('elevation')).generate(terrain);
 
     // Generate environmental elements
-    const storyteller = new EnvironmentalStoryteller(terrainGenerator, this.config.theme);
+    const storyteller = new EnvironmentalStoryteller(terrainGenerator, this.config.theme, random.fork('storyteller'));
     const environmentalEffects = storyteller.generateEnvironmentalEffects(terrain);
-    const interactiveObjects = storyteller.generateInteractiveObjects(terrain);
+    const themeObjects = storyteller.generateInteractiveObjects(terrain);
     const narrativeElements = storyteller.generateNarrativeElements(terrain);
 
+    // Place players first so the encounter can keep its distance
+    const playerSpawnPoints = this.generatePlayerSpawnPoints(terrain, random.fork('spawn'));
+
+    // Keys for locked doors the players can't get around
+    const { doors, keys } = doorGenerator.placeKeys(terrain, placedDoors, playerSpawnPoints, this.config.theme);
+    const interactiveObjects = [...themeObjects, ...keys];
+
+    // Populate monsters when requested
+    let startingActors: MonsterStats[] = [];
+    let xpBudget: number | undefined;
+    if (this.populate === 'balanced') {
+      const balancer = new EncounterBalancer(storyteller, difficultyLevel, random.fork('encounter'));
+      const encounter = balancer.generateEncounter(terrain, playerCount, playerSpawnPoints, elevation);
+      startingActors = encounter.monsters;
+      xpBudget = encounter.xpBudget;
+    }
+
     // Compress the map
     const compressedData = terrainGenerator.generateCompressedMap();
     const compressionStats = MapCompression.getCompressionStats(terrain);
@@ -113,8 +287,9 @@ export class LevelGenerator {
     const generationTime = Date.now() - startTime;
 
     // Generate level metadata
-    const levelName = name || this.generateLevelName();
-    const description = this.generateLevelDescription();
+    const namingRandom = random.fork('naming');
+    const levelName = name || this.generateLevelName(namingRandom);
+    const description = this.generateLevelDescription(namingRandom);
 
     return {
       id: expectedId || `level-${this.config.seed}`,
@@ -123,19 +298,27 @@ export class LevelGenerator {
       version: '1.0.0',
       author: 'FOURE Team',
       recommendedLevel: difficultyLevel,
-      estimatedDuration: 60 + (difficultyLevel * 15),
+      // Capped at the five hours the schema allows
+      estimatedDuration: Math.min(300, 60 + (difficultyLevel * 15)),
 
       map: {
         dimensions: { width: this.config.width, height: this.config.height },
         terrain,
+        ...(elevation ? { elevation } : {}),
+        layers,
+        doors,
+        ...(graph ? { graph } : {}),
+        ...(vaults.length > 0 ? { vaults } : {}),
         positions: {},
-        terrainConfigs: this.generateTerrainConfigs(terrain)
+        terrainConfigs: LevelGenerator.generateTerrainConfigs(terrain)
       },
 
-      startingActors: [], // Empty array for manual monster placement
-      playerSpawnPoints: this.generatePlayerSpawnPoints(terrain),
+      startingActors, // Empty unless populated - ready for manual monster placement
+      playerSpawnPoints,
       environmentalEffects,
-      objectives: this.generateObjectives(terrain, []),
+      interactiveObjects,
+      narrativeElements,
+      objectives: this.generateObjectives(terrain, startingActors),
       tags: this.generateLevelTags(),
       difficulty: this.getDifficultyName(difficultyLevel),
       theme: this.config.theme,
@@ -148,15 +331,166 @@ export class LevelGenerator {
         seed: this.config.seed,
         algorithm: this.config.algorithm,
         compressedSize: Number(compressionStats.compressionRatio.toFixed(2)),
-        generationTime
+        generationTime,
+        ...(xpBudget !== undefined ? { xpBudget } : {}),
+        ...(this.config.world ? { world: this.config.world } : {})
       }
     };
   }
 
+  /**
+   * Generate a dungeon set: several floors with this generator's theme, algorithm and
+   * settings, the top one being the level this generator makes on its own and the deeper
+   * ones seeded from it. Each floor's way down (stairs, or now and then a ladder) is put
+   * as far from its spawn points as the players can walk, and lands near the spawn points
+   * of the floor below. Sets of three or more floors get a portal from the bottom floor
+   * back to the top.
+   */
+  generateDungeonSet(
+    floorCount: number,
+    playerCount: number = 4,
+    difficultyLevel: number = 1,
+    name?: string,
+    expectedId?: string
+  ): DungeonSet {
+    const { min, max } = DUNGEON_SET_LIMITS;
+    if (!Number.isInteger(floorCount) || floorCount < min || floorCount > max) {
+      throw new Error(`A dungeon set needs between ${min} and ${max} floors, got ${floorCount}`);
+    }
+
+    const seed = this.config.seed;
+    const id = expectedId || `dungeon-${seed}`;
+    const setName = name || this.generateLevelName(new SeededRandom(seed).fork('naming'));
+
+    const levels = Array.from({ length: floorCount }, (_, i) => {
+      const generator = i === 0 ? this : new LevelGenerator(
+        SeededRandom.deriveSeed(seed, `floor-${i + 1}`),
+        this.config.theme,
+        this.config.algorithm,
+        {
+          width: this.config.width,
+          height: this.config.height,
+          parameters: this.config.parameters,
+          populate: this.populate,
+          ...(this.config.example ? { example: this.config.example } : {})
+        }
+      );
+      return generator.generateLevel(playerCount, difficultyLevel, `${setName} - Floor ${i + 1}`, `${id}-floor-${i + 1}`);
+    });
+
+    const random = new SeededRandom(seed).fork('links');
+    const occupied = levels.map(level => this.getOccupiedSquares(level));
+    const links: FloorLink[][] = levels.map(() => []);
+
+    // Join two floors with a pair of links, each leading to the other's square
+    const join = (from: number, fromType: LinkType, fromId: string, fromEnd: 'near' | 'far',
+                  to: number, toType: LinkType, toId: string, toEnd: 'near' | 'far'): void => {
+      const fromSquare = this.findLinkSquare(levels[from], occupied[from], fromEnd);
+      const toSquare = this.findLinkSquare(levels[to], occupied[to], toEnd);
+      if (!fromSquare || !toSquare) {
+        throw new Error(`No open floor left to link floors ${from + 1} and ${to + 1} of dungeon set '${id}'`);
+      }
+
+      links[from].push({ id: fromId, ...fromSquare, type: fromType, target: { levelId: levels[to].id, ...toSquare } });
+      links[to].push({ id: toId, ...toSquare, type: toType, target: { levelId: levels[from].id, ...fromSquare } });
+      occupied[from].add(`${fromSquare.x},${fromSquare.y}`);
+      occupied[to].add(`${toSquare.x},${toSquare.y}`);
+    };
+
+    for (let i = 0; i < floorCount - 1; i++) {
+      const ladder = random.chance(LADDER_CHANCE);
+      join(i, ladder ? 'ladder' : 'stairs-down', 'way-down', 'far', i + 1, ladder ? 'ladder' : 'stairs-up', 'way-up', 'near');
+    }
+    if (floorCount >= RETURN_PORTAL_FLOORS) {
+      join(floorCount - 1, 'portal', 'return-portal', 'far', 0, 'portal', 'return-portal', 'near');
+    }
+
+    const floors = levels.map((level, i): GeneratedLevel => {
+      const terrain = level.map.terrain;
+      links[i].forEach(link => { terrain[link.y][link.x] = link.type; });
+
+      const wayDown = links[i].find(link => link.id === 'way-down');
+      const objectives = wayDown
+        ? [...level.objectives, {
+          id: 'descend',
+          type: 'explore',
+          target: `${wayDown.x},${wayDown.y}`,
+          description: `Find the way down to floor ${i + 2}`
+        }]
+        : level.objectives;
+
+      // Links stand over open floor like any other feature, and change the compression
+      // stats taken from the grid before they were written in
+      const features = [
+        ...(level.map.layers?.features || []),
+        ...links[i].map(link => ({ x: link.x, y: link.y, terrain: link.type, base: 'empty' }))
+      ].sort((a, b) => a.y - b.y || a.x - b.x);
+
+      return {
+        ...level,
+        map: {
+          ...level.map,
+          layers: { features },
+          links: links[i],
+          terrainConfigs: LevelGenerator.generateTerrainConfigs(terrain)
+        },
+        objectives,
+        metadata: {
+          ...level.metadata,
+          compressedSize: Number(MapCompression.getCompressionStats(terrain).compressionRatio.toFixed(2))
+        },
+        dungeonSet: { id, name: setName, seed, floor: i + 1, floorCount }
+      };
+    });
+
+    return { id, name: setName, seed, floors };
+  }
+
+  /**
+   * Squares of a level already taken by spawn points, creatures, objects or doors
+   */
+  private getOccupiedSquares(level: GeneratedLevel): Set<string> {
+    const squares: GridPosition[] = [
+      ...level.playerSpawnPoints,
+      ...level.startingActors.map(actor => actor.position),
+      ...level.interactiveObjects.map(object => object.position),
+      ...level.narrativeElements.map(element => element.position),
+      ...(level.map.doors || [])
+    ];
+    return new Set(squares.map(square => `${square.x},${square.y}`));
+  }
+
+  /**
+   * Open floor square the players can walk to, either the nearest to or the furthest
+   * from their spawn points
+   */
+  private findLinkSquare(level: GeneratedLevel, occupied: Set<string>, end: 'near' | 'far'): GridPosition | null {
+    const terrain = level.map.terrain;
+    const spawn = level.playerSpawnPoints[0];
+    const analysis = TerrainConnectivity.analyze(terrain);
+    const spawnRegion = spawn ? analysis.regionMap[spawn.y][spawn.x] : -1;
+    const distances = new Pathfinder(terrain).distanceMap(level.playerSpawnPoints);
+
+    let best: GridPosition | null = null;
+    let bestDistance = end === 'near' ? Infinity : -Infinity;
+    terrain.forEach((row, y) => row.forEach((cell, x) => {
+      const distance = distances[y][x];
+      if (cell !== 'empty' || occupied.has(`${x},${y}`) || distance === Infinity ||
+          analysis.regionMap[y][x] !== spawnRegion) return;
+
+      if (end === 'near' ? distance < bestDistance : distance > bestDistance) {
+        best = { x, y };
+        bestDistance = distance;
+      }
+    }));
+
+    return best;
+  }
+
   /**
    * Generate terrain configurations based on terrain types used in the map
    */
-  private generateTerrainConfigs(terrain: string[][]): Record<string, any> {
+  static generateTerrainConfigs(terrain: string[][]): Record<string, any> {
     const usedTerrainTypes = new Set<string>();
 
     // Find all terrain types used in the map
@@ -170,7 +504,7 @@ export class LevelGenerator {
     const terrainConfigs: Record<string, any> = {};
 
     usedTerrainTypes.forEach(terrainType => {
-      const config = TERRAIN_TYPES[terrainType];
+      const config = TerrainUtils.getTerrain(terrainType);
       if (config) {
         terrainConfigs[terrainType] = {
           id: config.id,
@@ -201,10 +535,10 @@ export class LevelGenerator {
   /**
    * Generate encounter objectives based on terrain and monsters
    */
-  private generateObjectives(terrain: string[][], monsters: any[]): LevelObjective[] {
+  private generateObjectives(terrain: string[][], monsters: MonsterStats[]): LevelObjective[] {
     const objectives: LevelObjective[] = [];
 
-    // Primary objective - will be set by game engine when monsters are added
+    // Primary objective - monsters come from the balancer or are added by the game engine
     if (monsters.length > 0) {
       objectives.push({
         id: 'defeat-hostiles',
@@ -218,6 +552,7 @@ export class LevelGenerator {
         objectives.push({
           id: 'eliminate-elites',
           type: 'eliminate',
+          target: 'elites-*',
           description: 'Eliminate the elite threats first',
           optional: true
         });
@@ -228,6 +563,7 @@ export class LevelGenerator {
         objectives.push({
           id: 'focus-boss',
           type: 'eliminate',
+          target: 'solos-*',
           description: 'Focus fire on the boss creature',
           optional: true
         });
@@ -283,66 +619,27 @@ export class LevelGenerator {
   /**
    * Generate level name based on theme and seed
    */
-  private generateLevelName(): string {
-    const themeNames = {
-      dungeon: 'Caverns',
-      wilderness: 'Wilds',
-      underground: 'Depths',
-      urban: 'District',
-      mystical: 'Sanctum'
-    };
+  private generateLevelName(random: SeededRandom): string {
+    const { places, adjectives = DEFAULT_NAME_ADJECTIVES } = this.theme.names;
 
-    const adjectives = [
-      'Forgotten', 'Ancient', 'Haunted', 'Sacred', 'Cursed',
-      'Mysterious', 'Dark', 'Hidden', 'Lost', 'Forbidden'
-    ];
-
-    const themeName = themeNames[this.config.theme] || 'Realm';
-    const adjective = adjectives[Math.floor(Math.random() * adjectives.length)];
+    const adjective = random.pick(adjectives);
+    // A single place name needs no draw, so the description pick stays where it was
+    const place = places.length === 1 ? places[0] : random.pick(places);
 
-    return `${adjective} ${themeName} #${this.config.seed}`;
+    return `${adjective} ${place} #${this.config.seed}`;
   }
 
   /**
    * Generate level description
    */
-  private generateLevelDescription(): string {
-    const descriptions = {
-      dungeon: [
-        'A dark cave system teeming with underground creatures.',
-        'Ancient caverns that have claimed many adventurers.',
-        'A mysterious dungeon complex with hidden dangers.'
-      ],
-      wilderness: [
-        'Dense forest wilderness with natural hazards.',
-        'Untamed wilds where nature reigns supreme.',
-        'A dangerous forest filled with wild creatures.'
-      ],
-      underground: [
-        'Deep underground caverns with crystal formations.',
-        'Subterranean depths hiding ancient secrets.',
-        'Crystal-lit caves with mysterious properties.'
-      ],
-      urban: [
-        'Abandoned city streets with lurking dangers.',
-        'Urban decay where shadows come alive.',
-        'Forgotten district reclaimed by darkness.'
-      ],
-      mystical: [
-        'A realm where magic bends reality.',
-        'Mystical sanctum pulsing with arcane energy.',
-        'Magical convergence of ancient powers.'
-      ]
-    };
-
-    const themeDescriptions = descriptions[this.config.theme] || descriptions.dungeon;
-    return themeDescriptions[Math.floor(Math.random() * themeDescriptions.length)];
+  private generateLevelDescription(random: SeededRandom): string {
+    return random.pick(this.theme.descriptions);
   }
 
   /**
    * Generate player spawn points
    */
-  private generatePlayerSpawnPoints(terrain: string[][]): Array<{ x: number; y: number }> {
+  private generatePlayerSpawnPoints(terrain: string[][], random: SeededRandom): Array<{ x: number; y: number }> {
     const spawnPoints: Array<{ x: number; y: number }> = [];
     const margin = 2;
 
@@ -372,16 +669,31 @@ export class LevelGenerator {
       }
     }
 
-    // Ensure we have at least 4 spawn points
-    while (spawnPoints.length < 4) {
-      const x = margin + Math.floor(Math.random() * (this.config.width - margin * 2));
-      const y = margin + Math.floor(Math.random() * (this.config.height - margin * 2));
-
-      if (this.isValidSpawnLocation(terrain, x, y)) {
+    // Ensure we have at least 4 spawn points (bounded so small or cramped maps can't loop forever).
+    // For the first half of the attempts, extra points must be in sight of the first spawn point
+    // so the party doesn't start scattered out of view of each other.
+    const lineOfSight = new LineOfSight(terrain);
+    const maxAttempts = this.config.width * this.config.height;
+    for (let attempt = 0; attempt < maxAttempts && spawnPoints.length < 4; attempt++) {
+      const x = margin + random.nextInt(this.config.width - margin * 2);
+      const y = margin + random.nextInt(this.config.height - margin * 2);
+      const inSight = spawnPoints.length === 0 || attempt >= maxAttempts / 2 ||
+        lineOfSight.hasLineOfSight(spawnPoints[0], { x, y });
+
+      if (inSight && this.isValidSpawnLocation(terrain, x, y) && !spawnPoints.some(p => p.x === x && p.y === y)) {
         spawnPoints.push({ x, y });
       }
     }
 
+    // Fall back to any walkable square
+    for (let y = 0; y < this.config.height && spawnPoints.length < 4; y++) {
+      for (let x = 0; x < this.config.width && spawnPoints.length < 4; x++) {
+        if (!TerrainUtils.blocksMovement(terrain[y][x]) && !spawnPoints.some(p => p.x === x && p.y === y)) {
+          spawnPoints.push({ x, y });
+        }
+      }
+    }
+
     return spawnPoints.slice(0, 6); // Max 6 spawn points
   }
 
@@ -424,27 +736,17 @@ export class LevelGenerator {
    * Generate level tags
    */
   private generateLevelTags(): string[] {
-    const baseTags = ['generated', this.config.theme];
-
-    const themeTags = {
-      dungeon: ['cave', 'underground', 'exploration'],
-      wilderness: ['forest', 'outdoor', 'nature'],
-      underground: ['crystal', 'deep', 'mining'],
-      urban: ['city', 'buildings', 'streets'],
-      mystical: ['magic', 'arcane', 'ritual']
-    };
-
-    return [...baseTags, ...(themeTags[this.config.theme] || [])];
+    return ['generated', this.config.theme, ...this.theme.tags];
   }
 
   /**
-   * Get difficulty name
+   * Get difficulty name; everything past level 5 is one of the schema's 'epic' levels
    */
   private getDifficultyName(level: number): string {
     if (level <= 1) return 'easy';
     if (level <= 3) return 'medium';
     if (level <= 5) return 'hard';
-    return 'legendary';
+    return 'epic';
   }
 
   /**
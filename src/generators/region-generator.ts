@@ -0,0 +1,220 @@
+/**
+ * Region Generator for FOURE VTT Level Generator
+ *
+ * Lays out open country rather than rooms: the map is split into biome regions
+ * (clearings, thickets, marshes, ridges) around scattered Voronoi sites, each region's
+ * terrain is scattered over its ground by density, and rivers run edge to edge with
+ * bridges spaced along them where the crossings are.
+ */
+
+import { GridPosition, MapFeature, TerrainUtils } from '../types/terrain.js';
+import { ThemeRegionBiome } from '../types/theme.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+
+/**
+ * Region layout settings
+ */
+export interface RegionOptions {
+  /** Voronoi sites, each growing one region */
+  readonly regionCount: number;
+  /** Rivers crossing the map from edge to edge */
+  readonly rivers: number;
+  /** Squares across each river */
+  readonly riverWidth: number;
+}
+
+/**
+ * Outcome of a region layout
+ */
+export interface RegionResult {
+  readonly terrain: string[][];
+  /** Terrain scattered over biome ground that no river or bridge landing replaced, in row-major order */
+  readonly features: MapFeature[];
+  /** Squares where a bridge crosses a river */
+  readonly bridges: GridPosition[];
+}
+
+const RIVER_TERRAIN = 'water';
+const BRIDGE_TERRAIN = 'bridge';
+
+/**
+ * Furthest a square's sample point is nudged when finding its region, which roughens
+ * the straight Voronoi borders
+ */
+const BORDER_JITTER = 2.5;
+
+/**
+ * Chance per step that a river drifts one square sideways
+ */
+const RIVER_MEANDER = 0.35;
+
+/**
+ * River squares per bridge
+ */
+const BRIDGE_SPACING = 12;
+
+/**
+ * Biome region and river generator
+ */
+export class RegionGenerator {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Lay out a map of the given size from a set of biomes
+   */
+  generate(width: number, height: number, biomes: ThemeRegionBiome[], options: RegionOptions): RegionResult {
+    if (biomes.length === 0) {
+      throw new Error('The regions algorithm needs at least one biome');
+    }
+
+    const sites = Array.from({ length: Math.max(1, options.regionCount) }, () => ({
+      x: this.random.range(0, width - 1),
+      y: this.random.range(0, height - 1),
+      biome: this.pickBiome(biomes)
+    }));
+
+    const terrain: string[][] = Array(height).fill(null).map(() => Array(width).fill('empty'));
+    const scattered: MapFeature[] = [];
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const sx = x + (this.random.next() - 0.5) * BORDER_JITTER * 2;
+        const sy = y + (this.random.next() - 0.5) * BORDER_JITTER * 2;
+        let nearest = sites[0];
+        let nearestDistance = Infinity;
+        for (const site of sites) {
+          const distance = (site.x - sx) ** 2 + (site.y - sy) ** 2;
+          if (distance < nearestDistance) {
+            nearest = site;
+            nearestDistance = distance;
+          }
+        }
+
+        const { ground, scatter = {} } = nearest.biome;
+        terrain[y][x] = ground;
+
+        // One roll per square decides which scattered terrain, if any, lands on it
+        let roll = this.random.next();
+        for (const [feature, share] of Object.entries(scatter)) {
+          if (roll < share) {
+            terrain[y][x] = feature;
+            scattered.push({ x, y, terrain: feature, base: ground });
+            break;
+          }
+          roll -= share;
+        }
+      }
+    }
+
+    // Index of the river covering each square, or -1; where rivers meet the later one wins
+    const river: number[][] = Array(height).fill(null).map(() => Array(width).fill(-1));
+    const courses = Array.from({ length: Math.max(0, options.rivers) }, (_, index) =>
+      this.carveRiver(terrain, river, index, Math.max(1, options.riverWidth))
+    );
+    const bridges = courses.flatMap((course, index) => this.placeBridges(terrain, river, index, course));
+
+    return {
+      terrain,
+      features: scattered.filter(({ x, y, terrain: feature }) => river[y][x] === -1 && terrain[y][x] === feature),
+      bridges
+    };
+  }
+
+  /**
+   * Run a meandering river from one edge to the opposite one, returning the square at
+   * the centre of the river at each step along it
+   */
+  private carveRiver(terrain: string[][], river: number[][], index: number, riverWidth: number): GridPosition[] {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const horizontal = this.random.chance(0.5);
+    const length = horizontal ? width : height;
+    const across = horizontal ? height : width;
+    const toSquare = (along: number, offset: number): GridPosition =>
+      horizontal ? { x: along, y: offset } : { x: offset, y: along };
+
+    const paint = (along: number, centre: number): void => {
+      const first = centre - Math.floor((riverWidth - 1) / 2);
+      for (let offset = first; offset < first + riverWidth; offset++) {
+        if (offset < 0 || offset >= across) continue;
+        const { x, y } = toSquare(along, offset);
+        terrain[y][x] = RIVER_TERRAIN;
+        river[y][x] = index;
+      }
+    };
+
+    const course: GridPosition[] = [];
+    let centre = this.random.range(Math.floor(across / 4), Math.floor((3 * across) / 4));
+
+    for (let along = 0; along < length; along++) {
+      paint(along, centre);
+      course.push(toSquare(along, centre));
+
+      if (this.random.chance(RIVER_MEANDER)) {
+        centre = Math.max(1, Math.min(across - 2, centre + (this.random.chance(0.5) ? 1 : -1)));
+        // Widen the bend in place so the river never narrows to a diagonal step
+        paint(along, centre);
+      }
+    }
+
+    return course;
+  }
+
+  /**
+   * Bridge a river at evenly spaced crossings, spanning the water across its flow and
+   * clearing any blocking square at either end so the bridge can be walked onto
+   */
+  private placeBridges(terrain: string[][], river: number[][], index: number, course: GridPosition[]): GridPosition[] {
+    const horizontal = course.length > 1 && course[1].x !== course[0].x;
+    const count = Math.max(1, Math.floor(course.length / BRIDGE_SPACING));
+    const bridges: GridPosition[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const crossing = course[Math.floor(((i + 0.5) * course.length) / count)];
+      const step = horizontal ? { x: 0, y: 1 } : { x: 1, y: 0 };
+      const isRiver = (x: number, y: number): boolean => river[y]?.[x] === index;
+
+      let start = crossing;
+      while (isRiver(start.x - step.x, start.y - step.y)) {
+        start = { x: start.x - step.x, y: start.y - step.y };
+      }
+
+      let square = start;
+      while (isRiver(square.x, square.y)) {
+        terrain[square.y][square.x] = BRIDGE_TERRAIN;
+        bridges.push(square);
+        square = { x: square.x + step.x, y: square.y + step.y };
+      }
+
+      for (const end of [{ x: start.x - step.x, y: start.y - step.y }, square]) {
+        const terrainType = terrain[end.y]?.[end.x];
+        if (terrainType !== undefined && TerrainUtils.blocksMovement(terrainType)) {
+          terrain[end.y][end.x] = 'empty';
+        }
+      }
+    }
+
+    return bridges;
+  }
+
+  /**
+   * Pick one of the biomes at random by weight
+   */
+  pickBiome(biomes: ThemeRegionBiome[]): ThemeRegionBiome {
+    const total = biomes.reduce((sum, biome) => sum + biome.weight, 0);
+    const roll = this.random.next() * total;
+
+    let cumulative = 0;
+    for (const biome of biomes) {
+      cumulative += biome.weight;
+      if (roll < cumulative) {
+        return biome;
+      }
+    }
+    return biomes[biomes.length - 1];
+  }
+}
@@ -6,11 +6,24 @@
  * - Cellular Automata for organic cave systems
  * - Drunkard's Walk for maze-like corridors
  * - Template-based generation with procedural variation
+ * - Wave Function Collapse, synthesizing maps in the style of an example map
+ * - Biome regions with rivers and bridges for open country
+ * Any algorithm can also have prefab vaults stamped into its rooms or caves, and have its
+ * edges stitched to neighbouring maps of an overworld.
  */
 
-import { TerrainUtils, TerrainCategory, TERRAIN_TYPES, TERRAIN_PALETTES } from '../types/terrain.js';
+import { TerrainUtils, TerrainCategory, TerrainRegistry, MapFeature, GridPosition, MapEdges, WorldTile, MAP_SIDES, MAP_DIMENSION_LIMITS } from '../types/terrain.js';
+import { ThemeRegistry, DEFAULT_REGION_BIOMES } from '../types/theme.js';
 import { MapCompression } from '../utils/map-compression.js';
 import { CompressedMapData } from '../utils/map-compression.js';
+import { SeededRandom } from '../utils/seeded-random.js';
+import { TerrainConnectivity, ConnectivityRepairMode, CONNECTIVITY_REPAIR_MODES } from '../utils/connectivity.js';
+import { RoomGraphData, GraphRoom, ROOM_SIZE_LIMITS } from '../utils/room-graph.js';
+import { PrefabRegistry, PrefabPlacement, PrefabVariant, VaultPlacement } from '../types/prefab.js';
+import { WfcGenerator } from './wfc-generator.js';
+import { RegionGenerator } from './region-generator.js';
+import { EdgeStitcher } from './edge-stitcher.js';
+import { NoiseField } from '../utils/noise.js';
 
 /**
  * Configuration for terrain generation
@@ -19,9 +32,16 @@ export interface GenerationConfig {
   readonly width: number;
   readonly height: number;
   readonly seed: number;
-  readonly theme: keyof typeof TERRAIN_PALETTES;
-  readonly algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed';
+  /** ID of a theme registered in ThemeRegistry */
+  readonly theme: string;
+  readonly algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' | 'wfc' | 'regions';
   readonly parameters: Record<string, number | string | boolean>;
+  /** Terrain grid the wfc algorithm learns its patterns from, e.g. a hand-crafted level's map.terrain */
+  readonly example?: string[][];
+  /** Terrain the map's outermost rows and columns must hold, e.g. copied from neighbouring maps */
+  readonly edges?: MapEdges;
+  /** Overworld tile the map is; its edges are derived from the world seed where not given in edges */
+  readonly world?: WorldTile;
 }
 
 /**
@@ -46,23 +66,264 @@ interface Room {
   centerY: number;
 }
 
+/**
+ * How BSP rooms are joined by corridors
+ * - chain: each room to the next in generation order
+ * - mst: minimum spanning tree over room centres plus loop edges, routed around other rooms
+ */
+export type ConnectionStrategy = 'chain' | 'mst';
+
+export const CONNECTION_STRATEGIES: ConnectionStrategy[] = ['chain', 'mst'];
+
+/**
+ * How features are scattered over open floor
+ * - scatter: an independent roll for each square
+ * - noise: coherent patches where a noise field runs highest, covering the same share of squares
+ */
+export type FeaturePlacement = 'scatter' | 'noise';
+
+export const FEATURE_PLACEMENTS: FeaturePlacement[] = ['scatter', 'noise'];
+
+/**
+ * Extra cost of a turn when routing corridors around rooms, in squares
+ */
+const CORRIDOR_TURN_COST = 2;
+
+/**
+ * Straight run of corridor squares, widened across its direction of travel
+ */
+interface CorridorSegment {
+  from: GridPosition;
+  to: GridPosition;
+  horizontal: boolean;
+}
+
+/**
+ * Corridor between two rooms, by index into the generated rooms
+ */
+interface CorridorLink {
+  from: number;
+  to: number;
+  length: number;
+}
+
 /**
  * Main Terrain Generator Class
  */
 export class TerrainGenerator {
   private config: GenerationConfig;
+  private stream: SeededRandom;
   private random: () => number;
+  private placedFeatures: MapFeature[] = [];
+  private doorways: Array<GridPosition & { room: number }> = [];
+  private rooms: Room[] = [];
+  private corridors: CorridorLink[] = [];
+  private vaults: VaultPlacement[] = [];
+  private prefabRandom: SeededRandom;
+
+  /**
+   * @param config - Generation settings
+   * @param random - Random stream to draw from; defaults to the seed's primary stream,
+   *                 which keeps terrain identical to earlier releases for the same seed
+   */
+  constructor(config: GenerationConfig, random: SeededRandom = new SeededRandom(config.seed)) {
+    if (!TerrainUtils.isValidDimensions(config.width, config.height)) {
+      const { min, max } = MAP_DIMENSION_LIMITS;
+      throw new Error(
+        `Map dimensions ${config.width}x${config.height} are outside the supported range (${min}-${max} per side)`
+      );
+    }
+
+    const strategy = config.parameters.connectionStrategy;
+    if (strategy !== undefined && !CONNECTION_STRATEGIES.includes(strategy as ConnectionStrategy)) {
+      throw new Error(`Unknown connection strategy '${strategy}'; expected one of: ${CONNECTION_STRATEGIES.join(', ')}`);
+    }
+
+    const placement = config.parameters.featurePlacement;
+    if (placement !== undefined && !FEATURE_PLACEMENTS.includes(placement as FeaturePlacement)) {
+      throw new Error(`Unknown feature placement '${placement}'; expected one of: ${FEATURE_PLACEMENTS.join(', ')}`);
+    }
+
+    const repair = config.parameters.connectivity;
+    if (repair !== undefined && !CONNECTIVITY_REPAIR_MODES.includes(repair as ConnectivityRepairMode)) {
+      throw new Error(`Unknown connectivity repair '${repair}'; expected one of: ${CONNECTIVITY_REPAIR_MODES.join(', ')}`);
+    }
+
+    if (config.algorithm === 'wfc' && !config.example) {
+      throw new Error(`The 'wfc' algorithm needs an example map to learn from`);
+    }
+
+    for (const side of MAP_SIDES) {
+      const edge = config.edges?.[side];
+      const length = side === 'north' || side === 'south' ? config.width : config.height;
+      if (edge && (!Array.isArray(edge) || edge.length !== length)) {
+        throw new Error(`The ${side} edge must list ${length} terrain squares to fit a ${config.width}x${config.height} map`);
+      }
+    }
+
+    if (config.world && ![config.world.seed, config.world.x, config.world.y].every(Number.isInteger)) {
+      throw new Error('A world tile needs an integer world seed and x, y coordinates');
+    }
 
-  constructor(config: GenerationConfig) {
     this.config = config;
-    // Simple seeded random number generator
-    this.random = this.seededRandom(config.seed);
+    this.stream = random;
+    this.random = () => random.next();
+    // Vaults draw from their own stream so stamping them never changes the layout around them
+    this.prefabRandom = random.fork('prefabs');
+  }
+
+  /**
+   * Seed this generator was configured with
+   */
+  getSeed(): number {
+    return this.config.seed;
+  }
+
+  /**
+   * Get default algorithm parameters scaled to the map area.
+   * Values are tuned for the classic 25x25 map and grow with the number of cells,
+   * so larger maps get more rooms, longer walks and proportionally sized rooms.
+   */
+  static getDefaultParameters(width: number, height: number): Record<string, number> {
+    const areaScale = (width * height) / (MAP_DIMENSION_LIMITS.defaultWidth * MAP_DIMENSION_LIMITS.defaultHeight);
+    const linearScale = Math.sqrt(areaScale);
+
+    return {
+      minRoomSize: Math.max(4, Math.min(12, Math.round(4 * linearScale))),
+      maxRooms: Math.max(2, Math.round(8 * areaScale)),
+      corridorWidth: Math.min(width, height) >= 60 ? 2 : 1,
+      initialFill: 0.45,
+      iterations: 4,
+      birthLimit: 4,
+      deathLimit: 3,
+      steps: Math.max(200, Math.round(2000 * areaScale)),
+      branchChance: 0.1,
+      loopPercentage: 20,
+      vaults: 0,
+      wfcPatternSize: 3,
+      wfcAttempts: 10,
+      regionCount: Math.max(3, Math.round(6 * areaScale)),
+      rivers: 1,
+      riverWidth: Math.min(width, height) >= 40 ? 2 : 1,
+      noiseScale: 6
+    };
   }
 
   /**
    * Generate a complete terrain map using the specified algorithm
    */
   generate(): string[][] {
+    this.placedFeatures = [];
+    this.doorways = [];
+    this.rooms = [];
+    this.corridors = [];
+    this.vaults = [];
+    const terrain = this.generateRaw();
+    const edges = this.getEdgeConstraints();
+    if (Object.keys(edges).length > 0) {
+      // Stitching draws from its own stream so the same tile always gets the same lines
+      new EdgeStitcher(this.stream.fork('edges')).stitch(terrain, edges);
+    }
+    this.stampVaults(terrain);
+    const mode = (this.config.parameters.connectivity as ConnectivityRepairMode | undefined) ?? 'tunnel';
+
+    // Make sure every walkable square can be reached from every other
+    return TerrainConnectivity.repair(terrain, mode).terrain;
+  }
+
+  /**
+   * Features placed over base terrain by the last generate() call that survive in
+   * the given grid, in row-major order. Squares later carved or overwritten drop out.
+   */
+  getFeatureLayer(terrain: string[][]): MapFeature[] {
+    const surviving = new Map<string, MapFeature>();
+    for (const feature of this.placedFeatures) {
+      if (terrain[feature.y]?.[feature.x] === feature.terrain) {
+        surviving.set(`${feature.x},${feature.y}`, feature);
+      }
+    }
+
+    return [...surviving.values()].sort((a, b) => a.y - b.y || a.x - b.x);
+  }
+
+  /**
+   * Squares where a corridor from the last generate() call enters a room through a
+   * one-square gap in its perimeter, kept while they are still open floor in the given grid
+   */
+  getDoorways(terrain: string[][]): GridPosition[] {
+    return this.doorways
+      .filter(doorway => terrain[doorway.y]?.[doorway.x] === 'empty')
+      .map(({ x, y }) => ({ x, y }));
+  }
+
+  /**
+   * Prefab vaults stamped by the last generate() call, in stamping order
+   */
+  getVaults(): VaultPlacement[] {
+    return [...this.vaults];
+  }
+
+  /**
+   * Rooms, corridors and doorways from the last generate() call, or undefined when the
+   * algorithm made no rooms. Doorways are kept while they are still open floor in the given grid.
+   */
+  getRoomGraph(terrain: string[][]): RoomGraphData | undefined {
+    if (this.rooms.length === 0) {
+      return undefined;
+    }
+
+    const roomId = (index: number): string => `room-${index}`;
+    const degree = this.rooms.map((_, index) =>
+      this.corridors.filter(corridor => corridor.from === index || corridor.to === index).length
+    );
+
+    const rooms: GraphRoom[] = this.rooms.map((room, index) => {
+      const area = Math.max(0, room.width - 2) * Math.max(0, room.height - 2);
+      const size = area <= ROOM_SIZE_LIMITS.small ? 'small' : area >= ROOM_SIZE_LIMITS.large ? 'large' : 'medium';
+      const shape = degree[index] === 1 ? ['dead-end'] : degree[index] >= 3 ? ['hub'] : [];
+      const vault = this.vaults.some(placed => placed.roomId === roomId(index)) ? ['vault'] : [];
+
+      return {
+        id: roomId(index),
+        bounds: { x: room.x, y: room.y, width: room.width, height: room.height },
+        center: { x: room.centerX, y: room.centerY },
+        area,
+        tags: [size, ...shape, ...vault]
+      };
+    });
+
+    return {
+      rooms,
+      corridors: this.corridors.map((corridor, index) => ({
+        id: `corridor-${index}`,
+        from: roomId(corridor.from),
+        to: roomId(corridor.to),
+        length: corridor.length
+      })),
+      chokepoints: this.doorways
+        .filter(doorway => terrain[doorway.y]?.[doorway.x] === 'empty')
+        .map(doorway => ({ x: doorway.x, y: doorway.y, roomId: roomId(doorway.room) }))
+    };
+  }
+
+  /**
+   * Edges the map must match: the world tile's edges, with any given edges taking their place
+   */
+  private getEdgeConstraints(): MapEdges {
+    const { width, height, parameters, world } = this.config;
+    if (!world) {
+      return this.config.edges || {};
+    }
+
+    const biomes = ThemeRegistry.default.get(this.config.theme)?.regions || DEFAULT_REGION_BIOMES;
+    const riverWidth = parameters.riverWidth as number || TerrainGenerator.getDefaultParameters(width, height).riverWidth;
+    return { ...EdgeStitcher.getWorldEdges(world, width, height, biomes, riverWidth), ...this.config.edges };
+  }
+
+  /**
+   * Run the configured algorithm without any connectivity repair
+   */
+  private generateRaw(): string[][] {
     switch (this.config.algorithm) {
       case 'bsp':
         return this.generateBSP();
@@ -74,6 +335,10 @@ export class TerrainGenerator {
         return this.generateTemplate();
       case 'mixed':
         return this.generateMixed();
+      case 'wfc':
+        return this.generateWFC();
+      case 'regions':
+        return this.generateRegions();
       default:
         return this.generateBSP(); // Default to BSP
     }
@@ -114,6 +379,10 @@ export class TerrainGenerator {
     // Add interesting terrain features
     this.addBSPFeatures(terrain, rooms);
 
+    // Keep the room layout, and note where corridors break through room perimeters
+    this.rooms = rooms;
+    rooms.forEach((room, index) => this.findDoorways(terrain, room, index));
+
     return terrain;
   }
 
@@ -200,23 +469,21 @@ export class TerrainGenerator {
     const featureChance = 0.15; // 15% chance for interesting features
 
     // Add features inside rooms
-    rooms.forEach(room => {
+    const interiors = rooms.flatMap(room => {
       const interiorWidth = room.width - 2; // Account for walls
       const interiorHeight = room.height - 2;
 
-      if (interiorWidth < 2 || interiorHeight < 2) return;
+      if (interiorWidth < 2 || interiorHeight < 2) return [];
 
-      // Add some interesting terrain features in room interiors
+      const squares: GridPosition[] = [];
       for (let y = room.y + 1; y < room.y + room.height - 1; y++) {
         for (let x = room.x + 1; x < room.x + room.width - 1; x++) {
-          if (terrain[y][x] === 'empty' && this.random() < featureChance) {
-            const features = this.getThemeFeatures();
-            const feature = features[Math.floor(this.random() * features.length)];
-            terrain[y][x] = feature;
-          }
+          squares.push({ x, y });
         }
       }
+      return squares;
     });
+    this.scatterFeatures(terrain, interiors, featureChance, 'rooms', roll => this.pickThemeFeature(roll));
 
     // Add some corridor features
     this.addCorridorFeatures(terrain);
@@ -235,7 +502,7 @@ export class TerrainGenerator {
           const neighbors = this.countNeighborsOfType(terrain, x, y, 'difficult');
           if (neighbors >= 4) { // At least 4 difficult terrain neighbors = likely corridor
             const feature = corridorFeatures[Math.floor(this.random() * corridorFeatures.length)];
-            terrain[y][x] = feature;
+            this.placeFeature(terrain, x, y, feature);
           }
         }
       }
@@ -286,57 +553,259 @@ export class TerrainGenerator {
   }
 
   /**
-   * Connect rooms with corridors
+   * Record the corridor openings in a room's perimeter that are a single square wide.
+   * Corners and stretches where a corridor runs along the perimeter are skipped.
    */
-  private connectRooms(terrain: string[][], rooms: Room[], corridorWidth: number): void {
-    for (let i = 0; i < rooms.length - 1; i++) {
-      const currentRoom = rooms[i];
-      const nextRoom = rooms[i + 1];
+  private findDoorways(terrain: string[][], room: Room, roomIndex: number): void {
+    const right = room.x + room.width - 1;
+    const bottom = room.y + room.height - 1;
+    const isPerimeter = (x: number, y: number): boolean => terrain[y]?.[x] === 'difficult';
+
+    for (let y = room.y; y <= bottom; y++) {
+      for (let x = room.x; x <= right; x++) {
+        const onHorizontalWall = y === room.y || y === bottom;
+        const onVerticalWall = x === room.x || x === right;
+        if (onHorizontalWall === onVerticalWall || terrain[y][x] !== 'empty') continue; // Interior or corner
+
+        const enclosed = onHorizontalWall
+          ? isPerimeter(x - 1, y) && isPerimeter(x + 1, y)
+          : isPerimeter(x, y - 1) && isPerimeter(x, y + 1);
+        if (enclosed) {
+          this.doorways.push({ x, y, room: roomIndex });
+        }
+      }
+    }
+  }
 
-      // Create L-shaped corridor
-      const startX = currentRoom.centerX;
-      const startY = currentRoom.centerY;
-      const endX = nextRoom.centerX;
-      const endY = nextRoom.centerY;
+  /**
+   * Connect rooms with corridors using the configured strategy
+   */
+  private connectRooms(terrain: string[][], rooms: Room[], corridorWidth: number): void {
+    const strategy = (this.config.parameters.connectionStrategy as ConnectionStrategy) || 'chain';
+    const links: Array<readonly [number, number]> = strategy === 'mst'
+      ? this.planSpanningLinks(rooms)
+      : rooms.slice(1).map((_, i) => [i, i + 1] as const);
 
+    for (const [from, to] of links) {
       // Ensure we don't go outside bounds
-      const safeStartX = Math.max(1, Math.min(terrain[0].length - 2, startX));
-      const safeStartY = Math.max(1, Math.min(terrain.length - 2, startY));
-      const safeEndX = Math.max(1, Math.min(terrain[0].length - 2, endX));
-      const safeEndY = Math.max(1, Math.min(terrain.length - 2, endY));
-
-      // Horizontal corridor first (from start to end X, at start Y)
-      const horizontalStart = Math.min(safeStartX, safeEndX);
-      const horizontalEnd = Math.max(safeStartX, safeEndX);
-
-      for (let x = horizontalStart; x <= horizontalEnd; x++) {
-        for (let cy = safeStartY - Math.floor(corridorWidth / 2); cy <= safeStartY + Math.floor(corridorWidth / 2); cy++) {
-          if (cy >= 0 && cy < terrain.length && x >= 0 && x < terrain[0].length) {
-            // Don't overwrite existing difficult terrain, create corridor through empty/difficult
-            if (terrain[cy][x] === 'empty' || terrain[cy][x] === 'difficult') {
-              terrain[cy][x] = 'empty';
-            }
+      const start = this.clampToInterior(terrain, { x: rooms[from].centerX, y: rooms[from].centerY });
+      const end = this.clampToInterior(terrain, { x: rooms[to].centerX, y: rooms[to].centerY });
+
+      // Chains cut straight across in an L; spanning trees steer around the other rooms
+      const segments = strategy === 'mst'
+        ? this.routeAroundRooms(terrain, start, end, rooms.filter((_, i) => i !== from && i !== to))
+        : this.lShapedRoute(start, end, true);
+
+      this.corridors.push({ from, to, length: this.getRouteSquares(segments).length });
+      this.carveCorridor(terrain, segments, corridorWidth);
+    }
+  }
+
+  /**
+   * Minimum spanning tree over room centres (Prim's, Manhattan distance), followed by
+   * the shortest remaining room pairs as loops: loopPercentage percent of the tree's edge count
+   */
+  private planSpanningLinks(rooms: Room[]): Array<readonly [number, number]> {
+    const distance = (a: number, b: number): number =>
+      Math.abs(rooms[a].centerX - rooms[b].centerX) + Math.abs(rooms[a].centerY - rooms[b].centerY);
+
+    const links: Array<readonly [number, number]> = [];
+    const inTree = rooms.length > 0 ? [0] : [];
+
+    while (inTree.length < rooms.length) {
+      let best: readonly [number, number] | null = null;
+      for (const a of inTree) {
+        for (let b = 0; b < rooms.length; b++) {
+          if (inTree.includes(b)) continue;
+          if (!best || distance(a, b) < distance(best[0], best[1])) {
+            best = [a, b];
           }
         }
       }
+      links.push(best!);
+      inTree.push(best![1]);
+    }
 
-      // Vertical corridor (from start to end Y, at end X)
-      const verticalStart = Math.min(safeStartY, safeEndY);
-      const verticalEnd = Math.max(safeStartY, safeEndY);
+    const loopPercentage = Math.max(0, this.config.parameters.loopPercentage as number || 0);
+    const loopCount = Math.round(links.length * loopPercentage / 100);
+    const linked = new Set(links.map(([a, b]) => `${Math.min(a, b)},${Math.max(a, b)}`));
+    const candidates: Array<readonly [number, number]> = [];
 
-      for (let y = verticalStart; y <= verticalEnd; y++) {
-        for (let cx = safeEndX - Math.floor(corridorWidth / 2); cx <= safeEndX + Math.floor(corridorWidth / 2); cx++) {
-          if (cx >= 0 && cx < terrain[0].length && y >= 0 && y < terrain.length) {
-            // Don't overwrite existing difficult terrain, create corridor through empty/difficult
-            if (terrain[y][cx] === 'empty' || terrain[y][cx] === 'difficult') {
-              terrain[y][cx] = 'empty';
-            }
+    for (let a = 0; a < rooms.length; a++) {
+      for (let b = a + 1; b < rooms.length; b++) {
+        if (!linked.has(`${a},${b}`)) {
+          candidates.push([a, b]);
+        }
+      }
+    }
+
+    // Stable sort keeps scan order between equally distant pairs
+    candidates.sort((p, q) => distance(p[0], p[1]) - distance(q[0], q[1]));
+    return [...links, ...candidates.slice(0, loopCount)];
+  }
+
+  /**
+   * Route a corridor that stays out of the given rooms: an L-shaped route if either
+   * orientation is clear, otherwise the path with the fewest turns around them
+   */
+  private routeAroundRooms(terrain: string[][], start: GridPosition, end: GridPosition, obstacles: Room[]): CorridorSegment[] {
+    const isBlocked = (x: number, y: number): boolean => obstacles.some(room =>
+      x >= room.x && x < room.x + room.width && y >= room.y && y < room.y + room.height
+    );
+
+    for (const horizontalFirst of [true, false]) {
+      const route = this.lShapedRoute(start, end, horizontalFirst);
+      if (!this.getRouteSquares(route).some(square => isBlocked(square.x, square.y))) {
+        return route;
+      }
+    }
+
+    const path = this.findCorridorPath(terrain, start, end, isBlocked);
+    return path ? this.toSegments(path) : this.lShapedRoute(start, end, true);
+  }
+
+  /**
+   * L-shaped route between two squares, turning once
+   */
+  private lShapedRoute(start: GridPosition, end: GridPosition, horizontalFirst: boolean): CorridorSegment[] {
+    const corner = horizontalFirst ? { x: end.x, y: start.y } : { x: start.x, y: end.y };
+    return [
+      { from: start, to: corner, horizontal: horizontalFirst },
+      { from: corner, to: end, horizontal: !horizontalFirst }
+    ];
+  }
+
+  /**
+   * Cheapest path through the map interior that avoids blocked squares, where each
+   * turn costs as much as CORRIDOR_TURN_COST steps. Returns null if there is none.
+   */
+  private findCorridorPath(
+    terrain: string[][],
+    start: GridPosition,
+    end: GridPosition,
+    isBlocked: (x: number, y: number) => boolean
+  ): GridPosition[] | null {
+    const width = terrain[0].length;
+    const height = terrain.length;
+    const directions: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+    const stateOf = (x: number, y: number, direction: number): number => (y * width + x) * 4 + direction;
+
+    // Dial's algorithm: step costs are small integers, so buckets stand in for a heap
+    const costs = new Map<number, number>();
+    const previous = new Map<number, number>();
+    const buckets: number[][] = [];
+
+    directions.forEach((_, direction) => {
+      const state = stateOf(start.x, start.y, direction);
+      costs.set(state, 0);
+      (buckets[0] ??= []).push(state);
+    });
+
+    for (let cost = 0; cost < buckets.length; cost++) {
+      for (const state of buckets[cost] || []) {
+        if (costs.get(state) !== cost) continue;
+
+        const direction = state % 4;
+        const square = Math.floor(state / 4);
+        const x = square % width;
+        const y = Math.floor(square / width);
+
+        if (x === end.x && y === end.y) {
+          const path: GridPosition[] = [];
+          for (let current: number | undefined = state; current !== undefined; current = previous.get(current)) {
+            const index = Math.floor(current / 4);
+            path.unshift({ x: index % width, y: Math.floor(index / width) });
+          }
+          return path;
+        }
+
+        directions.forEach(([dx, dy], nextDirection) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 1 || nx > width - 2 || ny < 1 || ny > height - 2 || isBlocked(nx, ny)) return;
+
+          const next = stateOf(nx, ny, nextDirection);
+          const nextCost = cost + 1 + (nextDirection === direction ? 0 : CORRIDOR_TURN_COST);
+          if (nextCost < (costs.get(next) ?? Infinity)) {
+            costs.set(next, nextCost);
+            previous.set(next, state);
+            (buckets[nextCost] ??= []).push(next);
+          }
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Split a path of orthogonal steps into straight segments sharing their corner squares
+   */
+  private toSegments(path: GridPosition[]): CorridorSegment[] {
+    if (path.length === 1) {
+      return [{ from: path[0], to: path[0], horizontal: true }];
+    }
+
+    const segments: CorridorSegment[] = [];
+    let from = path[0];
+    for (let i = 1; i < path.length; i++) {
+      const horizontal = path[i].y === path[i - 1].y;
+      const turnsNext = i + 1 < path.length && (path[i + 1].y === path[i].y) !== horizontal;
+      if (turnsNext || i === path.length - 1) {
+        segments.push({ from, to: path[i], horizontal });
+        from = path[i];
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Centre-line squares of a route, each counted once
+   */
+  private getRouteSquares(segments: CorridorSegment[]): GridPosition[] {
+    const squares = new Map<string, GridPosition>();
+
+    for (const { from, to } of segments) {
+      const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+      for (let i = 0; i <= steps; i++) {
+        const x = from.x + Math.sign(to.x - from.x) * i;
+        const y = from.y + Math.sign(to.y - from.y) * i;
+        squares.set(`${x},${y}`, { x, y });
+      }
+    }
+
+    return [...squares.values()];
+  }
+
+  /**
+   * Carve a route, widening horizontal segments vertically and vertical segments horizontally
+   */
+  private carveCorridor(terrain: string[][], segments: CorridorSegment[], corridorWidth: number): void {
+    const half = Math.floor(corridorWidth / 2);
+
+    for (const segment of segments) {
+      for (const square of this.getRouteSquares([segment])) {
+        for (let offset = -half; offset <= half; offset++) {
+          const x = segment.horizontal ? square.x : square.x + offset;
+          const y = segment.horizontal ? square.y + offset : square.y;
+          if (y < 0 || y >= terrain.length || x < 0 || x >= terrain[0].length) continue;
+
+          // Don't overwrite existing difficult terrain, create corridor through empty/difficult
+          if (terrain[y][x] === 'empty' || terrain[y][x] === 'difficult') {
+            terrain[y][x] = 'empty';
           }
         }
       }
     }
   }
 
+  private clampToInterior(terrain: string[][], position: GridPosition): GridPosition {
+    return {
+      x: Math.max(1, Math.min(terrain[0].length - 2, position.x)),
+      y: Math.max(1, Math.min(terrain.length - 2, position.y))
+    };
+  }
+
   /**
    * Cellular Automata Algorithm
    * Creates organic cave-like structures
@@ -428,28 +897,20 @@ export class TerrainGenerator {
    */
   private addCellularFeatures(terrain: string[][]): void {
     const featureChance = 0.1;
+    const caveFeatures = ThemeRegistry.default.get(this.config.theme)?.caveFeatures || [];
 
-    for (let y = 1; y < terrain.length - 1; y++) {
-      for (let x = 1; x < terrain[0].length - 1; x++) {
-        if (terrain[y][x] === 'empty' && this.random() < featureChance) {
-          // Add various features based on theme
-          switch (this.config.theme) {
-            case 'dungeon':
-              if (this.random() < 0.3) terrain[y][x] = 'pit';
-              else if (this.random() < 0.5) terrain[y][x] = 'water';
-              else terrain[y][x] = 'difficult';
-              break;
-            case 'wilderness':
-              terrain[y][x] = 'difficult';
-              break;
-            case 'underground':
-              if (this.random() < 0.4) terrain[y][x] = 'crystal';
-              else if (this.random() < 0.7) terrain[y][x] = 'water';
-              break;
-          }
-        }
+    this.scatterFeatures(terrain, this.getInteriorSquares(terrain), featureChance, 'caves', roll => {
+      // Walk the theme's cascade until a step applies. A noise roll is rescaled past each
+      // step it misses, which gives every step the same odds as fresh draws would.
+      for (const step of caveFeatures) {
+        if (step.chance === undefined) return step.terrain;
+
+        const draw = roll ?? this.random();
+        if (draw < step.chance) return step.terrain;
+        if (roll !== undefined) roll = (roll - step.chance) / (1 - step.chance);
       }
-    }
+      return undefined;
+    });
   }
 
   /**
@@ -462,6 +923,8 @@ export class TerrainGenerator {
 
     const steps = this.config.parameters.steps as number || 2000;
     const branchChance = this.config.parameters.branchChance as number || 0.1;
+    // Branch lengths grow with the map's linear size
+    const branchScale = Math.sqrt((width * height) / (MAP_DIMENSION_LIMITS.defaultWidth * MAP_DIMENSION_LIMITS.defaultHeight));
 
     // Start from center
     let x = Math.floor(width / 2);
@@ -490,7 +953,7 @@ export class TerrainGenerator {
 
         // Occasionally branch
         if (this.random() < branchChance) {
-          const branchSteps = Math.floor(this.random() * 50) + 10;
+          const branchSteps = Math.floor((Math.floor(this.random() * 50) + 10) * branchScale);
           this.drunkardBranch(terrain, x, y, branchSteps);
         }
       }
@@ -542,10 +1005,12 @@ export class TerrainGenerator {
     // Create a simple room layout
     const centerX = Math.floor(width / 2);
     const centerY = Math.floor(height / 2);
+    const halfWidth = Math.max(4, Math.floor(width / 6));
+    const halfHeight = Math.max(3, Math.floor(height / 8));
 
     // Main chamber
-    for (let y = centerY - 3; y <= centerY + 3; y++) {
-      for (let x = centerX - 4; x <= centerX + 4; x++) {
+    for (let y = centerY - halfHeight; y <= centerY + halfHeight; y++) {
+      for (let x = centerX - halfWidth; x <= centerX + halfWidth; x++) {
         if (x >= 0 && x < width && y >= 0 && y < height) {
           terrain[y][x] = 'empty';
         }
@@ -572,38 +1037,142 @@ export class TerrainGenerator {
   private varyTemplate(terrain: string[][]): string[][] {
     const variationChance = 0.2;
 
+    // Add various terrain features based on theme
+    this.scatterFeatures(terrain, this.getInteriorSquares(terrain), variationChance, 'template', roll =>
+      this.pickThemeFeature(roll)
+    );
+
+    return terrain;
+  }
+
+  /**
+   * Wave Function Collapse Algorithm
+   * Synthesizes a map from the patterns of the configured example map
+   */
+  private generateWFC(): string[][] {
+    const { width, height } = this.config;
+    const wfc = new WfcGenerator(this.stream);
+
+    return wfc.generate(this.config.example!, width, height, {
+      patternSize: this.config.parameters.wfcPatternSize as number || undefined,
+      attempts: this.config.parameters.wfcAttempts as number || undefined
+    }).terrain;
+  }
+
+  /**
+   * Biome Regions Algorithm
+   * Splits open country into the theme's biomes and runs bridged rivers across it
+   */
+  private generateRegions(): string[][] {
+    const { width, height, parameters } = this.config;
+    const defaults = TerrainGenerator.getDefaultParameters(width, height);
+    const biomes = ThemeRegistry.default.get(this.config.theme)?.regions || DEFAULT_REGION_BIOMES;
+    const regions = new RegionGenerator(this.stream);
+
+    const { terrain, features } = regions.generate(width, height, biomes, {
+      regionCount: parameters.regionCount as number || defaults.regionCount,
+      rivers: (parameters.rivers ?? defaults.rivers) as number,
+      riverWidth: parameters.riverWidth as number || defaults.riverWidth
+    });
+    this.placedFeatures.push(...features);
+
+    return terrain;
+  }
+
+  /**
+   * Place a feature over the square's current terrain and record it for the feature layer
+   */
+  private placeFeature(terrain: string[][], x: number, y: number, feature: string): void {
+    this.placedFeatures.push({ x, y, terrain: feature, base: terrain[y][x] });
+    terrain[y][x] = feature;
+  }
+
+  /**
+   * Squares inside the outermost ring of the map, in row-major order
+   */
+  private getInteriorSquares(terrain: string[][]): GridPosition[] {
+    const squares: GridPosition[] = [];
     for (let y = 1; y < terrain.length - 1; y++) {
       for (let x = 1; x < terrain[0].length - 1; x++) {
-        if (terrain[y][x] === 'empty' && this.random() < variationChance) {
-          // Add various terrain features based on theme
-          const features = this.getThemeFeatures();
-          const feature = features[Math.floor(this.random() * features.length)];
-          terrain[y][x] = feature;
+        squares.push({ x, y });
+      }
+    }
+    return squares;
+  }
+
+  /**
+   * Place features over the empty squares among those given, about `chance` of them,
+   * as the 'featurePlacement' parameter says. Scatter placement rolls for each square in
+   * turn and picks with fresh draws. Noise placement takes the squares where a noise field
+   * runs highest, drops any left without a featured neighbour, and picks with a roll from a
+   * broader field so each patch is mostly one terrain; `label` keeps each caller's fields apart.
+   */
+  private scatterFeatures(
+    terrain: string[][],
+    squares: GridPosition[],
+    chance: number,
+    label: string,
+    pick: (roll?: number) => string | undefined
+  ): void {
+    if (this.config.parameters.featurePlacement !== 'noise') {
+      for (const { x, y } of squares) {
+        if (terrain[y][x] === 'empty' && this.random() < chance) {
+          const feature = pick();
+          if (feature) this.placeFeature(terrain, x, y, feature);
         }
       }
+      return;
     }
 
-    return terrain;
+    const scale = Math.max(1, this.config.parameters.noiseScale as number || 6);
+    const noise = this.stream.fork(`noise-${label}`);
+    const density = new NoiseField(noise.fork('density'));
+    const kind = new NoiseField(noise.fork('kind'));
+
+    const open = squares.filter(({ x, y }) => terrain[y][x] === 'empty');
+    const chosen = open
+      .map(square => ({ ...square, value: density.fractal(square.x / scale, square.y / scale) }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, Math.round(open.length * chance));
+
+    // Rank the picking field over the chosen squares so the theme's weights hold across the map
+    const kinds = chosen.map(({ x, y }) => kind.fractal(x / (scale * 2), y / (scale * 2)));
+    const order = kinds.map((_, i) => i).sort((a, b) => kinds[a] - kinds[b]);
+    const rolls = new Array<number>(chosen.length);
+    order.forEach((index, rank) => { rolls[index] = rank / chosen.length; });
+
+    const isChosen = new Set(chosen.map(({ x, y }) => `${x},${y}`));
+    const hasNeighbour = (x: number, y: number): boolean =>
+      [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+        .some(([dx, dy]) => isChosen.has(`${x + dx},${y + dy}`));
+
+    chosen
+      .map((square, i) => ({ ...square, roll: rolls[i] }))
+      .filter(({ x, y }) => hasNeighbour(x, y))
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .forEach(({ x, y, roll }) => {
+        const feature = pick(roll);
+        if (feature) this.placeFeature(terrain, x, y, feature);
+      });
   }
 
   /**
-   * Get terrain features appropriate for the current theme
+   * Pick a feature terrain for the current theme, honouring its feature weights.
+   * The roll, in [0, 1), defaults to a fresh draw.
    */
-  private getThemeFeatures(): string[] {
-    switch (this.config.theme) {
-      case 'dungeon':
-        return ['pit', 'water', 'difficult', 'altar'];
-      case 'wilderness':
-        return ['difficult', 'trees', 'water', 'pit'];
-      case 'underground':
-        return ['crystal', 'water', 'difficult', 'stalagmite'];
-      case 'urban':
-        return ['rubble', 'water', 'pit', 'difficult'];
-      case 'mystical':
-        return ['crystal', 'portal', 'altar', 'mushrooms'];
-      default:
-        return ['difficult', 'water'];
+  private pickThemeFeature(roll: number = this.random()): string {
+    const features = TerrainRegistry.default.getFeatures(this.config.theme);
+    const total = features.reduce((sum, feature) => sum + feature.weight, 0);
+    const target = roll * total;
+
+    let cumulative = 0;
+    for (const feature of features) {
+      cumulative += feature.weight;
+      if (target < cumulative) {
+        return feature.terrain;
+      }
     }
+    return features[features.length - 1].terrain;
   }
 
   /**
@@ -625,30 +1194,134 @@ export class TerrainGenerator {
   private addCellularFeaturesToBSP(terrain: string[][]): string[][] {
     const featureChance = 0.05;
 
-    for (let y = 1; y < terrain.length - 1; y++) {
-      for (let x = 1; x < terrain[0].length - 1; x++) {
-        if (terrain[y][x] === 'empty' && this.random() < featureChance) {
-          const features = this.getThemeFeatures();
-          const feature = features[Math.floor(this.random() * features.length)];
-          terrain[y][x] = feature;
+    this.scatterFeatures(terrain, this.getInteriorSquares(terrain), featureChance, 'mixed', roll => this.pickThemeFeature(roll));
+
+    return terrain;
+  }
+
+  /**
+   * Stamp up to the 'vaults' parameter's count of prefab vaults. Maps with rooms get at
+   * most one per room, inside a ring of the room's floor; other maps have them carved into
+   * the rock wherever every anchor opens onto walkable ground. The 'vaultTags' parameter,
+   * a comma-separated list, limits the prefabs to those carrying one of the tags.
+   */
+  private stampVaults(terrain: string[][]): void {
+    const count = Math.max(0, Math.floor(this.config.parameters.vaults as number || 0));
+    if (count === 0) return;
+
+    const placement: PrefabPlacement = this.rooms.length > 0 ? 'room' : 'cave';
+    const prefabs = this.getVaultVariants(placement);
+    if (prefabs.length === 0) return;
+
+    if (placement === 'room') {
+      for (const index of this.prefabRandom.shuffle(this.rooms.map((_, i) => i))) {
+        if (this.vaults.length >= count) break;
+
+        // Leave a ring of floor between the vault and the room's perimeter
+        const room = this.rooms[index];
+        const fitting = prefabs
+          .map(variants => variants.filter(variant => variant.width <= room.width - 4 && variant.height <= room.height - 4))
+          .filter(variants => variants.length > 0);
+        if (fitting.length === 0) continue;
+
+        const variant = this.prefabRandom.pick(this.prefabRandom.pick(fitting));
+        const origin = {
+          x: this.prefabRandom.range(room.x + 2, room.x + room.width - 2 - variant.width),
+          y: this.prefabRandom.range(room.y + 2, room.y + room.height - 2 - variant.height)
+        };
+        this.stampVault(terrain, variant, origin, `room-${index}`);
+      }
+    } else {
+      for (let i = 0; i < count; i++) {
+        const variant = this.prefabRandom.pick(this.prefabRandom.pick(prefabs));
+        const sites = this.findCaveSites(terrain, variant);
+        if (sites.length > 0) {
+          this.stampVault(terrain, variant, this.prefabRandom.pick(sites));
         }
       }
     }
+  }
 
-    return terrain;
+  /**
+   * Orientations of each registered prefab suited to the placement, theme and vault tags
+   */
+  private getVaultVariants(placement: PrefabPlacement): PrefabVariant[][] {
+    const tags = String(this.config.parameters.vaultTags || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag !== '');
+
+    return PrefabRegistry.default.getAll()
+      .filter(prefab => prefab.placement.includes(placement))
+      .filter(prefab => !prefab.themes || prefab.themes.includes(this.config.theme))
+      .filter(prefab => tags.length === 0 || tags.some(tag => prefab.tags?.includes(tag)))
+      .map(prefab => PrefabRegistry.default.getVariants(prefab.id));
   }
 
   /**
-   * Seeded random number generator
+   * Top-left squares where a variant fits inside the map edge, clear of earlier vaults,
+   * with every anchor opening onto walkable ground
    */
-  private seededRandom(seed: number): () => number {
-    let m = 2 ** 35 - 31;
-    let a = 185852;
-    let s = seed % m;
+  private findCaveSites(terrain: string[][], variant: PrefabVariant): GridPosition[] {
+    const sites: GridPosition[] = [];
+    const overlapsVault = (x: number, y: number): boolean => this.vaults.some(vault =>
+      x <= vault.x + vault.width && x + variant.width >= vault.x &&
+      y <= vault.y + vault.height && y + variant.height >= vault.y
+    );
+
+    for (let y = 1; y + variant.height < terrain.length; y++) {
+      for (let x = 1; x + variant.width < terrain[0].length; x++) {
+        if (overlapsVault(x, y)) continue;
+
+        const opens = variant.anchors.every(anchor => {
+          const exit = PrefabRegistry.getAnchorExit(anchor);
+          const terrainType = terrain[y + exit.y]?.[x + exit.x];
+          return terrainType !== undefined && !TerrainUtils.blocksMovement(terrainType);
+        });
+        if (opens) {
+          sites.push({ x, y });
+        }
+      }
+    }
 
-    return function () {
-      return (s = (s * a) % m) / m;
-    };
+    return sites;
+  }
+
+  /**
+   * Write a variant's terrain into the grid at an origin and record the vault.
+   * Features it covers are dropped, and any blocking square beyond an anchor is cleared.
+   */
+  private stampVault(terrain: string[][], variant: PrefabVariant, origin: GridPosition, roomId?: string): void {
+    const covers = (x: number, y: number): boolean =>
+      (variant.cells[y - origin.y]?.[x - origin.x] ?? null) !== null;
+    this.placedFeatures = this.placedFeatures.filter(feature => !covers(feature.x, feature.y));
+
+    variant.cells.forEach((row, dy) => row.forEach((cell, dx) => {
+      if (cell !== null) {
+        terrain[origin.y + dy][origin.x + dx] = cell;
+      }
+    }));
+
+    const anchors = variant.anchors.map(anchor => ({ ...anchor, x: origin.x + anchor.x, y: origin.y + anchor.y }));
+    anchors.forEach(anchor => {
+      const exit = PrefabRegistry.getAnchorExit(anchor);
+      if (TerrainUtils.blocksMovement(terrain[exit.y][exit.x])) {
+        terrain[exit.y][exit.x] = 'empty';
+      }
+    });
+
+    this.vaults.push({
+      id: `vault-${this.vaults.length}`,
+      prefab: variant.prefab,
+      x: origin.x,
+      y: origin.y,
+      width: variant.width,
+      height: variant.height,
+      rotation: variant.rotation,
+      mirrored: variant.mirrored,
+      anchors,
+      ...(roomId ? { roomId } : {})
+    });
   }
 
   /**
@@ -0,0 +1,460 @@
+/**
+ * Wave Function Collapse Generator for FOURE VTT Level Generator
+ *
+ * Learns which terrain patterns may sit beside which from an example map (the
+ * overlapping model) and synthesizes new maps of any size in the same style. Map
+ * edges only take patterns seen along the matching edge of the example, so a walled
+ * example yields walled cousins. A contradiction restarts the run; if every attempt
+ * contradicts, the patterns are relearned one size smaller (down to 2x2), which loosens
+ * the rules, and only then does a lenient run carry on past squares left without a
+ * pattern, filling them with the example's most common terrain.
+ */
+
+import { SeededRandom } from '../utils/seeded-random.js';
+import { TerrainUtils } from '../types/terrain.js';
+
+/**
+ * Wave Function Collapse settings
+ */
+export interface WfcOptions {
+  /** Side of the square patterns learned from the example, 2-5 */
+  readonly patternSize: number;
+  /** Strict runs to try at each pattern size before falling back */
+  readonly attempts: number;
+}
+
+export const DEFAULT_WFC_OPTIONS: WfcOptions = {
+  patternSize: 3,
+  attempts: 10
+};
+
+/**
+ * Outcome of a synthesis
+ */
+export interface WfcResult {
+  readonly terrain: string[][];
+  /** Pattern size of the run kept, smaller than asked for after repeated contradictions */
+  readonly patternSize: number;
+  /** Strict runs made across all pattern sizes, the successful one included */
+  readonly attempts: number;
+  /** Whether a strict run finished without a contradiction */
+  readonly collapsed: boolean;
+  /** Squares filled with the example's most common terrain because no learned pattern fit */
+  readonly fallbackSquares: number;
+}
+
+/**
+ * Patterns and adjacency rules learned from an example map
+ */
+interface WfcModel {
+  readonly size: number;
+  readonly tiles: string[];
+  /** Tile indices of each pattern, row by row */
+  readonly patterns: Int32Array[];
+  /** Times each pattern occurs in the example */
+  readonly weights: number[];
+  /** Example edges each pattern touched, as EDGE_* flags */
+  readonly edges: number[];
+  /** Patterns allowed one step away in each direction: [direction][pattern] */
+  readonly propagator: number[][][];
+  /** Most common terrain in the example */
+  readonly fallback: string;
+}
+
+/**
+ * How a run treats the map edges and contradictions
+ */
+interface WfcRunMode {
+  /** Restrict edge squares to patterns seen along the example's matching edge */
+  readonly useEdges: boolean;
+  /** Collapse squares after applying the edge rules, rather than stopping there */
+  readonly observe: boolean;
+  /** Carry on past squares left without a pattern instead of failing */
+  readonly lenient: boolean;
+}
+
+/**
+ * Wave state of one run
+ */
+interface WfcWave {
+  readonly columns: number;
+  readonly rows: number;
+  readonly wave: Uint8Array;
+  readonly counts: Int32Array;
+  readonly contradiction: boolean;
+}
+
+const EDGE_TOP = 1;
+const EDGE_BOTTOM = 2;
+const EDGE_LEFT = 4;
+const EDGE_RIGHT = 8;
+
+/**
+ * Neighbour offsets (west, south, east, north) and the index of each one's opposite
+ */
+const DX = [-1, 0, 1, 0];
+const DY = [0, 1, 0, -1];
+const OPPOSITE = [2, 3, 0, 1];
+
+/**
+ * Min-heap of squares by entropy; entries go stale when the square changes and are skipped
+ */
+class EntropyHeap {
+  private entries: Array<{ entropy: number; cell: number; version: number }> = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(entropy: number, cell: number, version: number): void {
+    const entries = this.entries;
+    entries.push({ entropy, cell, version });
+
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (entries[parent].entropy <= entries[i].entropy) break;
+      [entries[parent], entries[i]] = [entries[i], entries[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { entropy: number; cell: number; version: number } {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop()!;
+
+    if (entries.length > 0) {
+      entries[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < entries.length && entries[left].entropy < entries[smallest].entropy) smallest = left;
+        if (right < entries.length && entries[right].entropy < entries[smallest].entropy) smallest = right;
+        if (smallest === i) break;
+        [entries[smallest], entries[i]] = [entries[i], entries[smallest]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+}
+
+/**
+ * Example-driven map synthesizer
+ */
+export class WfcGenerator {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Synthesize a map of the given size in the style of the example
+   */
+  generate(example: string[][], width: number, height: number, options: Partial<WfcOptions> = {}): WfcResult {
+    const patternSize = options.patternSize ?? DEFAULT_WFC_OPTIONS.patternSize;
+    const attempts = Math.max(1, options.attempts ?? DEFAULT_WFC_OPTIONS.attempts);
+    let model = WfcGenerator.learn(example, patternSize);
+
+    if (width < patternSize || height < patternSize) {
+      throw new Error(`Map ${width}x${height} is smaller than the ${patternSize}x${patternSize} wfc patterns`);
+    }
+
+    let runs = 0;
+    let useEdges = false;
+    for (let size = patternSize; size >= 2; size--) {
+      model = size === patternSize ? model : WfcGenerator.learn(example, size);
+
+      // Edge rules that can't be met by any run are dropped rather than failing every attempt
+      useEdges = !this.run(model, width, height, { useEdges: true, observe: false, lenient: false }).contradiction;
+
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        runs++;
+        const wave = this.run(model, width, height, { useEdges, observe: true, lenient: false });
+        if (!wave.contradiction) {
+          return { ...this.render(model, wave, width, height), patternSize: size, attempts: runs, collapsed: true };
+        }
+      }
+    }
+
+    const wave = this.run(model, width, height, { useEdges, observe: true, lenient: true });
+    return { ...this.render(model, wave, width, height), patternSize: model.size, attempts: runs, collapsed: false };
+  }
+
+  /**
+   * Learn the patterns of an example map and which may overlap which
+   */
+  static learn(example: string[][], patternSize: number): WfcModel {
+    const problems: string[] = [];
+
+    if (!Number.isInteger(patternSize) || patternSize < 2 || patternSize > 5) {
+      problems.push(`pattern size must be an integer between 2 and 5, got ${patternSize}`);
+    }
+    if (!Array.isArray(example) || example.length === 0 || !example.every(row => Array.isArray(row))) {
+      problems.push('example must be a non-empty grid of terrain IDs');
+    } else {
+      const width = example[0].length;
+      if (example.some(row => row.length !== width)) {
+        problems.push('example rows must all be the same length');
+      }
+      if (width < patternSize || example.length < patternSize) {
+        problems.push(`example must be at least ${patternSize}x${patternSize}`);
+      }
+      const unknown = [...new Set(example.flat())].filter(id => !TerrainUtils.getTerrain(id));
+      if (unknown.length > 0) {
+        problems.push(`example uses unknown terrain: ${unknown.join(', ')}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid wfc example:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    const N = patternSize;
+    const height = example.length;
+    const width = example[0].length;
+    const tiles: string[] = [];
+    const tileIndex = new Map<string, number>();
+    const tileCounts: number[] = [];
+
+    const grid = example.map(row => row.map(id => {
+      if (!tileIndex.has(id)) {
+        tileIndex.set(id, tiles.length);
+        tiles.push(id);
+        tileCounts.push(0);
+      }
+      tileCounts[tileIndex.get(id)!]++;
+      return tileIndex.get(id)!;
+    }));
+
+    const patterns: Int32Array[] = [];
+    const weights: number[] = [];
+    const edges: number[] = [];
+    const patternIndex = new Map<string, number>();
+
+    for (let y = 0; y + N <= height; y++) {
+      for (let x = 0; x + N <= width; x++) {
+        const pattern = new Int32Array(N * N);
+        for (let dy = 0; dy < N; dy++) {
+          for (let dx = 0; dx < N; dx++) {
+            pattern[dx + dy * N] = grid[y + dy][x + dx];
+          }
+        }
+
+        const flags = (y === 0 ? EDGE_TOP : 0) | (y + N === height ? EDGE_BOTTOM : 0) |
+          (x === 0 ? EDGE_LEFT : 0) | (x + N === width ? EDGE_RIGHT : 0);
+        const key = pattern.join(',');
+        const index = patternIndex.get(key);
+
+        if (index === undefined) {
+          patternIndex.set(key, patterns.length);
+          patterns.push(pattern);
+          weights.push(1);
+          edges.push(flags);
+        } else {
+          weights[index]++;
+          edges[index] |= flags;
+        }
+      }
+    }
+
+    // Two patterns may be neighbours when they agree wherever they overlap
+    const agrees = (p: Int32Array, q: Int32Array, dx: number, dy: number): boolean => {
+      for (let y = Math.max(0, dy); y < Math.min(N, N + dy); y++) {
+        for (let x = Math.max(0, dx); x < Math.min(N, N + dx); x++) {
+          if (p[x + N * y] !== q[x - dx + N * (y - dy)]) return false;
+        }
+      }
+      return true;
+    };
+
+    const propagator = DX.map((dx, d) => patterns.map(p =>
+      patterns.flatMap((q, t) => agrees(p, q, dx, DY[d]) ? [t] : [])
+    ));
+
+    const fallback = tiles[tileCounts.indexOf(Math.max(...tileCounts))];
+    return { size: N, tiles, patterns, weights, edges, propagator, fallback };
+  }
+
+  /**
+   * One run: apply the edge rules, then repeatedly collapse the square with the lowest
+   * entropy and propagate, until every square is decided or one has no pattern left.
+   * A lenient run stops propagating from squares with no pattern left and carries on.
+   */
+  private run(model: WfcModel, width: number, height: number, mode: WfcRunMode): WfcWave {
+    const N = model.size;
+    const columns = width - N + 1;
+    const rows = height - N + 1;
+    const cells = columns * rows;
+    const T = model.patterns.length;
+    const { weights, propagator } = model;
+    const weightLogs = weights.map(weight => weight * Math.log(weight));
+
+    const wave = new Uint8Array(cells * T).fill(1);
+    const compatible = T < 32768 ? new Int16Array(cells * T * 4) : new Int32Array(cells * T * 4);
+    const counts = new Int32Array(cells).fill(T);
+    const sumWeights = new Float64Array(cells).fill(weights.reduce((sum, weight) => sum + weight, 0));
+    const sumWeightLogs = new Float64Array(cells).fill(weightLogs.reduce((sum, value) => sum + value, 0));
+    const versions = new Int32Array(cells);
+    const touched = new Uint8Array(cells);
+    const touchedCells: number[] = [];
+    const stack: number[] = [];
+    let contradiction = false;
+
+    for (let i = 0; i < cells; i++) {
+      for (let t = 0; t < T; t++) {
+        for (let d = 0; d < 4; d++) {
+          compatible[(i * T + t) * 4 + d] = propagator[OPPOSITE[d]][t].length;
+        }
+      }
+    }
+
+    const ban = (i: number, t: number): void => {
+      const w = i * T + t;
+      if (!wave[w]) return;
+
+      wave[w] = 0;
+      compatible.fill(0, w * 4, w * 4 + 4);
+      stack.push(i, t);
+      counts[i]--;
+      sumWeights[i] -= weights[t];
+      sumWeightLogs[i] -= weightLogs[t];
+      versions[i]++;
+
+      if (counts[i] === 0 && !mode.lenient) contradiction = true;
+      if (!touched[i]) {
+        touched[i] = 1;
+        touchedCells.push(i);
+      }
+    };
+
+    const propagate = (): void => {
+      while (stack.length > 0 && !contradiction) {
+        const t1 = stack.pop()!;
+        const i1 = stack.pop()!;
+        // A dead square no longer constrains its neighbours
+        if (counts[i1] === 0) continue;
+
+        const x1 = i1 % columns;
+        const y1 = (i1 - x1) / columns;
+
+        for (let d = 0; d < 4; d++) {
+          const x2 = x1 + DX[d];
+          const y2 = y1 + DY[d];
+          if (x2 < 0 || y2 < 0 || x2 >= columns || y2 >= rows) continue;
+
+          const i2 = x2 + y2 * columns;
+          for (const t2 of propagator[d][t1]) {
+            const c = (i2 * T + t2) * 4 + d;
+            compatible[c]--;
+            if (compatible[c] === 0) ban(i2, t2);
+          }
+        }
+      }
+    };
+
+    // Small fixed noise per square breaks entropy ties without a draw per comparison
+    const noise = mode.observe ? Array.from({ length: cells }, () => this.random.next() * 1e-6) : [];
+    const entropy = (i: number): number =>
+      Math.log(sumWeights[i]) - sumWeightLogs[i] / sumWeights[i] + noise[i];
+
+    const heap = new EntropyHeap();
+    const requeueTouched = (): void => {
+      for (const i of touchedCells) {
+        touched[i] = 0;
+        if (counts[i] > 1) heap.push(entropy(i), i, versions[i]);
+      }
+      touchedCells.length = 0;
+    };
+
+    if (mode.useEdges) {
+      for (let i = 0; i < cells; i++) {
+        const x = i % columns;
+        const y = (i - x) / columns;
+        const required = (y === 0 ? EDGE_TOP : 0) | (y === rows - 1 ? EDGE_BOTTOM : 0) |
+          (x === 0 ? EDGE_LEFT : 0) | (x === columns - 1 ? EDGE_RIGHT : 0);
+        if (required === 0) continue;
+
+        for (let t = 0; t < T; t++) {
+          if ((model.edges[t] & required) !== required) ban(i, t);
+        }
+      }
+      propagate();
+    }
+
+    if (!mode.observe || contradiction) {
+      return { columns, rows, wave, counts, contradiction };
+    }
+
+    touchedCells.forEach(i => { touched[i] = 0; });
+    touchedCells.length = 0;
+    for (let i = 0; i < cells; i++) {
+      if (counts[i] > 1) heap.push(entropy(i), i, versions[i]);
+    }
+
+    while (!contradiction && heap.size > 0) {
+      const { cell, version } = heap.pop();
+      if (version !== versions[cell] || counts[cell] <= 1) continue;
+
+      // Collapse to one pattern, weighted by how often it occurs in the example
+      let total = 0;
+      for (let t = 0; t < T; t++) {
+        if (wave[cell * T + t]) total += weights[t];
+      }
+      let roll = this.random.next() * total;
+      let chosen = -1;
+      for (let t = 0; t < T; t++) {
+        if (!wave[cell * T + t]) continue;
+        chosen = t;
+        roll -= weights[t];
+        if (roll < 0) break;
+      }
+
+      for (let t = 0; t < T; t++) {
+        if (t !== chosen) ban(cell, t);
+      }
+      propagate();
+      requeueTouched();
+    }
+
+    return { columns, rows, wave, counts, contradiction };
+  }
+
+  /**
+   * Read the terrain off a wave. Each square takes its pixel from the pattern anchored at
+   * or just before it, or the example's most common terrain where no pattern was left.
+   */
+  private render(model: WfcModel, state: WfcWave, width: number, height: number): { terrain: string[][]; fallbackSquares: number } {
+    const N = model.size;
+    const T = model.patterns.length;
+    const { columns, rows, wave, counts } = state;
+    let fallbackSquares = 0;
+
+    const chosen = Array.from({ length: columns * rows }, (_, i) => {
+      let best = -1;
+      for (let t = 0; t < T; t++) {
+        if (wave[i * T + t] && (best === -1 || model.weights[t] > model.weights[best])) best = t;
+      }
+      return counts[i] > 0 ? best : -1;
+    });
+
+    const terrain = Array(height).fill(null).map((_, y) => Array(width).fill(null).map((_, x) => {
+      const px = Math.min(x, columns - 1);
+      const py = Math.min(y, rows - 1);
+      const pattern = chosen[px + py * columns];
+
+      if (pattern === -1) {
+        fallbackSquares++;
+        return model.fallback;
+      }
+      return model.tiles[model.patterns[pattern][(x - px) + (y - py) * N]];
+    }));
+
+    return { terrain, fallbackSquares };
+  }
+}
@@ -9,12 +9,12 @@
 import { readdirSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { writeFileSync } from 'node:fs';
-import { LevelValidator } from '../utils/level-validator.js';
+import { LevelValidator, ValidationError } from '../utils/level-validator.js';
 
 /**
  * Level metadata interface
  */
-interface LevelMetadata {
+export interface LevelMetadata {
   readonly id: string;
   readonly name: string;
   readonly description: string;
@@ -25,13 +25,31 @@ interface LevelMetadata {
   readonly tags: string[];
   readonly author: string;
   readonly version: string;
+  /** ID of the dungeon set the level is one floor of */
+  readonly dungeonSet?: string;
+}
+
+/**
+ * Index entry for a dungeon set, listing its floors
+ */
+export interface DungeonSetMetadata {
+  readonly id: string;
+  readonly name: string;
+  readonly seed: number;
+  readonly theme: string;
+  readonly difficulty: string;
+  /** Level IDs of the floors indexed, from the top down */
+  readonly floors: string[];
+  readonly floorCount: number;
 }
 
 /**
  * Index structure
  */
-interface LevelsIndex {
+export interface LevelsIndex {
   readonly levels: LevelMetadata[];
+  /** Dungeon sets with at least one valid floor, when there are any */
+  readonly dungeonSets?: DungeonSetMetadata[];
   readonly generatedAt: string;
   readonly totalLevels: number;
   readonly metadata: {
@@ -60,7 +78,8 @@ function extractLevelMetadata(filepath: string): LevelMetadata | null {
       theme: levelData.theme,
       tags: levelData.tags || [],
       author: levelData.author,
-      version: levelData.version
+      version: levelData.version,
+      ...(levelData.dungeonSet ? { dungeonSet: levelData.dungeonSet.id } : {})
     };
   } catch (error) {
     console.error(`❌ Error reading ${filepath}:`, error);
@@ -68,61 +87,153 @@ function extractLevelMetadata(filepath: string): LevelMetadata | null {
   }
 }
 
+/**
+ * Result of scanning a folder of level files
+ */
+export interface LevelsIndexScan {
+  readonly files: string[];
+  readonly index: LevelsIndex;
+  readonly invalid: Array<{ readonly filename: string; readonly errors: ValidationError[] }>;
+}
+
+/**
+ * List level JSON files in a folder, skipping index files
+ */
+function listLevelFiles(levelsDir: string): string[] {
+  return readdirSync(levelsDir)
+    .filter(file => file.endsWith('.json') && !['levels-index.json', 'index.json'].includes(file))
+    .sort();
+}
+
+/**
+ * Validate every level in a folder and build the index from the valid ones, without writing anything
+ */
+function buildLevelsIndex(levelsDir: string): LevelsIndexScan {
+  const files = listLevelFiles(levelsDir);
+  const levels: LevelMetadata[] = [];
+  const invalid: LevelsIndexScan['invalid'] = [];
+  const themes = new Set<string>();
+  const difficulties = new Set<string>();
+  const validator = new LevelValidator();
+
+  const parsed = files.map(filename => {
+    try {
+      return { filename, levelData: JSON.parse(readFileSync(join(levelsDir, filename), 'utf8')) };
+    } catch (error) {
+      return { filename, error };
+    }
+  });
+
+  // Floors of a dungeon set are validated together so their links can be followed
+  const floorsBySet = new Map<string, any[]>();
+  parsed.forEach(({ levelData }) => {
+    const setId = levelData?.dungeonSet?.id;
+    if (typeof setId === 'string') {
+      floorsBySet.set(setId, [...(floorsBySet.get(setId) || []), levelData]);
+    }
+  });
+  const setFloors = new Map<string, any[]>();
+
+  for (const { filename, levelData, error } of parsed) {
+    if (error !== undefined) {
+      invalid.push({
+        filename,
+        errors: [{ field: 'file', message: `Invalid JSON (${error})`, severity: 'error' }]
+      });
+      continue;
+    }
+
+    const setId = levelData?.dungeonSet?.id;
+    const validation = validator.validateLevel(levelData, filename, floorsBySet.get(setId) || []);
+
+    if (!validation.isValid) {
+      invalid.push({ filename, errors: validation.errors.filter(error => error.severity === 'error') });
+      continue;
+    }
+
+    const metadata = extractLevelMetadata(join(levelsDir, filename));
+    if (metadata) {
+      levels.push(metadata);
+      if (metadata.theme) themes.add(metadata.theme);
+      if (metadata.difficulty) difficulties.add(metadata.difficulty);
+      if (metadata.dungeonSet) {
+        setFloors.set(metadata.dungeonSet, [...(setFloors.get(metadata.dungeonSet) || []), levelData]);
+      }
+    }
+  }
+
+  const dungeonSets: DungeonSetMetadata[] = [...setFloors.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([id, floors]) => {
+      const [top] = floors.sort((a, b) => a.dungeonSet.floor - b.dungeonSet.floor);
+      return {
+        id,
+        name: top.dungeonSet.name,
+        seed: top.dungeonSet.seed,
+        theme: top.theme,
+        difficulty: top.difficulty,
+        floors: floors.map(floor => floor.id),
+        floorCount: top.dungeonSet.floorCount
+      };
+    });
+
+  const index: LevelsIndex = {
+    levels: levels.sort((a, b) => {
+      // Sort by theme, then difficulty, then name
+      const themeA = a.theme || 'unknown';
+      const themeB = b.theme || 'unknown';
+      if (themeA !== themeB) return themeA.localeCompare(themeB);
+
+      const diffA = a.difficulty || 'medium';
+      const diffB = b.difficulty || 'medium';
+      if (diffA !== diffB) {
+        const difficultyOrder = ['easy', 'medium', 'hard', 'epic'];
+        return difficultyOrder.indexOf(diffA) - difficultyOrder.indexOf(diffB);
+      }
+      return a.name.localeCompare(b.name);
+    }),
+    ...(dungeonSets.length > 0 ? { dungeonSets } : {}),
+    generatedAt: new Date().toISOString(),
+    totalLevels: levels.length,
+    metadata: {
+      generatorVersion: '1.0.0',
+      formatVersion: '1.0.0',
+      themes: Array.from(themes).sort(),
+      difficulties: Array.from(difficulties).sort()
+    }
+  };
+
+  return { files, index, invalid };
+}
+
 /**
  * Generate index for all levels in the generated-levels folder
  */
-function generateLevelsIndex(): void {
+function generateLevelsIndex(levelsDir: string = join(process.cwd(), 'generated-levels')): void {
   console.log('🔍 Scanning generated-levels folder...');
 
-  const levelsDir = join(process.cwd(), 'generated-levels');
-
   try {
-    const files = readdirSync(levelsDir);
-    const jsonFiles = files.filter(file => file.endsWith('.json') && !['levels-index.json', 'index.json'].includes(file));
+    const { files, index, invalid } = buildLevelsIndex(levelsDir);
+    const levels = index.levels;
 
-    console.log(`📁 Found ${jsonFiles.length} JSON files`);
+    console.log(`📁 Found ${files.length} JSON files`);
 
-    if (jsonFiles.length === 0) {
+    if (files.length === 0) {
       console.log('⚠️  No JSON files found in generated-levels folder');
       return;
     }
 
-    const levels: LevelMetadata[] = [];
-    const themes = new Set<string>();
-    const difficulties = new Set<string>();
-    const validator = new LevelValidator();
-
-    // Process each JSON file
-    for (const filename of jsonFiles) {
-      const filepath = join(levelsDir, filename);
-      console.log(`📖 Processing ${filename}...`);
-
-      try {
-        const jsonContent = readFileSync(filepath, 'utf8');
-        const levelData = JSON.parse(jsonContent);
-
-        // Validate the level
-        const validation = validator.validateLevel(levelData, filename);
-
-        if (validation.isValid) {
-          const metadata = extractLevelMetadata(filepath);
-          if (metadata) {
-            levels.push(metadata);
-            if (metadata.theme) themes.add(metadata.theme);
-            if (metadata.difficulty) difficulties.add(metadata.difficulty);
-            console.log(`✅ ${filename} - Valid`);
-          }
-        } else {
-          console.log(`❌ ${filename} - Invalid (${validation.errors.length} errors)`);
-          validation.errors.forEach(error => {
-            if (error.severity === 'error') {
-              console.log(`   ERROR: ${error.field} - ${error.message}`);
-            }
-          });
-        }
-      } catch (error) {
-        console.log(`❌ ${filename} - Invalid JSON (${error})`);
+    for (const filename of files) {
+      const problem = invalid.find(entry => entry.filename === filename);
+      if (!problem) {
+        console.log(`✅ ${filename} - Valid`);
+        continue;
       }
+
+      console.log(`❌ ${filename} - Invalid (${problem.errors.length} errors)`);
+      problem.errors.forEach(error => {
+        console.log(`   ERROR: ${error.field} - ${error.message}`);
+      });
     }
 
     if (levels.length === 0) {
@@ -130,40 +241,17 @@ function generateLevelsIndex(): void {
       return;
     }
 
-    // Create index structure
-    const index: LevelsIndex = {
-      levels: levels.sort((a, b) => {
-        // Sort by theme, then difficulty, then name
-        const themeA = a.theme || 'unknown';
-        const themeB = b.theme || 'unknown';
-        if (themeA !== themeB) return themeA.localeCompare(themeB);
-
-        const diffA = a.difficulty || 'medium';
-        const diffB = b.difficulty || 'medium';
-        if (diffA !== diffB) {
-          const difficultyOrder = ['easy', 'medium', 'hard', 'epic'];
-          return difficultyOrder.indexOf(diffA) - difficultyOrder.indexOf(diffB);
-        }
-        return a.name.localeCompare(b.name);
-      }),
-      generatedAt: new Date().toISOString(),
-      totalLevels: levels.length,
-      metadata: {
-        generatorVersion: '1.0.0',
-        formatVersion: '1.0.0',
-        themes: Array.from(themes).sort(),
-        difficulties: Array.from(difficulties).sort()
-      }
-    };
-
     // Write index file
     const indexPath = join(levelsDir, 'index.json');
     writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf8');
 
     console.log('\n✅ Index generated successfully!');
     console.log(`📊 Total levels: ${levels.length}`);
-    console.log(`🎨 Themes: ${Array.from(themes).join(', ')}`);
-    console.log(`⚖️  Difficulties: ${Array.from(difficulties).join(', ')}`);
+    console.log(`🎨 Themes: ${index.metadata.themes.join(', ')}`);
+    console.log(`⚖️  Difficulties: ${index.metadata.difficulties.join(', ')}`);
+    if (index.dungeonSets) {
+      console.log(`🪜 Dungeon sets: ${index.dungeonSets.map(set => `${set.id} (${set.floors.length}/${set.floorCount} floors)`).join(', ')}`);
+    }
     console.log(`📁 Index saved: ${indexPath}`);
 
     // Display summary
@@ -278,4 +366,4 @@ if (import.meta.main) {
   }
 }
 
-export { generateLevelsIndex, validateAllLevels, extractLevelMetadata };
+export { generateLevelsIndex, validateAllLevels, extractLevelMetadata, buildLevelsIndex, listLevelFiles };
@@ -0,0 +1,680 @@
+#!/usr/bin/env bun
+/**
+ * FOURE Level Generator CLI
+ *
+ * Command-line front end for generating, validating, indexing, rendering and
+ * quality-checking level files.
+ * Run with: bun run src/scripts/foure-gen.ts <command> [options]
+ *
+ * Exit codes: 0 = success, 1 = validation or quality failure, 2 = usage error
+ */
+
+import { parseArgs } from 'node:util';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import { MAP_DIMENSION_LIMITS, TerrainRegistry } from '../types/terrain.js';
+import { ThemeRegistry } from '../types/theme.js';
+import { PrefabRegistry } from '../types/prefab.js';
+import { DIFFICULTY_LIMITS } from '../types/level-schema.js';
+import { PopulationMode, DUNGEON_SET_LIMITS } from '../generators/level-generator.js';
+import { LevelValidator, ValidationError } from '../utils/level-validator.js';
+import { MapRenderer } from '../utils/map-renderer.js';
+import { LevelManifestLoader, LoadedManifest } from '../utils/level-manifest.js';
+import { createLevelFile, createDungeonSetFiles, runLevelBatch, LevelRequest } from './generate-levels.js';
+import { buildLevelsIndex, listLevelFiles } from './auto-index-generator.js';
+import { collectQualityStats } from './quality-check.js';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2
+} as const;
+
+const ALGORITHMS = ['bsp', 'cellular', 'drunkard', 'template', 'mixed', 'wfc', 'regions'] as const;
+const POPULATION_MODES: PopulationMode[] = ['none', 'balanced'];
+const RENDER_MODES = ['simple', 'legend', 'compact', 'themed', 'elevation', 'stats'] as const;
+const DEFAULT_LEVELS_DIR = 'generated-levels';
+
+/**
+ * Raised for bad command-line input; reported with usage help and exit code 2
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * A CLI subcommand
+ */
+interface Command {
+  readonly summary: string;
+  readonly usage: string;
+  readonly run: (args: string[]) => number;
+}
+
+/**
+ * Print a result either as JSON or through a human-readable formatter
+ */
+function output(json: boolean, result: unknown, printHuman: () => void): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printHuman();
+  }
+}
+
+/**
+ * Report a failed command: as a JSON error object on stdout under --json, so scripts always
+ * get JSON back, or through a human-readable formatter on stderr
+ */
+function outputError(json: boolean, command: string, message: string, exitCode: number, printHuman: () => void): number {
+  output(json, { error: { command, message, exitCode } }, printHuman);
+  return exitCode;
+}
+
+/**
+ * Parse an integer option within a range
+ */
+function parseInteger(value: string | undefined, flag: string, fallback: number, min: number, max: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new UsageError(`--${flag} must be an integer between ${min} and ${max}, got '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Check that an option value is one of the allowed choices
+ */
+function parseChoice<T extends string>(value: string | undefined, flag: string, choices: readonly T[], fallback: T): T {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`--${flag} must be one of: ${choices.join(', ')}, got '${value}'`);
+  }
+  return value as T;
+}
+
+/**
+ * Read and parse a JSON file
+ */
+function readJsonFile(filepath: string): any {
+  if (!existsSync(filepath)) {
+    throw new UsageError(`File not found: ${filepath}`);
+  }
+  return JSON.parse(readFileSync(filepath, 'utf8'));
+}
+
+/**
+ * Read the terrain grid of an example level for the wfc algorithm
+ */
+function readExampleTerrain(filepath: string | undefined): string[][] | undefined {
+  if (filepath === undefined) {
+    return undefined;
+  }
+
+  const terrain = readJsonFile(filepath).map?.terrain;
+  if (!Array.isArray(terrain) || terrain.length === 0 || !terrain.every(Array.isArray)) {
+    throw new UsageError(`${filepath} has no map.terrain grid to learn from`);
+  }
+  return terrain;
+}
+
+/**
+ * Load terrain pack files into the default terrain registry
+ */
+function loadTerrainPacks(filepaths: string[] = []): void {
+  for (const filepath of filepaths) {
+    if (!existsSync(filepath)) {
+      throw new UsageError(`Terrain pack not found: ${filepath}`);
+    }
+
+    try {
+      TerrainRegistry.default.loadPackFile(filepath);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Load theme definition files into the default theme registry
+ */
+function loadThemeFiles(filepaths: string[] = []): void {
+  for (const filepath of filepaths) {
+    if (!existsSync(filepath)) {
+      throw new UsageError(`Theme file not found: ${filepath}`);
+    }
+
+    try {
+      ThemeRegistry.default.loadThemeFile(filepath);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Load every prefab file in each directory into the default prefab registry
+ */
+function loadPrefabDirectories(dirpaths: string[] = []): void {
+  for (const dirpath of dirpaths) {
+    if (!existsSync(dirpath) || !statSync(dirpath).isDirectory()) {
+      throw new UsageError(`Prefab directory not found: ${dirpath}`);
+    }
+
+    try {
+      PrefabRegistry.default.loadPrefabDirectory(dirpath);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Print validation issues, one per line
+ */
+function printIssues(issues: ValidationError[], indent: string = '  '): void {
+  issues.forEach(issue => {
+    console.log(`${indent}${issue.severity.toUpperCase()}: ${issue.field} - ${issue.message}`);
+  });
+}
+
+/**
+ * foure-gen generate
+ */
+function runGenerate(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      theme: { type: 'string' },
+      algorithm: { type: 'string' },
+      seed: { type: 'string' },
+      players: { type: 'string' },
+      difficulty: { type: 'string' },
+      name: { type: 'string' },
+      out: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      populate: { type: 'string' },
+      vaults: { type: 'string' },
+      example: { type: 'string' },
+      floors: { type: 'string' },
+      'terrain-pack': { type: 'string', multiple: true },
+      'theme-file': { type: 'string', multiple: true },
+      'prefab-dir': { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false }
+    },
+    strict: true
+  });
+
+  // Themes and prefabs may use terrain from the packs, so packs load first
+  loadTerrainPacks(values['terrain-pack']);
+  loadThemeFiles(values['theme-file']);
+  loadPrefabDirectories(values['prefab-dir']);
+
+  const theme = parseChoice(values.theme, 'theme', ThemeRegistry.default.getIds(), 'dungeon');
+  const algorithm = parseChoice(values.algorithm, 'algorithm', ALGORITHMS, 'mixed');
+  const seed = parseInteger(values.seed, 'seed', Math.floor(Math.random() * 1000000), 0, Number.MAX_SAFE_INTEGER);
+  const playerCount = parseInteger(values.players, 'players', 4, 1, 6);
+  const difficulty = parseInteger(values.difficulty, 'difficulty', 1, DIFFICULTY_LIMITS.min, DIFFICULTY_LIMITS.max);
+  const populate = parseChoice(values.populate, 'populate', POPULATION_MODES, 'none');
+  const { min, max, defaultWidth, defaultHeight } = MAP_DIMENSION_LIMITS;
+  const width = parseInteger(values.width, 'width', defaultWidth, min, max);
+  const height = parseInteger(values.height, 'height', defaultHeight, min, max);
+  const vaults = parseInteger(values.vaults, 'vaults', 0, 0, 50);
+  const example = readExampleTerrain(values.example);
+  if (algorithm === 'wfc' && !example) {
+    throw new UsageError('--algorithm wfc needs --example <level file> to learn from');
+  }
+  const floors = values.floors === undefined
+    ? 1
+    : parseInteger(values.floors, 'floors', 1, DUNGEON_SET_LIMITS.min, DUNGEON_SET_LIMITS.max);
+  const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+  const name = values.name?.trim() || `${ThemeRegistry.default.get(theme)!.name} ${capitalize(algorithm)}`;
+
+  const request: LevelRequest = {
+    name, seed, theme, algorithm, playerCount, difficulty,
+    options: { width, height, populate, parameters: { vaults }, ...(example ? { example } : {}) }
+  };
+
+  if (floors > 1) {
+    return runGenerateDungeonSet(request, floors, values.out || DEFAULT_LEVELS_DIR, values.json);
+  }
+
+  const result = createLevelFile(request, values.out || DEFAULT_LEVELS_DIR);
+
+  output(values.json, {
+    saved: result.saved,
+    file: result.saved ? result.filepath : null,
+    id: result.level.id,
+    name: result.level.name,
+    seed,
+    theme,
+    algorithm,
+    dimensions: result.level.map.dimensions,
+    monsters: result.level.startingActors.length,
+    errors: result.errors,
+    warnings: result.warnings
+  }, () => {
+    console.log(`🎲 ${result.level.name} (${theme}, ${algorithm}, seed ${seed})`);
+    if (!result.saved) {
+      console.log('❌ Validation failed, level not saved:');
+      printIssues(result.errors);
+      return;
+    }
+    if (result.warnings.length > 0) {
+      console.log('⚠️  Validation warnings:');
+      printIssues(result.warnings);
+    }
+    console.log(`✅ Saved: ${result.filepath}`);
+  });
+
+  return result.saved ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+/**
+ * foure-gen generate --floors: generate and save every floor of a dungeon set
+ */
+function runGenerateDungeonSet(request: LevelRequest, floorCount: number, outputDir: string, json: boolean): number {
+  const result = createDungeonSetFiles(request, floorCount, outputDir);
+
+  output(json, {
+    saved: result.saved,
+    id: result.set.id,
+    name: result.set.name,
+    seed: request.seed,
+    theme: request.theme,
+    algorithm: request.algorithm,
+    floors: result.floors.map(floor => ({
+      file: floor.saved ? floor.filepath : null,
+      id: floor.level.id,
+      links: floor.level.map.links,
+      errors: floor.errors,
+      warnings: floor.warnings
+    }))
+  }, () => {
+    console.log(`🎲 ${result.set.name} (${request.theme}, ${request.algorithm}, seed ${request.seed}, ${floorCount} floors)`);
+    result.floors.forEach(floor => {
+      const links = (floor.level.map.links || []).map(link => `${link.type} → ${link.target.levelId}`).join(', ');
+      console.log(`${floor.errors.length > 0 ? '❌' : '✅'} ${floor.level.id}: ${links}`);
+      printIssues([...floor.errors, ...floor.warnings], '   ');
+    });
+    console.log(result.saved
+      ? `✅ Saved ${result.floors.length} floors to ${resolve(outputDir)}`
+      : '❌ Validation failed, dungeon set not saved');
+  });
+
+  return result.saved ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+/**
+ * foure-gen validate
+ */
+function runValidate(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      json: { type: 'boolean', default: false }
+    },
+    allowPositionals: true,
+    strict: true
+  });
+
+  // Expand directories into their level files
+  const targets = positionals.length > 0 ? positionals : [DEFAULT_LEVELS_DIR];
+  const files = targets.flatMap(target => {
+    if (!existsSync(target)) {
+      throw new UsageError(`File or directory not found: ${target}`);
+    }
+    return statSync(target).isDirectory()
+      ? listLevelFiles(target).map(file => join(target, file))
+      : [target];
+  });
+
+  // Floors of a dungeon set are validated together so their links can be followed
+  const parsed = files.map(file => {
+    try {
+      return { file, levelData: JSON.parse(readFileSync(file, 'utf8')) };
+    } catch (error) {
+      return { file, error };
+    }
+  });
+  const floors = parsed.map(entry => entry.levelData).filter(levelData => typeof levelData?.dungeonSet?.id === 'string');
+
+  const validator = new LevelValidator();
+  const results = parsed.map(({ file, levelData, error }) => {
+    if (error !== undefined) {
+      const issue: ValidationError = { field: 'file', message: `Invalid JSON (${error})`, severity: 'error' };
+      return { file, valid: false, errors: [issue], warnings: [] };
+    }
+
+    const setFloors = floors.filter(floor => floor.dungeonSet.id === levelData?.dungeonSet?.id);
+    const validation = validator.validateLevel(levelData, basename(file), setFloors);
+    return {
+      file,
+      valid: validation.isValid,
+      errors: validation.errors.filter(issue => issue.severity === 'error'),
+      warnings: validation.errors.filter(issue => issue.severity === 'warning')
+    };
+  });
+
+  const invalidCount = results.filter(result => !result.valid).length;
+
+  output(values.json, { valid: invalidCount === 0, total: results.length, invalid: invalidCount, files: results }, () => {
+    results.forEach(result => {
+      console.log(`${result.valid ? '✅' : '❌'} ${result.file}`);
+      printIssues([...result.errors, ...result.warnings], '   ');
+    });
+    console.log(`\n📊 ${results.length - invalidCount}/${results.length} levels valid`);
+  });
+
+  return invalidCount === 0 ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+/**
+ * foure-gen index
+ */
+function runIndex(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dir: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    },
+    strict: true
+  });
+
+  const levelsDir = values.dir || DEFAULT_LEVELS_DIR;
+  if (!existsSync(levelsDir)) {
+    throw new UsageError(`Directory not found: ${levelsDir}`);
+  }
+
+  const { files, index, invalid } = buildLevelsIndex(levelsDir);
+  const indexPath = resolve(levelsDir, 'index.json');
+  const written = index.totalLevels > 0;
+
+  if (written) {
+    writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf8');
+  }
+
+  output(values.json, {
+    indexFile: written ? indexPath : null,
+    scanned: files.length,
+    totalLevels: index.totalLevels,
+    themes: index.metadata.themes,
+    difficulties: index.metadata.difficulties,
+    invalid
+  }, () => {
+    invalid.forEach(entry => {
+      console.log(`❌ ${entry.filename}`);
+      printIssues(entry.errors, '   ');
+    });
+    console.log(written
+      ? `✅ Indexed ${index.totalLevels}/${files.length} levels: ${indexPath}`
+      : '❌ No valid level files found, index not written');
+  });
+
+  return written && invalid.length === 0 ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+/**
+ * foure-gen batch
+ */
+function runBatch(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      out: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    },
+    allowPositionals: true,
+    strict: true
+  });
+
+  if (positionals.length !== 1) {
+    throw new UsageError('batch expects exactly one manifest file');
+  }
+  if (!existsSync(positionals[0])) {
+    throw new UsageError(`File not found: ${positionals[0]}`);
+  }
+
+  let manifest: LoadedManifest;
+  try {
+    manifest = LevelManifestLoader.load(positionals[0]);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const batch = runLevelBatch(manifest.levels, values.out || manifest.outputDir);
+
+  output(values.json, {
+    manifest: manifest.path,
+    outputDir: batch.outputDir,
+    indexFile: batch.indexPath,
+    total: batch.outcomes.length,
+    saved: batch.outcomes.length - batch.failed.length,
+    failed: batch.failed.length,
+    levels: batch.outcomes.map(({ request, result, error }) => ({
+      name: request.name,
+      seed: request.seed,
+      saved: result?.saved ?? false,
+      file: result?.saved ? result.filepath : null,
+      errors: result ? result.errors : [{ field: 'generation', message: error, severity: 'error' }],
+      warnings: result ? result.warnings : []
+    }))
+  }, () => {
+    batch.outcomes.forEach(({ request, result, error }) => {
+      console.log(`${result?.saved ? '✅' : '❌'} ${request.name} (seed ${request.seed})${result?.saved ? ` → ${result.filename}` : ''}`);
+      if (error) {
+        console.log(`   ERROR: generation - ${error}`);
+      }
+      printIssues(result?.errors || [], '   ');
+    });
+    console.log(`\n📊 ${batch.outcomes.length - batch.failed.length}/${batch.outcomes.length} levels saved to ${batch.outputDir}`);
+    console.log(`📇 Index: ${batch.indexPath}`);
+  });
+
+  return batch.failed.length === 0 ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+/**
+ * foure-gen render
+ */
+function runRender(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      mode: { type: 'string' },
+      'max-width': { type: 'string' },
+      'terrain-pack': { type: 'string', multiple: true },
+      'theme-file': { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false }
+    },
+    allowPositionals: true,
+    strict: true
+  });
+
+  loadTerrainPacks(values['terrain-pack']);
+  loadThemeFiles(values['theme-file']);
+
+  if (positionals.length !== 1) {
+    throw new UsageError('render expects exactly one level file');
+  }
+
+  const mode = parseChoice(values.mode, 'mode', RENDER_MODES, 'simple');
+  const maxWidth = parseInteger(values['max-width'], 'max-width', 40, 10, 200);
+  const level = readJsonFile(positionals[0]);
+  const terrain: string[][] = level.map?.terrain;
+
+  if (!Array.isArray(terrain) || terrain.length === 0 || !Array.isArray(terrain[0])) {
+    throw new UsageError(`${positionals[0]} has no map.terrain grid to render`);
+  }
+  if (mode === 'elevation' && !Array.isArray(level.map.elevation)) {
+    throw new UsageError(`${positionals[0]} has no map.elevation heightmap to render`);
+  }
+
+  const renderers: Record<typeof RENDER_MODES[number], () => string> = {
+    simple: () => MapRenderer.renderSimple(terrain),
+    legend: () => MapRenderer.renderWithLegend(terrain),
+    compact: () => MapRenderer.renderCompact(terrain, maxWidth),
+    themed: () => MapRenderer.renderThemed(terrain, level.theme),
+    elevation: () => MapRenderer.renderElevation(terrain, level.map.elevation),
+    stats: () => MapRenderer.displayStats(terrain)
+  };
+  const rendered = renderers[mode]();
+
+  output(values.json, { file: positionals[0], id: level.id, mode, output: rendered }, () => {
+    console.log(rendered);
+  });
+
+  return EXIT_CODES.success;
+}
+
+/**
+ * foure-gen quality
+ */
+function runQuality(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dir: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    },
+    strict: true
+  });
+
+  const levelsDir = values.dir || DEFAULT_LEVELS_DIR;
+  if (!existsSync(levelsDir)) {
+    throw new UsageError(`Directory not found: ${levelsDir}`);
+  }
+
+  const summary = collectQualityStats(levelsDir);
+
+  output(values.json, summary, () => {
+    summary.levels.forEach(level => {
+      console.log(`${level.valid ? '✅' : '❌'} ${level.filename} (${(level.size / 1024).toFixed(1)} KB, ${level.monsters} monsters)`);
+      printIssues(level.errors, '   ');
+    });
+    console.log(`\n📊 ${summary.totalValid} valid, ${summary.totalInvalid} invalid (${summary.qualityScore.toFixed(1)}%)`);
+    console.log(`💾 Total size: ${(summary.totalSize / 1024).toFixed(1)} KB`);
+    console.log(`👥 Total monsters: ${summary.totalMonsters}`);
+  });
+
+  return summary.totalInvalid === 0 ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+const COMMANDS: Record<string, Command> = {
+  generate: {
+    summary: 'Generate, validate and save a level',
+    usage: 'generate [--theme <theme>] [--algorithm <algorithm>] [--seed <n>] [--players <n>] [--difficulty <n>]\n' +
+      '           [--name <name>] [--out <dir>] [--width <n>] [--height <n>] [--populate none|balanced]\n' +
+      '           [--vaults <n>] [--example <level file>] [--floors <n>] [--terrain-pack <file> ...]\n' +
+      '           [--theme-file <file> ...] [--prefab-dir <dir> ...] [--json]',
+    run: runGenerate
+  },
+  batch: {
+    summary: 'Generate every level in a JSON/YAML manifest and write levels-index.json',
+    usage: 'batch <manifest> [--out <dir>] [--json]',
+    run: runBatch
+  },
+  validate: {
+    summary: 'Validate level files or folders (default: generated-levels)',
+    usage: 'validate [file|dir ...] [--json]',
+    run: runValidate
+  },
+  index: {
+    summary: 'Write index.json for a folder of levels',
+    usage: 'index [--dir <dir>] [--json]',
+    run: runIndex
+  },
+  render: {
+    summary: 'Render a level map as text',
+    usage: `render <file> [--mode ${RENDER_MODES.join('|')}] [--max-width <n>]\n` +
+      '           [--terrain-pack <file> ...] [--theme-file <file> ...] [--json]',
+    run: runRender
+  },
+  quality: {
+    summary: 'Quality report for a folder of levels',
+    usage: 'quality [--dir <dir>] [--json]',
+    run: runQuality
+  }
+};
+
+/**
+ * Print CLI usage
+ */
+function printHelp(): void {
+  console.log('🗺️  foure-gen - FOURE VTT Level Generator CLI');
+  console.log('==========================================\n');
+  console.log('Usage: bun run src/scripts/foure-gen.ts <command> [options]\n');
+  console.log('Commands:');
+  Object.entries(COMMANDS).forEach(([name, command]) => {
+    console.log(`  ${name.padEnd(10)} ${command.summary}`);
+    console.log(`             foure-gen ${command.usage}`);
+  });
+  console.log(`\nThemes: ${ThemeRegistry.default.getIds().join(', ')} (add more with --theme-file)`);
+  console.log(`Algorithms: ${ALGORITHMS.join(', ')}`);
+  console.log('Exit codes: 0 success, 1 validation/quality failure, 2 usage error');
+}
+
+/**
+ * Run the CLI with the given arguments and return the exit code
+ */
+function runCli(argv: string[]): number {
+  const [commandName, ...args] = argv;
+
+  if (!commandName || commandName === 'help' || commandName === '--help' || commandName === '-h') {
+    printHelp();
+    return commandName ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+
+  // Options may not parse, so look for --json among the raw arguments
+  const json = args.includes('--json');
+
+  const command = COMMANDS[commandName];
+  if (!command) {
+    return outputError(json, commandName, `Unknown command '${commandName}'`, EXIT_CODES.usage, () => {
+      console.error(`❌ Unknown command '${commandName}'\n`);
+      printHelp();
+    });
+  }
+
+  try {
+    return command.run(args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // parseArgs reports unknown or malformed options as TypeErrors with an ERR_PARSE_ARGS code
+    const isParseError = error instanceof TypeError && 'code' in error &&
+      typeof error.code === 'string' && error.code.startsWith('ERR_PARSE_ARGS');
+    if (error instanceof UsageError || isParseError) {
+      return outputError(json, commandName, message, EXIT_CODES.usage, () => {
+        console.error(`❌ ${message}`);
+        console.error(`Usage: foure-gen ${command.usage}`);
+      });
+    }
+
+    return outputError(json, commandName, message, EXIT_CODES.failure, () => {
+      console.error(`❌ ${commandName} failed:`, error);
+    });
+  }
+}
+
+// Main execution
+if (import.meta.main) {
+  process.exit(runCli(process.argv.slice(2)));
+}
+
+export { runCli };
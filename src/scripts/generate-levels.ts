@@ -6,120 +6,315 @@
  * Run with: bun run src/scripts/generate-levels.ts
  */
 
-import { LevelGenerator, LevelGeneratorUtils } from '../generators/level-generator.js';
-import { LevelValidator } from '../utils/level-validator.js';
-import { writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { LevelGenerator, LevelGeneratorUtils, LevelGeneratorOptions, GeneratedLevel, DungeonSet } from '../generators/level-generator.js';
+import { LevelValidator, ValidationError } from '../utils/level-validator.js';
+import { LevelManifestLoader } from '../utils/level-manifest.js';
+import { buildLevelsIndex } from './auto-index-generator.js';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
 
 /**
- * Generate a single level and save as JSON
+ * Sample level definition used by batch mode and the golden-output check
  */
-function generateAndSaveLevel(
-  name: string,
-  seed: number,
-  theme: 'dungeon' | 'wilderness' | 'underground' | 'urban' | 'mystical',
-  algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed',
-  playerCount: number = 4,
-  difficulty: number = 1
-): void {
-  console.log(`🎲 Generating ${name}...`);
+export interface SampleLevel {
+  readonly name: string;
+  readonly seed: number;
+  /** ID of a theme registered in ThemeRegistry */
+  readonly theme: string;
+  readonly algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' | 'wfc' | 'regions';
+  readonly playerCount: number;
+  readonly difficulty: number;
+}
 
-  // Generate filename based on name
-  const filename = `${name.toLowerCase().replace(/\s+/g, '-')}-${seed}.json`;
-  const filepath = join(process.cwd(), 'generated-levels', filename);
+/**
+ * Sample levels generated in batch mode
+ */
+export const SAMPLE_LEVELS: readonly SampleLevel[] = [
+  // Dungeon levels with different algorithms
+  { name: 'Bandit Hideout', seed: 12345, theme: 'dungeon', algorithm: 'bsp', playerCount: 4, difficulty: 1 },
+  { name: 'Goblin Caves', seed: 67890, theme: 'dungeon', algorithm: 'cellular', playerCount: 4, difficulty: 2 },
+  { name: 'Ancient Tombs', seed: 11111, theme: 'dungeon', algorithm: 'mixed', playerCount: 4, difficulty: 3 },
+
+  // Wilderness encounters
+  { name: 'Forest Ambush', seed: 22222, theme: 'wilderness', algorithm: 'mixed', playerCount: 4, difficulty: 1 },
+  { name: 'Swamp Ruins', seed: 33333, theme: 'wilderness', algorithm: 'template', playerCount: 4, difficulty: 2 },
+
+  // Underground adventures
+  { name: 'Crystal Mines', seed: 44444, theme: 'underground', algorithm: 'cellular', playerCount: 4, difficulty: 2 },
+  { name: 'Deep Caverns', seed: 55555, theme: 'underground', algorithm: 'bsp', playerCount: 4, difficulty: 3 },
+
+  // Urban scenarios
+  { name: 'City Streets', seed: 66666, theme: 'urban', algorithm: 'template', playerCount: 4, difficulty: 1 },
+  { name: 'Abandoned District', seed: 77777, theme: 'urban', algorithm: 'mixed', playerCount: 4, difficulty: 2 },
+
+  // Mystical locations
+  { name: 'Arcane Sanctum', seed: 88888, theme: 'mystical', algorithm: 'mixed', playerCount: 4, difficulty: 3 },
+  { name: 'Fey Glade', seed: 99999, theme: 'mystical', algorithm: 'drunkard', playerCount: 4, difficulty: 2 },
+
+  // Boss encounters
+  { name: 'Dragon Lair', seed: 10000, theme: 'dungeon', algorithm: 'bsp', playerCount: 4, difficulty: 5 },
+  { name: 'Lich Tower', seed: 20000, theme: 'mystical', algorithm: 'mixed', playerCount: 4, difficulty: 4 }
+];
+
+/**
+ * Options for generating one level file
+ */
+export interface LevelRequest {
+  /** Level ID; defaults to the name in kebab case */
+  readonly id?: string;
+  readonly name: string;
+  readonly seed: number;
+  readonly theme: SampleLevel['theme'];
+  readonly algorithm: SampleLevel['algorithm'];
+  readonly playerCount: number;
+  readonly difficulty: number;
+  readonly options?: Partial<LevelGeneratorOptions>;
+}
+
+/**
+ * Outcome of generating one level file
+ */
+export interface LevelGenerationResult {
+  readonly filename: string;
+  readonly filepath: string;
+  readonly level: GeneratedLevel;
+  readonly errors: ValidationError[];
+  readonly warnings: ValidationError[];
+  readonly saved: boolean;
+}
+
+/**
+ * Outcome of generating the level files of a dungeon set
+ */
+export interface DungeonSetGenerationResult {
+  readonly set: DungeonSet;
+  /** One result per floor, from the top down */
+  readonly floors: LevelGenerationResult[];
+  /** Whether the floors were written; a set is only saved when every floor is valid */
+  readonly saved: boolean;
+}
+
+/**
+ * Outcome of one level in a batch run
+ */
+export interface BatchLevelOutcome {
+  readonly request: LevelRequest;
+  readonly result?: LevelGenerationResult;
+  /** Set when generation threw before the level could be validated */
+  readonly error?: string;
+}
+
+/**
+ * Outcome of a batch run
+ */
+export interface LevelBatchResult {
+  readonly outputDir: string;
+  readonly indexPath: string;
+  readonly outcomes: BatchLevelOutcome[];
+  /** Levels that threw or failed validation and were not saved */
+  readonly failed: BatchLevelOutcome[];
+}
+
+/**
+ * Generate, validate and save a level without any console output.
+ * Levels with validation errors are not written.
+ */
+function createLevelFile(request: LevelRequest, outputDir: string = 'generated-levels'): LevelGenerationResult {
+  // Generate filename based on name; the ID matches the filename pattern
+  const baseName = request.name.toLowerCase().replace(/\s+/g, '-');
+  const expectedId = request.id || baseName;
+  const filename = `${baseName}-${request.seed}.json`;
+  const filepath = resolve(outputDir, filename);
+
+  const generator = new LevelGenerator(request.seed, request.theme, request.algorithm, request.options);
+  const level = generator.generateLevel(request.playerCount, request.difficulty, request.name, expectedId);
+  const { errors, warnings } = validateForSaving(level, filename);
+
+  if (errors.length > 0) {
+    return { filename, filepath, level, errors, warnings, saved: false };
+  }
+
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(filepath, JSON.stringify(level, null, 2), 'utf8');
+
+  return { filename, filepath, level, errors, warnings, saved: true };
+}
+
+/**
+ * Generate, validate and save every floor of a dungeon set without any console output.
+ * Floors are named "<name>-floor-<n>-<seed>.json"; if any floor has validation errors,
+ * none are written.
+ */
+function createDungeonSetFiles(
+  request: LevelRequest,
+  floorCount: number,
+  outputDir: string = 'generated-levels'
+): DungeonSetGenerationResult {
+  const baseName = request.name.toLowerCase().replace(/\s+/g, '-');
+  const generator = new LevelGenerator(request.seed, request.theme, request.algorithm, request.options);
+  const set = generator.generateDungeonSet(floorCount, request.playerCount, request.difficulty, request.name, request.id || baseName);
+
+  const floors = set.floors.map((level, i) => {
+    const filename = `${baseName}-floor-${i + 1}-${request.seed}.json`;
+    return { filename, filepath: resolve(outputDir, filename), level, ...validateForSaving(level, filename, set.floors), saved: false };
+  });
 
-  // Ensure ID matches filename pattern
-  const expectedId = name.toLowerCase().replace(/\s+/g, '-');
+  if (floors.some(floor => floor.errors.length > 0)) {
+    return { set, floors, saved: false };
+  }
 
-  const generator = new LevelGenerator(seed, theme, algorithm);
-  const level = generator.generateLevel(playerCount, difficulty, name, expectedId);
+  mkdirSync(outputDir, { recursive: true });
+  floors.forEach(floor => writeFileSync(floor.filepath, JSON.stringify(floor.level, null, 2), 'utf8'));
 
-  // Validate the level before saving (skip metadata/settings validation for compatibility)
-  const validator = new LevelValidator();
-  const validation = validator.validateLevel(level, filename);
+  return { set, floors: floors.map(floor => ({ ...floor, saved: true })), saved: true };
+}
 
-  // Only check critical validation errors, ignore metadata/settings for compatibility with original format
-  const criticalErrors = validation.errors.filter(error =>
+/**
+ * Validate a level before saving, split into errors and warnings
+ * (metadata/settings issues are skipped for compatibility with the original format)
+ */
+function validateForSaving(
+  level: GeneratedLevel,
+  filename: string,
+  floors: GeneratedLevel[] = []
+): { errors: ValidationError[]; warnings: ValidationError[] } {
+  const validation = new LevelValidator().validateLevel(level, filename, floors);
+  const relevant = validation.errors.filter(error =>
     !error.field.includes('metadata') &&
     !error.field.includes('settings') &&
     !error.message.includes('metadata') &&
     !error.message.includes('settings')
   );
 
-  if (criticalErrors.length > 0) {
-    console.error(`❌ Validation failed for ${name}:`);
-    criticalErrors.forEach(error => {
-      console.error(`  ${error.severity.toUpperCase()}: ${error.field} - ${error.message}`);
-    });
-    return; // Don't save invalid levels
-  }
+  return {
+    errors: relevant.filter(error => error.severity === 'error'),
+    warnings: relevant.filter(error => error.severity === 'warning')
+  };
+}
 
-  if (validation.errors.length > 0) {
-    console.log(`⚠️  Validation warnings for ${name}:`);
-    validation.errors.forEach(error => {
-      if (error.severity === 'warning' && !error.field.includes('metadata') && !error.field.includes('settings')) {
-        console.log(`  WARNING: ${error.field} - ${error.message}`);
-      }
-    });
-  }
+/**
+ * Generate a list of levels in one pass, then rewrite levels-index.json for the output folder.
+ * A level that throws is recorded as a failure and the batch carries on.
+ */
+function runLevelBatch(
+  requests: readonly LevelRequest[],
+  outputDir: string = 'generated-levels',
+  onLevel?: (outcome: BatchLevelOutcome, index: number) => void
+): LevelBatchResult {
+  const outcomes: BatchLevelOutcome[] = [];
+
+  requests.forEach((request, index) => {
+    let outcome: BatchLevelOutcome;
+    try {
+      outcome = { request, result: createLevelFile(request, outputDir) };
+    } catch (error) {
+      outcome = { request, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    outcomes.push(outcome);
+    onLevel?.(outcome, index);
+  });
+
+  mkdirSync(outputDir, { recursive: true });
+  const indexPath = resolve(outputDir, 'levels-index.json');
+  writeFileSync(indexPath, JSON.stringify(buildLevelsIndex(outputDir).index, null, 2), 'utf8');
 
-  // Convert to JSON
-  const jsonData = JSON.stringify(level, null, 2);
+  return {
+    outputDir: resolve(outputDir),
+    indexPath,
+    outcomes,
+    failed: outcomes.filter(outcome => !outcome.result?.saved)
+  };
+}
+
+/**
+ * Generate a single level and save as JSON
+ */
+function generateAndSaveLevel(
+  name: string,
+  seed: number,
+  theme: string,
+  algorithm: 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' | 'wfc' | 'regions',
+  playerCount: number = 4,
+  difficulty: number = 1
+): void {
+  console.log(`🎲 Generating ${name}...`);
 
   try {
-    // Ensure directory exists
-    const fs = require('fs');
-    fs.mkdirSync('generated-levels', { recursive: true });
+    const result = createLevelFile({ name, seed, theme, algorithm, playerCount, difficulty });
 
-    writeFileSync(filepath, jsonData, 'utf8');
-    console.log(`✅ Saved: ${filepath}`);
-    console.log(`📊 Size: ${jsonData.length} characters`);
+    if (!result.saved) {
+      console.error(`❌ Validation failed for ${name}:`);
+      result.errors.forEach(error => {
+        console.error(`  ${error.severity.toUpperCase()}: ${error.field} - ${error.message}`);
+      });
+      return; // Invalid levels are not saved
+    }
+
+    if (result.warnings.length > 0) {
+      console.log(`⚠️  Validation warnings for ${name}:`);
+      result.warnings.forEach(error => {
+        console.log(`  WARNING: ${error.field} - ${error.message}`);
+      });
+    }
+
+    console.log(`✅ Saved: ${result.filepath}`);
+    console.log(`📊 Size: ${JSON.stringify(result.level, null, 2).length} characters`);
   } catch (error) {
-    console.error(`❌ Error saving ${filepath}:`, error);
+    console.error(`❌ Error generating ${name}:`, error);
   }
 }
 
 /**
- * Generate multiple levels of different types
+ * Generate multiple levels of different types, either the built-in samples or the
+ * levels listed in a JSON/YAML manifest
  */
-function generateLevelSet(): void {
+function generateLevelSet(manifestPath?: string): LevelBatchResult {
   console.log('🗺️  FOURE VTT Level Generator - Batch Mode');
   console.log('=====================================\n');
 
-  // Create output directory
-  try {
-    require('fs').mkdirSync('generated-levels', { recursive: true });
-  } catch (error) {
-    // Directory might already exist
-  }
+  let requests: readonly LevelRequest[] = SAMPLE_LEVELS;
+  let outputDir = 'generated-levels';
 
-  // Dungeon levels with different algorithms
-  generateAndSaveLevel('Bandit Hideout', 12345, 'dungeon', 'bsp', 4, 1);
-  generateAndSaveLevel('Goblin Caves', 67890, 'dungeon', 'cellular', 4, 2);
-  generateAndSaveLevel('Ancient Tombs', 11111, 'dungeon', 'mixed', 4, 3);
+  if (manifestPath) {
+    const manifest = LevelManifestLoader.load(manifestPath);
+    requests = manifest.levels;
+    outputDir = manifest.outputDir;
+    console.log(`📋 Manifest: ${manifest.path} (${requests.length} levels)\n`);
+  }
 
-  // Wilderness encounters
-  generateAndSaveLevel('Forest Ambush', 22222, 'wilderness', 'mixed', 4, 1);
-  generateAndSaveLevel('Swamp Ruins', 33333, 'wilderness', 'template', 4, 2);
+  const batch = runLevelBatch(requests, outputDir, (outcome, index) => {
+    const label = `[${index + 1}/${requests.length}] ${outcome.request.name} (seed ${outcome.request.seed})`;
 
-  // Underground adventures
-  generateAndSaveLevel('Crystal Mines', 44444, 'underground', 'cellular', 4, 2);
-  generateAndSaveLevel('Deep Caverns', 55555, 'underground', 'bsp', 4, 3);
+    if (outcome.error) {
+      console.error(`❌ ${label}: ${outcome.error}`);
+    } else if (!outcome.result!.saved) {
+      console.error(`❌ ${label}: ${outcome.result!.errors.length} validation error(s)`);
+    } else {
+      const warnings = outcome.result!.warnings.length;
+      console.log(`✅ ${label} → ${outcome.result!.filename}${warnings > 0 ? ` (${warnings} warning(s))` : ''}`);
+    }
+  });
 
-  // Urban scenarios
-  generateAndSaveLevel('City Streets', 66666, 'urban', 'template', 4, 1);
-  generateAndSaveLevel('Abandoned District', 77777, 'urban', 'mixed', 4, 2);
+  console.log(`\n✨ Generated ${batch.outcomes.length - batch.failed.length}/${batch.outcomes.length} level files in ${batch.outputDir}`);
+  console.log(`📇 Index: ${batch.indexPath}`);
 
-  // Mystical locations
-  generateAndSaveLevel('Arcane Sanctum', 88888, 'mystical', 'mixed', 4, 3);
-  generateAndSaveLevel('Fey Glade', 99999, 'mystical', 'drunkard', 4, 2);
-
-  // Boss encounters
-  generateAndSaveLevel('Dragon Lair', 10000, 'dungeon', 'bsp', 4, 5);
-  generateAndSaveLevel('Lich Tower', 20000, 'mystical', 'mixed', 4, 4);
+  if (batch.failed.length > 0) {
+    console.log(`\n❌ ${batch.failed.length} level(s) failed:`);
+    batch.failed.forEach(outcome => {
+      console.log(`  ${outcome.request.name} (seed ${outcome.request.seed})`);
+      if (outcome.error) {
+        console.log(`    ERROR: ${outcome.error}`);
+      }
+      outcome.result?.errors.forEach(error => {
+        console.log(`    ERROR: ${error.field} - ${error.message}`);
+      });
+    });
+  } else {
+    console.log('📁 Ready to import into your game engine!');
+  }
 
-  console.log('\n✨ Generated 14 level files in ./generated-levels/');
-  console.log('📁 Ready to import into your game engine!');
+  return batch;
 }
 
 /**
@@ -158,6 +353,21 @@ if (import.meta.main) {
 
   if (args.includes('--custom') || args.includes('-c')) {
     generateCustomLevel();
+  } else if (args.includes('--manifest') || args.includes('-m')) {
+    const flagIndex = Math.max(args.indexOf('--manifest'), args.indexOf('-m'));
+    const manifestPath = args[flagIndex + 1];
+
+    if (!manifestPath) {
+      console.error('❌ --manifest requires a file path');
+      process.exit(2);
+    }
+
+    try {
+      process.exit(generateLevelSet(manifestPath).failed.length > 0 ? 1 : 0);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
   } else if (args.includes('--batch') || args.includes('-b')) {
     generateLevelSet();
   } else {
@@ -165,11 +375,12 @@ if (import.meta.main) {
     console.log('==========================\n');
     console.log('Usage:');
     console.log('  bun run src/scripts/generate-levels.ts        # Show this help');
-    console.log('  bun run src/scripts/generate-levels.ts --batch  # Generate 14 sample levels');
+    console.log(`  bun run src/scripts/generate-levels.ts --batch  # Generate ${SAMPLE_LEVELS.length} sample levels`);
     console.log('  bun run src/scripts/generate-levels.ts --custom # Generate 1 custom level');
+    console.log('  bun run src/scripts/generate-levels.ts --manifest <file.json|yaml>  # Generate the levels in a manifest');
     console.log('\nGenerated files will be saved to ./generated-levels/');
     console.log('An index of generated levels is maintained at generated-levels/index.json');
   }
 }
 
-export { generateAndSaveLevel, generateLevelSet, generateCustomLevel };
+export { createLevelFile, createDungeonSetFiles, runLevelBatch, generateAndSaveLevel, generateLevelSet, generateCustomLevel };
@@ -0,0 +1,172 @@
+#!/usr/bin/env bun
+/**
+ * Golden Output Check
+ *
+ * Regenerates every sample level from generate-levels.ts and verifies that the output
+ * is identical across runs and matches the fingerprints recorded in golden-levels.json.
+ * The first sample is also generated as a dungeon set, whose floors must each agree with
+ * their own terrain once the links are written in.
+ * Run with: bun run src/scripts/golden-check.ts
+ * After an intentional output change, refresh the fingerprints with --update.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LevelGenerator, GeneratedLevel, PopulationMode } from '../generators/level-generator.js';
+import { MapCompression } from '../utils/map-compression.js';
+import { SAMPLE_LEVELS, SampleLevel } from './generate-levels.js';
+
+const GOLDEN_FILE = join(import.meta.dir, 'golden-levels.json');
+
+/**
+ * Population modes covered by the check, so every RNG sub-stream is exercised
+ */
+const POPULATION_MODES: readonly PopulationMode[] = ['none', 'balanced'];
+
+/**
+ * Floors in the dungeon set generated from the first sample
+ */
+const DUNGEON_SET_FLOORS = 3;
+
+/**
+ * Result of checking a single sample
+ */
+interface GoldenResult {
+  readonly key: string;
+  readonly fingerprint: string;
+  readonly stable: boolean;
+  readonly expected?: string;
+}
+
+/**
+ * Generate a sample level exactly as batch mode does
+ */
+function generateSample(sample: SampleLevel, populate: PopulationMode): GeneratedLevel {
+  const expectedId = sample.name.toLowerCase().replace(/\s+/g, '-');
+  const generator = new LevelGenerator(sample.seed, sample.theme, sample.algorithm, { populate });
+  return generator.generateLevel(sample.playerCount, sample.difficulty, sample.name, expectedId);
+}
+
+/**
+ * Generate the floors of a dungeon set from a sample, as foure-gen generate --floors does
+ */
+function generateSampleSet(sample: SampleLevel): GeneratedLevel[] {
+  const expectedId = sample.name.toLowerCase().replace(/\s+/g, '-');
+  const generator = new LevelGenerator(sample.seed, sample.theme, sample.algorithm);
+  return generator.generateDungeonSet(DUNGEON_SET_FLOORS, sample.playerCount, sample.difficulty, sample.name, expectedId).floors;
+}
+
+/**
+ * Ways a level's derived fields disagree with its terrain: features, terrain configs and
+ * compressed size must all describe the grid as shipped
+ */
+function findInconsistencies(level: GeneratedLevel): string[] {
+  const terrain = level.map.terrain;
+  const problems: string[] = [];
+
+  for (const feature of level.map.layers?.features || []) {
+    if (terrain[feature.y]?.[feature.x] !== feature.terrain) {
+      problems.push(`feature '${feature.terrain}' at (${feature.x}, ${feature.y}) is not in the terrain`);
+    }
+  }
+  for (const link of level.map.links || []) {
+    if (!level.map.layers?.features.some(feature => feature.x === link.x && feature.y === link.y && feature.terrain === link.type)) {
+      problems.push(`link '${link.id}' at (${link.x}, ${link.y}) is missing from map.layers`);
+    }
+  }
+
+  const used = [...new Set(terrain.flat())].sort();
+  const configured = Object.keys(level.map.terrainConfigs).sort();
+  if (JSON.stringify(used) !== JSON.stringify(configured)) {
+    problems.push(`terrainConfigs lists ${configured.join(', ')} but the terrain uses ${used.join(', ')}`);
+  }
+
+  const compressedSize = Number(MapCompression.getCompressionStats(terrain).compressionRatio.toFixed(2));
+  if (level.metadata.compressedSize !== compressedSize) {
+    problems.push(`compressedSize is ${level.metadata.compressedSize} but the terrain compresses to ${compressedSize}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Hash a level's JSON, ignoring the wall-clock generation time
+ */
+function fingerprintLevel(level: GeneratedLevel): string {
+  const { generationTime, ...metadata } = level.metadata;
+  const json = JSON.stringify({ ...level, metadata });
+  return createHash('sha256').update(json).digest('hex');
+}
+
+/**
+ * Generate every sample twice and compare against the golden fingerprints
+ */
+function runGoldenCheck(update: boolean = false): boolean {
+  console.log('🧪 FOURE VTT Level Generator - Golden Output Check');
+  console.log('==================================================\n');
+
+  const golden: Record<string, string> = existsSync(GOLDEN_FILE)
+    ? JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'))
+    : {};
+
+  const results: GoldenResult[] = [];
+
+  for (const sample of SAMPLE_LEVELS) {
+    for (const populate of POPULATION_MODES) {
+      const key = `${sample.seed}-${populate}`;
+      const fingerprint = fingerprintLevel(generateSample(sample, populate));
+      const stable = fingerprintLevel(generateSample(sample, populate)) === fingerprint;
+      results.push({ key, fingerprint, stable, expected: golden[key] });
+    }
+  }
+
+  const [setSample] = SAMPLE_LEVELS;
+  const floors = generateSampleSet(setSample);
+  const floorsAgain = generateSampleSet(setSample);
+  const inconsistent: string[] = [];
+  floors.forEach((level, i) => {
+    const key = `${setSample.seed}-set-floor-${i + 1}`;
+    const fingerprint = fingerprintLevel(level);
+    results.push({ key, fingerprint, stable: fingerprintLevel(floorsAgain[i]) === fingerprint, expected: golden[key] });
+
+    findInconsistencies(level).forEach(problem => {
+      console.log(`❌ ${key}: ${problem}`);
+      inconsistent.push(key);
+    });
+  });
+
+  const unstable = results.filter(result => !result.stable);
+  unstable.forEach(result => console.log(`❌ ${result.key}: output differs between runs`));
+
+  if (update) {
+    const updated = Object.fromEntries(results.map(result => [result.key, result.fingerprint]));
+    writeFileSync(GOLDEN_FILE, JSON.stringify(updated, null, 2) + '\n', 'utf8');
+    console.log(`💾 Updated ${results.length} fingerprints in ${GOLDEN_FILE}`);
+    return unstable.length === 0 && inconsistent.length === 0;
+  }
+
+  const mismatched = results.filter(result => result.expected !== result.fingerprint);
+  mismatched.forEach(result => {
+    const reason = result.expected ? 'fingerprint changed' : 'no golden fingerprint recorded';
+    console.log(`❌ ${result.key}: ${reason}`);
+  });
+
+  const passed = results.length - new Set([...unstable, ...mismatched].map(result => result.key).concat(inconsistent)).size;
+  console.log(`\n📊 ${passed}/${results.length} samples match the golden output`);
+
+  if (mismatched.length > 0) {
+    console.log('💡 If the change is intentional, run with --update to record the new output');
+  }
+
+  return unstable.length === 0 && mismatched.length === 0 && inconsistent.length === 0;
+}
+
+// Main execution
+if (import.meta.main) {
+  const update = process.argv.slice(2).includes('--update');
+  const passed = runGoldenCheck(update);
+  process.exit(passed ? 0 : 1);
+}
+
+export { runGoldenCheck, fingerprintLevel };
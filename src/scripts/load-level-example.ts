@@ -8,6 +8,7 @@
 
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
+import { LevelObjective } from '../types/level-schema.js';
 
 /**
  * Level data interface for game engine
@@ -28,7 +29,22 @@ interface GameLevel {
   startingActors: any[];
   playerSpawnPoints: Array<{ x: number; y: number }>;
   environmentalEffects: any[];
-  objectives: string[];
+  interactiveObjects?: Array<{
+    id: string;
+    name: string;
+    position: { x: number; y: number };
+    interactions: string[];
+    description?: string;
+  }>;
+  narrativeElements?: Array<{
+    id: string;
+    type: 'story' | 'hint' | 'warning' | 'objective';
+    position: { x: number; y: number };
+    radius: number;
+    message: string;
+  }>;
+  objectives: LevelObjective[];
+  tags: string[];
   settings: any;
 }
 
@@ -46,6 +62,8 @@ function loadLevel(filepath: string): GameLevel {
     console.log(`📊 Size: ${levelData.map.dimensions.width}x${levelData.map.dimensions.height}`);
     console.log(`👥 Monsters: ${levelData.startingActors.length}`);
     console.log(`🎯 Objectives: ${levelData.objectives.length}`);
+    console.log(`📦 Interactive Objects: ${levelData.interactiveObjects?.length ?? 0}`);
+    console.log(`📜 Narrative Elements: ${levelData.narrativeElements?.length ?? 0}`);
     console.log(`🎨 Theme: ${levelData.theme} (${levelData.difficulty})`);
 
     return levelData;
@@ -87,6 +105,22 @@ function initializeGameEngine(level: GameLevel): void {
   const effects = level.environmentalEffects;
   console.log(`  ✓ Applied ${effects.length} environmental effects`);
 
+  // Step 6: Place interactive objects (older levels may not have any)
+  console.log('📦 Placing interactive objects...');
+  const objects = level.interactiveObjects || [];
+  objects.forEach(object => {
+    console.log(`  ✓ ${object.name} at (${object.position.x}, ${object.position.y}) [${object.interactions.join(', ')}]`);
+  });
+  console.log(`  ✓ Placed ${objects.length} interactive objects`);
+
+  // Step 7: Register narrative triggers
+  console.log('📜 Registering narrative triggers...');
+  const narratives = level.narrativeElements || [];
+  narratives.forEach(element => {
+    console.log(`  ✓ ${element.type} '${element.id}' within ${element.radius} of (${element.position.x}, ${element.position.y})`);
+  });
+  console.log(`  ✓ Registered ${narratives.length} narrative elements`);
+
   console.log('\n🎉 Game Engine Ready!');
   console.log(`🎮 Level "${level.name}" loaded successfully!`);
 }
@@ -108,6 +142,14 @@ function displayLevelPreview(level: GameLevel): void {
   console.log('='.repeat(50));
 }
 
+/**
+ * Check that a position lies on the level's map
+ */
+function isWithinMap(level: GameLevel, position: { x: number; y: number }): boolean {
+  const { width, height } = level.map.dimensions;
+  return position.x >= 0 && position.x < width && position.y >= 0 && position.y < height;
+}
+
 /**
  * Validate level structure for game engine compatibility
  */
@@ -121,6 +163,8 @@ function validateLevelStructure(level: GameLevel): boolean {
     { name: 'Monsters', check: () => level.startingActors && level.startingActors.length >= 0 },
     { name: 'Spawn points', check: () => level.playerSpawnPoints && level.playerSpawnPoints.length > 0 },
     { name: 'Objectives', check: () => level.objectives && level.objectives.length > 0 },
+    { name: 'Object positions', check: () => (level.interactiveObjects || []).every(o => isWithinMap(level, o.position)) },
+    { name: 'Narrative positions', check: () => (level.narrativeElements || []).every(n => isWithinMap(level, n.position)) },
   ];
 
   let allValid = true;
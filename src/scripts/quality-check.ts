@@ -6,75 +6,122 @@
  * and generated level files.
  */
 
-import { readdirSync, readFileSync } from 'node:fs';
+import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
-import { LevelValidator } from '../utils/level-validator.js';
+import { LevelValidator, ValidationError } from '../utils/level-validator.js';
+import { listLevelFiles } from './auto-index-generator.js';
 
 /**
- * Generate comprehensive quality report
+ * Quality results for a single level file
  */
-function generateQualityReport(): void {
-  console.log('🔍 FOURE VTT Level Generator - Quality Check Report');
-  console.log('==================================================\n');
-
-  // Check generated levels
-  const levelsDir = join(process.cwd(), 'generated-levels');
-  const validator = new LevelValidator();
-
-  try {
-    const files = readdirSync(levelsDir);
-    const jsonFiles = files.filter(file => file.endsWith('.json') && file !== 'levels-index.json');
-
-    console.log(`📁 Found ${jsonFiles.length} level files\n`);
-
-    let totalValid = 0;
-    let totalInvalid = 0;
-    let totalSize = 0;
-    let totalMonsters = 0;
-
-    for (const filename of jsonFiles) {
-      const filepath = join(levelsDir, filename);
+export interface LevelQuality {
+  readonly filename: string;
+  readonly size: number;
+  readonly valid: boolean;
+  readonly monsters: number;
+  readonly terrainTypes: string[];
+  readonly errors: ValidationError[];
+}
 
-      try {
-        const jsonContent = readFileSync(filepath, 'utf8');
-        const levelData = JSON.parse(jsonContent);
-        const fileSize = jsonContent.length;
+/**
+ * Quality results for a folder of level files
+ */
+export interface QualitySummary {
+  readonly levels: LevelQuality[];
+  readonly totalValid: number;
+  readonly totalInvalid: number;
+  readonly totalSize: number;
+  readonly totalMonsters: number;
+  readonly qualityScore: number;
+}
 
-        console.log(`📖 ${filename}:`);
-        console.log(`   Size: ${(fileSize / 1024).toFixed(1)} KB`);
+/**
+ * Validate every level in a folder and collect quality statistics, without any console output
+ */
+function collectQualityStats(levelsDir: string): QualitySummary {
+  const validator = new LevelValidator();
+  const files = listLevelFiles(levelsDir);
+  const levels: LevelQuality[] = [];
+
+  for (const filename of files) {
+    const filepath = join(levelsDir, filename);
+    let size = 0;
+
+    try {
+      const jsonContent = readFileSync(filepath, 'utf8');
+      size = jsonContent.length;
+      const levelData = JSON.parse(jsonContent);
+      const validation = validator.validateLevel(levelData, filename);
+
+      levels.push({
+        filename,
+        size,
+        valid: validation.isValid,
+        monsters: levelData.startingActors?.length || 0,
+        terrainTypes: Object.keys(levelData.map?.terrainConfigs || {}),
+        errors: validation.errors.filter(error => error.severity === 'error')
+      });
+    } catch (error) {
+      levels.push({
+        filename,
+        size,
+        valid: false,
+        monsters: 0,
+        terrainTypes: [],
+        errors: [{ field: 'file', message: `Error reading file: ${error}`, severity: 'error' }]
+      });
+    }
+  }
 
-        const validation = validator.validateLevel(levelData, filename);
+  const validLevels = levels.filter(level => level.valid);
+  const totalValid = validLevels.length;
+  const totalInvalid = levels.length - totalValid;
+
+  return {
+    levels,
+    totalValid,
+    totalInvalid,
+    totalSize: levels.reduce((sum, level) => sum + level.size, 0),
+    totalMonsters: validLevels.reduce((sum, level) => sum + level.monsters, 0),
+    qualityScore: (totalValid / (totalValid + totalInvalid)) * 100
+  };
+}
 
-        if (validation.isValid) {
-          console.log(`   ✅ Valid`);
+/**
+ * Generate comprehensive quality report
+ */
+function generateQualityReport(levelsDir: string = join(process.cwd(), 'generated-levels')): void {
+  console.log('🔍 FOURE VTT Level Generator - Quality Check Report');
+  console.log('==================================================\n');
 
-          // Count monsters
-          const monsterCount = levelData.startingActors?.length || 0;
-          totalMonsters += monsterCount;
-          console.log(`   👥 Monsters: ${monsterCount} (empty arrays for manual placement)`);
+  try {
+    const { levels, totalValid, totalInvalid, totalSize, totalMonsters, qualityScore } = collectQualityStats(levelsDir);
 
-          // Check terrain configs
-          const terrainTypes = Object.keys(levelData.map?.terrainConfigs || {});
-          console.log(`   🏗️  Terrain Types: ${terrainTypes.length} (${terrainTypes.join(', ')})`);
+    console.log(`📁 Found ${levels.length} level files\n`);
 
-          totalValid++;
-        } else {
-          console.log(`   ❌ Invalid (${validation.errors.length} issues)`);
-          validation.errors.forEach((error, index) => {
-            if (error.severity === 'error') {
-              console.log(`      ${index + 1}. ERROR: ${error.field} - ${error.message}`);
-            }
-          });
-          totalInvalid++;
-        }
+    for (const level of levels) {
+      console.log(`📖 ${level.filename}:`);
 
-        totalSize += fileSize;
-        console.log('');
-      } catch (error) {
-        console.log(`   ❌ Error reading file: ${error}`);
-        totalInvalid++;
+      if (level.size === 0 && !level.valid) {
+        console.log(`   ❌ ${level.errors[0]?.message}`);
         console.log('');
+        continue;
       }
+
+      console.log(`   Size: ${(level.size / 1024).toFixed(1)} KB`);
+
+      if (level.valid) {
+        console.log(`   ✅ Valid`);
+        console.log(`   👥 Monsters: ${level.monsters}${level.monsters === 0 ? ' (empty array for manual placement)' : ' (balanced encounter)'}`);
+        console.log(`   🏗️  Terrain Types: ${level.terrainTypes.length} (${level.terrainTypes.join(', ')})`);
+      } else {
+        console.log(`   ❌ Invalid (${level.errors.length} issues)`);
+        level.errors.forEach((error, index) => {
+          console.log(`      ${index + 1}. ERROR: ${error.field} - ${error.message}`);
+        });
+      }
+
+      console.log('');
     }
 
     // Summary statistics
@@ -84,13 +131,12 @@ function generateQualityReport(): void {
     console.log(`❌ Invalid levels: ${totalInvalid}`);
     console.log(`📈 Success rate: ${((totalValid / (totalValid + totalInvalid)) * 100).toFixed(1)}%`);
     console.log(`💾 Total size: ${(totalSize / 1024).toFixed(1)} KB`);
-    console.log(`👥 Total monsters: ${totalMonsters} (all empty arrays for manual placement)`);
+    console.log(`👥 Total monsters: ${totalMonsters}`);
 
     // Quality metrics
     console.log('\n🏆 QUALITY METRICS');
     console.log('==================');
 
-    const qualityScore = (totalValid / (totalValid + totalInvalid)) * 100;
     if (qualityScore === 100) {
       console.log('🎯 PERFECT: All levels pass validation');
     } else if (qualityScore >= 90) {
@@ -124,6 +170,7 @@ function generateQualityReport(): void {
     console.log('✅ Nested object validation (settings, metadata)');
     console.log('✅ Data type validation (strings, numbers, booleans, ranges)');
     console.log('✅ Logical consistency (terrain types, spawn bounds, objectives)');
+    console.log('✅ Reachability (connected spawn points, reachable objective targets)');
     console.log('✅ Filename ↔ ID consistency validation');
     console.log('✅ Schema compliance with detailed error reporting');
 
@@ -167,4 +214,4 @@ if (import.meta.main) {
   generateQualityReport();
 }
 
-export { generateQualityReport };
+export { generateQualityReport, collectQualityStats };
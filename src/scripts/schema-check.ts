@@ -0,0 +1,89 @@
+#!/usr/bin/env bun
+/**
+ * Schema Conformance Check
+ *
+ * Verifies that LEVEL_SCHEMA, the documented examples and the generator agree:
+ * VALID_LEVEL_EXAMPLE must pass both the schema and LevelValidator, and
+ * example-level.json and every sample level must pass the schema.
+ * Run with: bun run src/scripts/schema-check.ts
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LEVEL_SCHEMA, VALID_LEVEL_EXAMPLE } from '../types/level-schema.js';
+import { SchemaValidator } from '../utils/schema-validator.js';
+import { LevelValidator } from '../utils/level-validator.js';
+import { LevelGenerator, PopulationMode } from '../generators/level-generator.js';
+import { SAMPLE_LEVELS } from './generate-levels.js';
+
+const EXAMPLE_FILE = join(import.meta.dir, 'example-level.json');
+
+/**
+ * Population modes covered by the check
+ */
+const POPULATION_MODES: readonly PopulationMode[] = ['none', 'balanced'];
+
+/**
+ * A named document and the problems found in it
+ */
+interface SchemaCheckResult {
+  readonly name: string;
+  readonly problems: string[];
+}
+
+/**
+ * Run a document through the schema and, optionally, the full LevelValidator
+ */
+function checkDocument(name: string, level: any, filename?: string): SchemaCheckResult {
+  const problems = SchemaValidator.validate(LEVEL_SCHEMA, level)
+    .map(error => `${error.pointer} - ${error.message}`);
+
+  if (filename) {
+    const validation = new LevelValidator().validateLevel(level, filename);
+    validation.errors.forEach(issue => {
+      problems.push(`${issue.severity.toUpperCase()}: ${issue.field} - ${issue.message}`);
+    });
+  }
+
+  return { name, problems: [...new Set(problems)] };
+}
+
+/**
+ * Check the examples and sample levels against LEVEL_SCHEMA
+ */
+function runSchemaCheck(): boolean {
+  console.log('🧪 FOURE VTT Level Generator - Schema Conformance Check');
+  console.log('=======================================================\n');
+
+  const results: SchemaCheckResult[] = [
+    checkDocument('VALID_LEVEL_EXAMPLE', VALID_LEVEL_EXAMPLE, `${VALID_LEVEL_EXAMPLE.id}.json`),
+    checkDocument('example-level.json', JSON.parse(readFileSync(EXAMPLE_FILE, 'utf8')))
+  ];
+
+  for (const sample of SAMPLE_LEVELS) {
+    for (const populate of POPULATION_MODES) {
+      const generator = new LevelGenerator(sample.seed, sample.theme, sample.algorithm, { populate });
+      const level = generator.generateLevel(sample.playerCount, sample.difficulty, sample.name);
+      results.push(checkDocument(`${sample.seed}-${populate}`, level));
+    }
+  }
+
+  results.forEach(result => {
+    if (result.problems.length > 0) {
+      console.log(`❌ ${result.name}`);
+      result.problems.forEach(problem => console.log(`   ${problem}`));
+    }
+  });
+
+  const passed = results.filter(result => result.problems.length === 0).length;
+  console.log(`\n📊 ${passed}/${results.length} documents conform to LEVEL_SCHEMA`);
+
+  return passed === results.length;
+}
+
+// Main execution
+if (import.meta.main) {
+  process.exit(runSchemaCheck() ? 0 : 1);
+}
+
+export { runSchemaCheck };
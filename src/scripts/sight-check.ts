@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Line of Sight Check
+ *
+ * Verifies that LineOfSight's corner-to-corner lines and its shadowcasting field of view
+ * agree: a wall one square thick hides everything behind it from both, and every square
+ * in the field of view of a sample level's spawn points has line of sight.
+ * Run with: bun run src/scripts/sight-check.ts
+ */
+
+import { LineOfSight } from '../utils/line-of-sight.js';
+import { GridPosition } from '../types/terrain.js';
+import { LevelGenerator } from '../generators/level-generator.js';
+import { SAMPLE_LEVELS } from './generate-levels.js';
+
+/**
+ * Size of the walled test map; the wall fills its middle column
+ */
+const WALL_MAP_SIZE = 10;
+
+/**
+ * A named case and the problems found in it
+ */
+interface SightCheckResult {
+  readonly name: string;
+  readonly problems: string[];
+}
+
+const describe = (position: GridPosition): string => `(${position.x}, ${position.y})`;
+
+/**
+ * Nothing beyond a wall column may be seen, by line or by field of view, from either side
+ */
+function checkWallColumn(): SightCheckResult {
+  const wallX = Math.floor(WALL_MAP_SIZE / 2);
+  const terrain = Array.from({ length: WALL_MAP_SIZE }, () =>
+    Array.from({ length: WALL_MAP_SIZE }, (_, x) => (x === wallX ? 'wall' : 'empty'))
+  );
+  const los = new LineOfSight(terrain);
+  const problems: string[] = [];
+
+  for (let y = 0; y < WALL_MAP_SIZE; y++) {
+    for (let x = 0; x < WALL_MAP_SIZE; x++) {
+      if (x === wallX) continue;
+      const origin = { x, y };
+      const behindWall = (position: GridPosition): boolean => position.x !== wallX && (position.x < wallX) !== (x < wallX);
+
+      los.computeFieldOfView(origin).filter(behindWall).forEach(position => {
+        problems.push(`${describe(origin)} sees ${describe(position)} past the wall`);
+      });
+
+      for (let ty = 0; ty < WALL_MAP_SIZE; ty++) {
+        for (let tx = 0; tx < WALL_MAP_SIZE; tx++) {
+          const target = { x: tx, y: ty };
+          if (behindWall(target) && los.hasLineOfSight(origin, target)) {
+            problems.push(`${describe(origin)} has line of sight to ${describe(target)} past the wall`);
+          }
+        }
+      }
+    }
+  }
+
+  return { name: 'wall-column', problems };
+}
+
+/**
+ * Every square in the field of view of a sample level's spawn points must have line of sight
+ */
+function checkSampleLevel(sample: typeof SAMPLE_LEVELS[number]): SightCheckResult {
+  const generator = new LevelGenerator(sample.seed, sample.theme, sample.algorithm, { populate: 'none' });
+  const level = generator.generateLevel(sample.playerCount, sample.difficulty, sample.name);
+  const los = new LineOfSight(level.map.terrain, { terrainConfigs: level.map.terrainConfigs });
+  const problems: string[] = [];
+
+  for (const origin of level.playerSpawnPoints) {
+    los.computeFieldOfView(origin)
+      .filter(position => !los.hasLineOfSight(origin, position))
+      .forEach(position => problems.push(`${describe(origin)} sees ${describe(position)} without line of sight`));
+  }
+
+  return { name: String(sample.seed), problems };
+}
+
+/**
+ * Check the wall column and the sample levels
+ */
+function runSightCheck(): boolean {
+  console.log('👁️  FOURE VTT Level Generator - Line of Sight Check');
+  console.log('===================================================\n');
+
+  const results = [checkWallColumn(), ...SAMPLE_LEVELS.map(checkSampleLevel)];
+
+  results.forEach(result => {
+    if (result.problems.length > 0) {
+      console.log(`❌ ${result.name} (${result.problems.length} problems)`);
+      result.problems.slice(0, 10).forEach(problem => console.log(`   ${problem}`));
+    }
+  });
+
+  const passed = results.filter(result => result.problems.length === 0).length;
+  console.log(`\n📊 ${passed}/${results.length} cases agree`);
+
+  return passed === results.length;
+}
+
+// Main execution
+if (import.meta.main) {
+  process.exit(runSightCheck() ? 0 : 1);
+}
+
+export { runSightCheck };
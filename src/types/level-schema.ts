@@ -5,6 +5,9 @@
  * and documentation for game engine integration.
  */
 
+import { MAP_DIMENSION_LIMITS, ELEVATION_LIMITS, DOOR_TYPES, LINK_TYPES } from './terrain.js';
+import { PREFAB_DIRECTIONS } from './prefab.js';
+
 export interface LevelObjective {
   readonly id: string;
   readonly type: string;
@@ -13,6 +16,14 @@ export interface LevelObjective {
   readonly optional?: boolean;
 }
 
+/**
+ * Supported difficulty range: the recommended player character level, 1 to 30 as in 4e
+ */
+export const DIFFICULTY_LIMITS = {
+  min: 1,
+  max: 30
+} as const;
+
 /**
  * Complete JSON Schema for FOURE VTT Level Files
  */
@@ -27,7 +38,7 @@ export const LEVEL_SCHEMA = {
     "id", "name", "description", "version", "author",
     "recommendedLevel", "estimatedDuration", "difficulty", "theme",
     "tags", "startingActors", "playerSpawnPoints", "environmentalEffects",
-    "objectives", "settings", "metadata", "map"
+    "objectives", "settings", "map"
   ],
 
   "properties": {
@@ -70,8 +81,8 @@ export const LEVEL_SCHEMA = {
     "recommendedLevel": {
       "type": "integer",
       "description": "Recommended player character level",
-      "minimum": 1,
-      "maximum": 30,
+      "minimum": DIFFICULTY_LIMITS.min,
+      "maximum": DIFFICULTY_LIMITS.max,
       "examples": [1, 2, 3, 5]
     },
 
@@ -92,9 +103,9 @@ export const LEVEL_SCHEMA = {
 
     "theme": {
       "type": "string",
-      "enum": ["dungeon", "wilderness", "underground", "urban", "mystical"],
-      "description": "Level theme/environment type",
-      "examples": ["dungeon", "wilderness"]
+      "pattern": "^[a-z0-9-]+$",
+      "description": "Level theme ID: a built-in theme (dungeon, wilderness, underground, urban, mystical) or a custom theme from a theme definition file",
+      "examples": ["dungeon", "wilderness", "frozen-tundra"]
     },
 
     "tags": {
@@ -165,6 +176,67 @@ export const LEVEL_SCHEMA = {
       }]]
     },
 
+    "interactiveObjects": {
+      "type": "array",
+      "description": "Interactive objects such as chests, pressure plates and rune circles",
+      "items": {
+        "type": "object",
+        "required": ["id", "name", "position", "interactions"],
+        "properties": {
+          "id": { "type": "string" },
+          "name": { "type": "string" },
+          "position": {
+            "type": "object",
+            "properties": { "x": { "type": "integer", "minimum": 0 }, "y": { "type": "integer", "minimum": 0 } },
+            "required": ["x", "y"]
+          },
+          "terrainType": { "type": "string" },
+          "interactions": { "type": "array", "items": { "type": "string" } },
+          "description": { "type": "string" },
+          "theme": { "type": "string" }
+        }
+      },
+      "examples": [[{
+        "id": "chest-0",
+        "name": "Treasure Chest",
+        "position": { "x": 4, "y": 6 },
+        "terrainType": "empty",
+        "interactions": ["open", "lockpick", "search"],
+        "description": "A sturdy wooden chest, possibly containing valuables",
+        "theme": "dungeon"
+      }]]
+    },
+
+    "narrativeElements": {
+      "type": "array",
+      "description": "Story hints, warnings and narrative triggers",
+      "items": {
+        "type": "object",
+        "required": ["id", "type", "position", "message"],
+        "properties": {
+          "id": { "type": "string" },
+          "type": { "type": "string", "enum": ["story", "hint", "warning", "objective"] },
+          "position": {
+            "type": "object",
+            "properties": { "x": { "type": "integer", "minimum": 0 }, "y": { "type": "integer", "minimum": 0 } },
+            "required": ["x", "y"]
+          },
+          "radius": { "type": "integer", "minimum": 0 },
+          "message": { "type": "string" },
+          "conditions": { "type": "array", "items": { "type": "string" } },
+          "theme": { "type": "string" }
+        }
+      },
+      "examples": [[{
+        "id": "ancient-warning",
+        "type": "warning",
+        "position": { "x": 12, "y": 12 },
+        "radius": 3,
+        "message": "Turn back, mortal. The depths hunger for souls.",
+        "theme": "dungeon"
+      }]]
+    },
+
     "objectives": {
       "type": "array",
       "description": "Victory conditions and objectives",
@@ -186,6 +258,19 @@ export const LEVEL_SCHEMA = {
       ]]
     },
 
+    "dungeonSet": {
+      "type": "object",
+      "description": "Optional dungeon set the level is one floor of",
+      "required": ["id", "name", "seed", "floor", "floorCount"],
+      "properties": {
+        "id": { "type": "string", "pattern": "^[a-z0-9-]+$" },
+        "name": { "type": "string", "minLength": 1 },
+        "seed": { "type": "integer", "minimum": 0, "description": "Seed the whole set was generated from" },
+        "floor": { "type": "integer", "minimum": 1, "description": "Floor number, counting down from 1 at the top" },
+        "floorCount": { "type": "integer", "minimum": 1 }
+      }
+    },
+
     "settings": {
       "type": "object",
       "description": "Game engine settings",
@@ -199,13 +284,24 @@ export const LEVEL_SCHEMA = {
 
     "metadata": {
       "type": "object",
-      "description": "Generation metadata",
+      "description": "Generation metadata (written by the generator; hand-authored levels may omit it)",
       "required": ["seed", "algorithm", "compressedSize", "generationTime"],
       "properties": {
         "seed": { "type": "integer", "minimum": 0 },
         "algorithm": { "type": "string" },
         "compressedSize": { "type": "number", "minimum": 0, "maximum": 100 },
-        "generationTime": { "type": "number", "minimum": 0 }
+        "generationTime": { "type": "number", "minimum": 0 },
+        "xpBudget": { "type": "integer", "minimum": 0, "description": "Encounter XP budget (present when monsters were populated)" },
+        "world": {
+          "type": "object",
+          "description": "Overworld tile the level was generated as",
+          "required": ["seed", "x", "y"],
+          "properties": {
+            "seed": { "type": "integer" },
+            "x": { "type": "integer" },
+            "y": { "type": "integer" }
+          }
+        }
       }
     },
 
@@ -217,8 +313,8 @@ export const LEVEL_SCHEMA = {
         "dimensions": {
           "type": "object",
           "properties": {
-            "width": { "type": "integer", "minimum": 1 },
-            "height": { "type": "integer", "minimum": 1 }
+            "width": { "type": "integer", "minimum": MAP_DIMENSION_LIMITS.min, "maximum": MAP_DIMENSION_LIMITS.max },
+            "height": { "type": "integer", "minimum": MAP_DIMENSION_LIMITS.min, "maximum": MAP_DIMENSION_LIMITS.max }
           },
           "required": ["width", "height"]
         },
@@ -227,9 +323,177 @@ export const LEVEL_SCHEMA = {
           "type": "array",
           "items": {
             "type": "array",
-            "items": { "type": "string" }
+            "items": { "type": "string", "minLength": 1 }
+          },
+          "description": "2D terrain grid (rows = height, columns = width)"
+        },
+
+        "elevation": {
+          "type": "array",
+          "items": {
+            "type": "array",
+            "items": { "type": "integer", "minimum": ELEVATION_LIMITS.min, "maximum": ELEVATION_LIMITS.max }
           },
-          "description": "2D terrain grid"
+          "description": "Optional heightmap in levels relative to the ground, same shape as terrain"
+        },
+
+        "layers": {
+          "type": "object",
+          "description": "Optional map layers; terrain holds the flattened result",
+          "required": ["features"],
+          "properties": {
+            "features": {
+              "type": "array",
+              "description": "Features placed over base terrain; each terrain matches the square in the terrain grid",
+              "items": {
+                "type": "object",
+                "required": ["x", "y", "terrain", "base"],
+                "properties": {
+                  "x": { "type": "integer", "minimum": 0 },
+                  "y": { "type": "integer", "minimum": 0 },
+                  "terrain": { "type": "string", "minLength": 1 },
+                  "base": { "type": "string", "minLength": 1 }
+                }
+              }
+            }
+          }
+        },
+
+        "doors": {
+          "type": "array",
+          "description": "Optional doors; each square's terrain matches the door type",
+          "items": {
+            "type": "object",
+            "required": ["id", "x", "y", "type", "state"],
+            "properties": {
+              "id": { "type": "string", "minLength": 1 },
+              "x": { "type": "integer", "minimum": 0 },
+              "y": { "type": "integer", "minimum": 0 },
+              "type": { "type": "string", "enum": [...DOOR_TYPES] },
+              "state": { "type": "string", "enum": ["open", "closed", "locked"] },
+              "findDC": { "type": "integer", "minimum": 1, "description": "Perception DC to notice a secret door" },
+              "pickDC": { "type": "integer", "minimum": 1, "description": "Thievery DC to pick a locked door" },
+              "keyId": { "type": "string", "description": "ID of the interactive object that unlocks the door" }
+            }
+          }
+        },
+
+        "graph": {
+          "type": "object",
+          "description": "Optional room and corridor graph of room-based maps",
+          "required": ["rooms", "corridors", "chokepoints"],
+          "properties": {
+            "rooms": {
+              "type": "array",
+              "items": {
+                "type": "object",
+                "required": ["id", "bounds", "center", "area", "tags"],
+                "properties": {
+                  "id": { "type": "string", "minLength": 1 },
+                  "bounds": {
+                    "type": "object",
+                    "required": ["x", "y", "width", "height"],
+                    "properties": {
+                      "x": { "type": "integer", "minimum": 0 },
+                      "y": { "type": "integer", "minimum": 0 },
+                      "width": { "type": "integer", "minimum": 1 },
+                      "height": { "type": "integer", "minimum": 1 }
+                    }
+                  },
+                  "center": {
+                    "type": "object",
+                    "properties": { "x": { "type": "integer", "minimum": 0 }, "y": { "type": "integer", "minimum": 0 } },
+                    "required": ["x", "y"]
+                  },
+                  "area": { "type": "integer", "minimum": 0 },
+                  "tags": { "type": "array", "items": { "type": "string" } }
+                }
+              }
+            },
+            "corridors": {
+              "type": "array",
+              "items": {
+                "type": "object",
+                "required": ["id", "from", "to", "length"],
+                "properties": {
+                  "id": { "type": "string", "minLength": 1 },
+                  "from": { "type": "string", "description": "ID of the room the corridor starts in" },
+                  "to": { "type": "string", "description": "ID of the room the corridor ends in" },
+                  "length": { "type": "integer", "minimum": 1 }
+                }
+              }
+            },
+            "chokepoints": {
+              "type": "array",
+              "description": "One-square doorways where corridors enter rooms",
+              "items": {
+                "type": "object",
+                "required": ["x", "y", "roomId"],
+                "properties": {
+                  "x": { "type": "integer", "minimum": 0 },
+                  "y": { "type": "integer", "minimum": 0 },
+                  "roomId": { "type": "string" }
+                }
+              }
+            }
+          }
+        },
+
+        "vaults": {
+          "type": "array",
+          "description": "Optional prefab vaults stamped into the map",
+          "items": {
+            "type": "object",
+            "required": ["id", "prefab", "x", "y", "width", "height", "rotation", "mirrored", "anchors"],
+            "properties": {
+              "id": { "type": "string", "minLength": 1 },
+              "prefab": { "type": "string", "minLength": 1, "description": "ID of the prefab in the prefab library" },
+              "x": { "type": "integer", "minimum": 0 },
+              "y": { "type": "integer", "minimum": 0 },
+              "width": { "type": "integer", "minimum": 1 },
+              "height": { "type": "integer", "minimum": 1 },
+              "rotation": { "type": "integer", "enum": [0, 90, 180, 270], "description": "Clockwise turn in degrees" },
+              "mirrored": { "type": "boolean", "description": "Whether the prefab was flipped left to right before turning" },
+              "anchors": {
+                "type": "array",
+                "description": "Squares where the vault opens onto the map",
+                "items": {
+                  "type": "object",
+                  "required": ["x", "y", "direction"],
+                  "properties": {
+                    "x": { "type": "integer", "minimum": 0 },
+                    "y": { "type": "integer", "minimum": 0 },
+                    "direction": { "type": "string", "enum": [...PREFAB_DIRECTIONS] }
+                  }
+                }
+              },
+              "roomId": { "type": "string", "description": "ID of the graph room holding the vault" }
+            }
+          }
+        },
+
+        "links": {
+          "type": "array",
+          "description": "Optional stairs, ladders and portals to other floors of the dungeon set; each square's terrain matches the link type",
+          "items": {
+            "type": "object",
+            "required": ["id", "x", "y", "type", "target"],
+            "properties": {
+              "id": { "type": "string", "minLength": 1 },
+              "x": { "type": "integer", "minimum": 0 },
+              "y": { "type": "integer", "minimum": 0 },
+              "type": { "type": "string", "enum": [...LINK_TYPES] },
+              "target": {
+                "type": "object",
+                "required": ["levelId", "x", "y"],
+                "properties": {
+                  "levelId": { "type": "string", "minLength": 1, "description": "ID of the level the link leads to" },
+                  "x": { "type": "integer", "minimum": 0 },
+                  "y": { "type": "integer", "minimum": 0 }
+                }
+              }
+            }
+          }
         },
 
         "terrainConfigs": {
@@ -254,7 +518,7 @@ export const LEVEL_SCHEMA = {
 
         "positions": {
           "type": "object",
-          "description": "Additional positioning data (currently unused)"
+          "description": "Additional positioning data; layered map data lives in layers"
         }
       }
     }
@@ -276,10 +540,12 @@ export const VALIDATION_RULES = {
   ],
 
   "structure": [
-    "Map must have proper dimensions",
-    "Terrain must be a 25x25 array",
+    `Map dimensions must be between ${MAP_DIMENSION_LIMITS.min} and ${MAP_DIMENSION_LIMITS.max} per side`,
+    "Terrain must be a height x width array matching map dimensions",
     "All terrain types must have configurations",
     "Spawn points must be within map bounds",
+    "Interactive objects and narrative elements must be within map bounds",
+    "Floor links must be reachable and lead to a walkable square on another floor of the set",
     "Settings must have valid ranges"
   ],
 
@@ -293,7 +559,7 @@ export const VALIDATION_RULES = {
 };
 
 /**
- * Example of a valid level structure
+ * Example of a valid level structure: a 25x25 room walled in on every side
  */
 export const VALID_LEVEL_EXAMPLE = {
   "id": "bandit-hideout",
@@ -309,12 +575,17 @@ export const VALID_LEVEL_EXAMPLE = {
   "startingActors": [], // Empty for manual placement
   "playerSpawnPoints": [{"x": 2, "y": 2}],
   "environmentalEffects": [{"id": "cave-darkness", "type": "lighting"}],
-  "objectives": ["Explore the area", "Survive the environment"],
+  "objectives": [
+    {"id": "explore-area", "type": "explore", "description": "Explore the area"},
+    {"id": "survive-environment", "type": "survive", "description": "Survive the environment", "optional": true}
+  ],
   "settings": {"allowRespawn": false, "timeLimit": 90, "maxPlayers": 6},
   "metadata": {"seed": 12345, "algorithm": "bsp", "compressedSize": 67.2, "generationTime": 6},
   "map": {
     "dimensions": {"width": 25, "height": 25},
-    "terrain": [["wall", "wall", ...]], // 25x25 array
+    "terrain": Array.from({ length: 25 }, (_, y) =>
+      Array.from({ length: 25 }, (_, x) => x === 0 || y === 0 || x === 24 || y === 24 ? "wall" : "empty")
+    ),
     "terrainConfigs": {
       "wall": {"id": "wall", "name": "Wall", "blocksMovement": true, "blocksLineOfSight": true, "movementCost": 0, "displayGlyph": "#", "description": "Solid stone wall"},
       "empty": {"id": "empty", "name": "Empty", "blocksMovement": false, "blocksLineOfSight": false, "movementCost": 1, "displayGlyph": " ", "description": "Open ground"}
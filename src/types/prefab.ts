@@ -0,0 +1,528 @@
+/**
+ * Prefab Vault Library for FOURE VTT Level Generator
+ *
+ * Hand-authored vaults (shrines, throne rooms, guard posts, bridges over chasms)
+ * stored as small terrain snippets with the anchor squares where they open onto
+ * the rest of the map. The terrain generator stamps them, rotated and mirrored,
+ * into BSP rooms and cellular caves. Designers add their own from JSON files.
+ */
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { GridPosition, TerrainRegistry } from './terrain.js';
+
+/**
+ * Side of a prefab an anchor opens onto
+ */
+export type PrefabDirection = 'north' | 'east' | 'south' | 'west';
+
+export const PREFAB_DIRECTIONS: PrefabDirection[] = ['north', 'east', 'south', 'west'];
+
+/**
+ * Where a prefab may be stamped
+ * - room: inside a BSP room, with a ring of open floor left around it
+ * - cave: carved into rock wherever every anchor opens onto open ground
+ */
+export type PrefabPlacement = 'room' | 'cave';
+
+export const PREFAB_PLACEMENTS: PrefabPlacement[] = ['room', 'cave'];
+
+/**
+ * Clockwise rotation in degrees
+ */
+export type PrefabRotation = 0 | 90 | 180 | 270;
+
+/**
+ * A connection point on a prefab's edge; the square beyond it in its direction
+ * is kept walkable so the vault joins the map
+ */
+export interface PrefabAnchor {
+  readonly x: number;
+  readonly y: number;
+  readonly direction: PrefabDirection;
+}
+
+/**
+ * A hand-authored vault, as stored in a prefab JSON file
+ */
+export interface PrefabDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string;
+  /** Terrain snippet, one glyph per square; every row the same length */
+  readonly rows: string[];
+  /** Glyph → terrain ID, or null to keep the terrain underneath; extends DEFAULT_PREFAB_LEGEND */
+  readonly legend?: Record<string, string | null>;
+  readonly anchors: PrefabAnchor[];
+  readonly placement: PrefabPlacement[];
+  readonly tags?: string[];
+  /** Themes the prefab suits; any theme when omitted */
+  readonly themes?: string[];
+  /** Whether the prefab may be turned; defaults to true */
+  readonly rotatable?: boolean;
+  /** Whether the prefab may be flipped; defaults to true */
+  readonly mirrorable?: boolean;
+}
+
+/**
+ * A prefab resolved to terrain in one orientation
+ */
+export interface PrefabVariant {
+  readonly prefab: string;
+  readonly rotation: PrefabRotation;
+  readonly mirrored: boolean;
+  readonly width: number;
+  readonly height: number;
+  /** Terrain per square, or null to keep what is underneath */
+  readonly cells: Array<Array<string | null>>;
+  readonly anchors: PrefabAnchor[];
+}
+
+/**
+ * A prefab stamped into a generated map, as stored in a level's map.vaults
+ */
+export interface VaultPlacement {
+  readonly id: string;
+  readonly prefab: string;
+  /** Top-left square of the stamped footprint */
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+  readonly rotation: PrefabRotation;
+  readonly mirrored: boolean;
+  /** Anchors in map coordinates */
+  readonly anchors: PrefabAnchor[];
+  /** Room graph ID of the room holding the vault, for room placements */
+  readonly roomId?: string;
+}
+
+/**
+ * Glyphs every prefab understands without declaring them
+ */
+export const DEFAULT_PREFAB_LEGEND: Readonly<Record<string, string | null>> = {
+  ' ': null,
+  '.': 'empty',
+  '#': 'wall',
+  '^': 'difficult',
+  '~': 'water',
+  '=': 'bridge',
+  'C': 'chasm',
+  'A': 'altar',
+  'R': 'ruins',
+  '+': 'door'
+};
+
+/**
+ * Offset to the square beyond an anchor
+ */
+export const PREFAB_DIRECTION_OFFSETS: Readonly<Record<PrefabDirection, readonly [number, number]>> = {
+  north: [0, -1],
+  east: [1, 0],
+  south: [0, 1],
+  west: [-1, 0]
+};
+
+const BUILT_IN_PREFABS: PrefabDefinition[] = [
+  {
+    id: 'shrine',
+    name: 'Wayside Shrine',
+    description: 'An altar walled on four sides, open at each compass point',
+    rows: [
+      '##.##',
+      '#...#',
+      '..A..',
+      '#...#',
+      '##.##'
+    ],
+    anchors: [
+      { x: 2, y: 0, direction: 'north' },
+      { x: 4, y: 2, direction: 'east' },
+      { x: 2, y: 4, direction: 'south' },
+      { x: 0, y: 2, direction: 'west' }
+    ],
+    placement: ['room', 'cave'],
+    tags: ['shrine', 'holy'],
+    rotatable: false,
+    mirrorable: false
+  },
+  {
+    id: 'throne-room',
+    name: 'Throne Room',
+    description: 'A pillared hall with a raised throne facing its only entrance',
+    rows: [
+      '#######',
+      '#R.A.R#',
+      '#.....#',
+      '#R...R#',
+      '#.....#',
+      '###.###'
+    ],
+    anchors: [{ x: 3, y: 5, direction: 'south' }],
+    placement: ['room', 'cave'],
+    tags: ['throne', 'lair']
+  },
+  {
+    id: 'guard-post',
+    name: 'Guard Post',
+    description: 'A walled checkpoint with a barricade between its two gates',
+    rows: [
+      '##.##',
+      '#...#',
+      '#^.^#',
+      '#...#',
+      '##.##'
+    ],
+    anchors: [
+      { x: 2, y: 0, direction: 'north' },
+      { x: 2, y: 4, direction: 'south' }
+    ],
+    placement: ['room', 'cave'],
+    tags: ['guard', 'military'],
+    mirrorable: false
+  },
+  {
+    id: 'chasm-bridge',
+    name: 'Bridge over a Chasm',
+    description: 'A narrow bridge spanning a sheer drop',
+    rows: [
+      ' CCCCC ',
+      ' CCCCC ',
+      '.=====.',
+      ' CCCCC ',
+      ' CCCCC '
+    ],
+    anchors: [
+      { x: 0, y: 2, direction: 'west' },
+      { x: 6, y: 2, direction: 'east' }
+    ],
+    placement: ['room', 'cave'],
+    tags: ['bridge', 'hazard'],
+    mirrorable: false
+  }
+];
+
+/**
+ * Registry of prefab vaults.
+ * Starts with the built-in prefabs; prefab files and directories add to it.
+ */
+export class PrefabRegistry {
+  /**
+   * Registry consulted by the terrain generator
+   */
+  static readonly default = new PrefabRegistry();
+
+  private prefabs = new Map<string, PrefabDefinition>();
+  private terrain: TerrainRegistry;
+
+  /**
+   * @param terrain - Terrain registry the prefabs' legends must resolve against
+   */
+  constructor(terrain: TerrainRegistry = TerrainRegistry.default) {
+    this.terrain = terrain;
+    BUILT_IN_PREFABS.forEach(prefab => this.prefabs.set(prefab.id, prefab));
+  }
+
+  /**
+   * A separate registry holding every prefab registered here so far
+   *
+   * @param terrain - Terrain registry for the copy, e.g. a copy of this one's
+   */
+  copy(terrain: TerrainRegistry): PrefabRegistry {
+    const copy = new PrefabRegistry(terrain);
+    copy.prefabs = new Map(this.prefabs);
+    return copy;
+  }
+
+  /**
+   * Get a prefab definition by ID
+   */
+  get(id: string): PrefabDefinition | undefined {
+    return this.prefabs.get(id);
+  }
+
+  /**
+   * Check whether a prefab ID is registered
+   */
+  has(id: string): boolean {
+    return this.prefabs.has(id);
+  }
+
+  /**
+   * IDs of every registered prefab, built-in prefabs first
+   */
+  getIds(): string[] {
+    return [...this.prefabs.keys()];
+  }
+
+  /**
+   * All registered prefab definitions, built-in prefabs first
+   */
+  getAll(): PrefabDefinition[] {
+    return [...this.prefabs.values()];
+  }
+
+  /**
+   * Add a prefab. The whole definition is checked first and nothing is registered
+   * if any part is invalid; its terrain must already be known to the terrain registry.
+   */
+  register(prefab: PrefabDefinition): void {
+    if (!prefab || typeof prefab !== 'object' || typeof prefab.id !== 'string' || !/^[a-z0-9-]+$/.test(prefab.id)) {
+      throw new Error('Prefab must be an object whose "id" uses only lowercase letters, numbers, and hyphens');
+    }
+    if (this.prefabs.has(prefab.id)) {
+      throw new Error(`Prefab '${prefab.id}' is already defined`);
+    }
+
+    const problems = this.checkPrefab(prefab);
+    if (problems.length > 0) {
+      throw new Error(`Prefab '${prefab.id}' is invalid:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    this.prefabs.set(prefab.id, prefab);
+  }
+
+  /**
+   * Load a prefab, or an array of prefabs, from a JSON file
+   */
+  loadPrefabFile(filepath: string): PrefabDefinition[] {
+    const content: PrefabDefinition | PrefabDefinition[] = JSON.parse(readFileSync(filepath, 'utf8'));
+    const prefabs = Array.isArray(content) ? content : [content];
+    prefabs.forEach(prefab => this.register(prefab));
+    return prefabs;
+  }
+
+  /**
+   * Load every .json prefab file in a directory, in filename order
+   */
+  loadPrefabDirectory(dirpath: string): PrefabDefinition[] {
+    const files = readdirSync(dirpath)
+      .filter(file => extname(file).toLowerCase() === '.json')
+      .sort();
+
+    return files.flatMap(file => {
+      try {
+        return this.loadPrefabFile(join(dirpath, file));
+      } catch (error) {
+        throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Every distinct orientation a prefab may be stamped in: up to four rotations,
+   * each optionally mirrored left to right before turning
+   */
+  getVariants(id: string): PrefabVariant[] {
+    const prefab = this.getPrefab(id);
+    const base = PrefabRegistry.unturned(prefab);
+
+    const rotations: PrefabRotation[] = prefab.rotatable === false ? [0] : [0, 90, 180, 270];
+    const starts = prefab.mirrorable === false ? [base] : [base, PrefabRegistry.mirror(base)];
+    const variants: PrefabVariant[] = [];
+    const seen = new Set<string>();
+
+    for (const start of starts) {
+      for (const rotation of rotations) {
+        const variant = PrefabRegistry.rotate(start, rotation);
+        // Symmetric prefabs turn into themselves; keep one copy of each footprint
+        const key = JSON.stringify([variant.cells, variant.anchors]);
+        if (!seen.has(key)) {
+          seen.add(key);
+          variants.push(variant);
+        }
+      }
+    }
+
+    return variants;
+  }
+
+  /**
+   * A prefab in one orientation: mirrored left to right first if asked, then turned
+   */
+  getVariant(id: string, rotation: PrefabRotation = 0, mirrored: boolean = false): PrefabVariant {
+    const prefab = this.getPrefab(id);
+    if (rotation !== 0 && prefab.rotatable === false) {
+      throw new Error(`Prefab '${id}' cannot be rotated`);
+    }
+    if (mirrored && prefab.mirrorable === false) {
+      throw new Error(`Prefab '${id}' cannot be mirrored`);
+    }
+
+    const base = PrefabRegistry.unturned(prefab);
+    return PrefabRegistry.rotate(mirrored ? PrefabRegistry.mirror(base) : base, rotation);
+  }
+
+  /**
+   * Square just beyond an anchor, where the vault meets the rest of the map
+   */
+  static getAnchorExit(anchor: PrefabAnchor): GridPosition {
+    const [dx, dy] = PREFAB_DIRECTION_OFFSETS[anchor.direction];
+    return { x: anchor.x + dx, y: anchor.y + dy };
+  }
+
+  private getPrefab(id: string): PrefabDefinition {
+    const prefab = this.prefabs.get(id);
+    if (!prefab) {
+      throw new Error(`Unknown prefab '${id}'; registered prefabs: ${this.getIds().join(', ')}`);
+    }
+    return prefab;
+  }
+
+  /**
+   * A prefab's terrain as written in its definition
+   */
+  private static unturned(prefab: PrefabDefinition): PrefabVariant {
+    const legend = { ...DEFAULT_PREFAB_LEGEND, ...prefab.legend };
+    return {
+      prefab: prefab.id,
+      rotation: 0,
+      mirrored: false,
+      width: prefab.rows[0].length,
+      height: prefab.rows.length,
+      cells: prefab.rows.map(row => [...row].map(glyph => legend[glyph] ?? null)),
+      anchors: prefab.anchors.map(anchor => ({ ...anchor }))
+    };
+  }
+
+  /**
+   * Flip a variant left to right
+   */
+  private static mirror(variant: PrefabVariant): PrefabVariant {
+    const flip: Partial<Record<PrefabDirection, PrefabDirection>> = { east: 'west', west: 'east' };
+    return {
+      ...variant,
+      mirrored: !variant.mirrored,
+      cells: variant.cells.map(row => [...row].reverse()),
+      anchors: variant.anchors.map(anchor => ({
+        x: variant.width - 1 - anchor.x,
+        y: anchor.y,
+        direction: flip[anchor.direction] ?? anchor.direction
+      }))
+    };
+  }
+
+  /**
+   * Turn a variant clockwise by a multiple of 90 degrees
+   */
+  private static rotate(variant: PrefabVariant, rotation: PrefabRotation): PrefabVariant {
+    let turned = variant;
+
+    for (let quarter = 0; quarter < rotation / 90; quarter++) {
+      const { width, height, cells } = turned;
+      turned = {
+        ...turned,
+        width: height,
+        height: width,
+        // Clockwise: the left column becomes the top row
+        cells: Array(width).fill(null).map((_, y) =>
+          Array(height).fill(null).map((_, x) => cells[height - 1 - x][y])
+        ),
+        anchors: turned.anchors.map(anchor => ({
+          x: height - 1 - anchor.y,
+          y: anchor.x,
+          direction: PREFAB_DIRECTIONS[(PREFAB_DIRECTIONS.indexOf(anchor.direction) + 1) % 4]
+        }))
+      };
+    }
+
+    return { ...turned, rotation };
+  }
+
+  /**
+   * Collect every problem with a prefab definition
+   */
+  private checkPrefab(prefab: PrefabDefinition): string[] {
+    const problems: string[] = [];
+    const isText = (value: unknown): boolean => typeof value === 'string' && value.trim() !== '';
+
+    if (!isText(prefab.name)) {
+      problems.push('name must be a non-empty string');
+    }
+    if (prefab.description !== undefined && !isText(prefab.description)) {
+      problems.push('description must be a non-empty string');
+    }
+    for (const key of ['tags', 'themes'] as const) {
+      if (prefab[key] !== undefined && (!Array.isArray(prefab[key]) || !prefab[key]!.every(isText))) {
+        problems.push(`${key} must be an array of non-empty strings`);
+      }
+    }
+    for (const key of ['rotatable', 'mirrorable'] as const) {
+      if (prefab[key] !== undefined && typeof prefab[key] !== 'boolean') {
+        problems.push(`${key} must be a boolean`);
+      }
+    }
+
+    if (!Array.isArray(prefab.placement) || prefab.placement.length === 0 ||
+        !prefab.placement.every(placement => PREFAB_PLACEMENTS.includes(placement))) {
+      problems.push(`placement must be a non-empty array of: ${PREFAB_PLACEMENTS.join(', ')}`);
+    }
+
+    const legend: Record<string, string | null> = { ...DEFAULT_PREFAB_LEGEND };
+    if (prefab.legend !== undefined) {
+      if (!prefab.legend || typeof prefab.legend !== 'object' || Array.isArray(prefab.legend)) {
+        problems.push('legend must be an object of glyph → terrain ID or null');
+      } else {
+        Object.entries(prefab.legend).forEach(([glyph, terrain]) => {
+          if ([...glyph].length !== 1) {
+            problems.push(`legend: '${glyph}' must be a single character`);
+          } else if (terrain !== null && !this.terrain.has(terrain)) {
+            problems.push(`legend.${glyph}: unknown terrain '${terrain}'`);
+          }
+          legend[glyph] = terrain;
+        });
+      }
+    }
+
+    const rows = prefab.rows;
+    if (!Array.isArray(rows) || rows.length === 0 || !rows.every(row => typeof row === 'string' && row.length > 0)) {
+      problems.push('rows must be a non-empty array of non-empty strings');
+      return problems;
+    }
+
+    const width = rows[0].length;
+    rows.forEach((row, y) => {
+      if (row.length !== width) {
+        problems.push(`rows[${y}] is ${row.length} squares wide; expected ${width}`);
+      }
+      [...new Set(row)].filter(glyph => !(glyph in legend)).forEach(glyph => {
+        problems.push(`rows[${y}]: glyph '${glyph}' is not in the legend`);
+      });
+    });
+
+    if (!Array.isArray(prefab.anchors) || prefab.anchors.length === 0) {
+      problems.push('anchors must be a non-empty array');
+      return problems;
+    }
+
+    prefab.anchors.forEach((anchor, i) => {
+      const label = `anchors[${i}]`;
+      if (!anchor || !Number.isInteger(anchor.x) || !Number.isInteger(anchor.y) ||
+          anchor.x < 0 || anchor.y < 0 || anchor.x >= width || anchor.y >= rows.length) {
+        problems.push(`${label} must be a square inside the prefab`);
+        return;
+      }
+      if (!PREFAB_DIRECTIONS.includes(anchor.direction)) {
+        problems.push(`${label}.direction must be one of: ${PREFAB_DIRECTIONS.join(', ')}`);
+        return;
+      }
+
+      const onEdge = {
+        north: anchor.y === 0,
+        east: anchor.x === width - 1,
+        south: anchor.y === rows.length - 1,
+        west: anchor.x === 0
+      }[anchor.direction];
+      if (!onEdge) {
+        problems.push(`${label} must lie on the prefab's ${anchor.direction} edge`);
+      }
+
+      const terrain = legend[rows[anchor.y][anchor.x]];
+      if (terrain === null || terrain === undefined || this.terrain.get(terrain)?.blocksMovement !== false) {
+        problems.push(`${label} must be a walkable square`);
+      }
+    });
+
+    return problems;
+  }
+}
@@ -5,6 +5,8 @@
  * gameplay properties, and categorization for procedural generation.
  */
 
+import { readFileSync } from 'node:fs';
+
 export interface TerrainConfig {
   readonly id: string;
   readonly name: string;
@@ -28,7 +30,8 @@ export enum TerrainCategory {
 
 /**
  * Core Terrain Types
- * Each type has a unique UTF-8 symbol for visual representation
+ * Each type has a unique UTF-8 symbol for visual representation.
+ * These are the built-in types; look terrain up through TerrainRegistry so custom packs are included.
  */
 export const TERRAIN_TYPES: Record<string, TerrainConfig> = {
   // Open Ground - Basic traversable terrain
@@ -194,6 +197,74 @@ export const TERRAIN_TYPES: Record<string, TerrainConfig> = {
     category: TerrainCategory.STRUCTURAL
   },
 
+  // Overland Routes - lines that continue from one world tile into the next
+  road: {
+    id: 'road',
+    name: 'Road',
+    displayGlyph: '·',
+    blocksMovement: false,
+    blocksLineOfSight: false,
+    movementCost: 1,
+    description: 'Packed dirt road',
+    category: TerrainCategory.OPEN
+  },
+
+  cliff: {
+    id: 'cliff',
+    name: 'Cliff',
+    displayGlyph: '▓',
+    blocksMovement: true,
+    blocksLineOfSight: true,
+    movementCost: 0,
+    description: 'Sheer rock face',
+    category: TerrainCategory.STRUCTURAL
+  },
+
+  // Doors - passable squares whose open/closed/locked state lives in map.doors
+  door: {
+    id: 'door',
+    name: 'Door',
+    displayGlyph: '+',
+    blocksMovement: false,
+    blocksLineOfSight: true,
+    movementCost: 1,
+    description: 'Heavy wooden door',
+    category: TerrainCategory.STRUCTURAL
+  },
+
+  'locked-door': {
+    id: 'locked-door',
+    name: 'Locked Door',
+    displayGlyph: '⊞',
+    blocksMovement: false,
+    blocksLineOfSight: true,
+    movementCost: 1,
+    description: 'Iron-banded door with a sturdy lock',
+    category: TerrainCategory.STRUCTURAL
+  },
+
+  portcullis: {
+    id: 'portcullis',
+    name: 'Portcullis',
+    displayGlyph: '╫',
+    blocksMovement: false,
+    blocksLineOfSight: false,
+    movementCost: 1,
+    description: 'Iron grate raised and lowered by a winch',
+    category: TerrainCategory.STRUCTURAL
+  },
+
+  'secret-door': {
+    id: 'secret-door',
+    name: 'Secret Door',
+    displayGlyph: '§',
+    blocksMovement: false,
+    blocksLineOfSight: true,
+    movementCost: 1,
+    description: 'Door disguised as part of the wall',
+    category: TerrainCategory.STRUCTURAL
+  },
+
   // Magical Elements
   portal: {
     id: 'portal',
@@ -206,6 +277,40 @@ export const TERRAIN_TYPES: Record<string, TerrainConfig> = {
     category: TerrainCategory.INTERACTIVE
   },
 
+  // Floor Links - squares leading to another floor of a dungeon set, listed in map.links
+  'stairs-down': {
+    id: 'stairs-down',
+    name: 'Stairs Down',
+    displayGlyph: '>',
+    blocksMovement: false,
+    blocksLineOfSight: false,
+    movementCost: 1,
+    description: 'Stone steps leading to the floor below',
+    category: TerrainCategory.INTERACTIVE
+  },
+
+  'stairs-up': {
+    id: 'stairs-up',
+    name: 'Stairs Up',
+    displayGlyph: '<',
+    blocksMovement: false,
+    blocksLineOfSight: false,
+    movementCost: 1,
+    description: 'Stone steps leading to the floor above',
+    category: TerrainCategory.INTERACTIVE
+  },
+
+  ladder: {
+    id: 'ladder',
+    name: 'Ladder',
+    displayGlyph: 'H',
+    blocksMovement: false,
+    blocksLineOfSight: false,
+    movementCost: 2,
+    description: 'Rickety ladder through a hole in the floor',
+    category: TerrainCategory.INTERACTIVE
+  },
+
   // Urban Elements
   rubble: {
     id: 'rubble',
@@ -236,15 +341,15 @@ export const TERRAIN_TYPES: Record<string, TerrainConfig> = {
  */
 export const TERRAIN_PALETTES = {
   dungeon: [
-    'empty', 'wall', 'pit', 'water', 'difficult', 'ruins', 'crystal', 'altar'
+    'empty', 'wall', 'pit', 'water', 'difficult', 'ruins', 'crystal', 'altar', 'chasm', 'bridge', 'lava'
   ],
 
   wilderness: [
-    'empty', 'difficult', 'trees', 'water', 'pit', 'chasm', 'bridge', 'rubble'
+    'empty', 'difficult', 'trees', 'water', 'pit', 'chasm', 'bridge', 'rubble', 'ice', 'road', 'cliff'
   ],
 
   underground: [
-    'empty', 'wall', 'stalagmite', 'water', 'difficult', 'crystal', 'portal', 'altar'
+    'empty', 'wall', 'stalagmite', 'water', 'difficult', 'crystal', 'portal', 'altar', 'chasm', 'bridge', 'lava'
   ],
 
   urban: [
@@ -256,6 +361,250 @@ export const TERRAIN_PALETTES = {
   ]
 };
 
+/**
+ * Terrain scattered as features across open floor, per theme
+ */
+export const THEME_FEATURES: Record<keyof typeof TERRAIN_PALETTES, string[]> = {
+  dungeon: ['pit', 'water', 'difficult', 'altar'],
+  wilderness: ['difficult', 'trees', 'water', 'pit'],
+  underground: ['crystal', 'water', 'difficult', 'stalagmite'],
+  urban: ['rubble', 'water', 'pit', 'difficult'],
+  mystical: ['crystal', 'portal', 'altar', 'mushrooms']
+};
+
+/**
+ * Features used for a theme without its own feature list
+ */
+const FALLBACK_FEATURES = ['difficult', 'water'];
+
+/**
+ * A feature terrain and its relative chance of being picked
+ */
+export interface ThemeFeature {
+  readonly terrain: string;
+  readonly weight: number;
+}
+
+/**
+ * A JSON terrain pack adding custom terrain types to the registry
+ */
+export interface TerrainPack {
+  readonly id: string;
+  readonly name?: string;
+  readonly terrain?: TerrainConfig[];
+  /** Terrain IDs appended to each theme's palette */
+  readonly palettes?: Record<string, string[]>;
+  /** Terrain IDs appended to each theme's scattered features, with weight 1 */
+  readonly features?: Record<string, string[]>;
+}
+
+/**
+ * Registry of terrain types, theme palettes and theme features.
+ * Starts with the built-in terrain; terrain packs add to it.
+ */
+export class TerrainRegistry {
+  /**
+   * Registry consulted by TerrainUtils, the generators and the renderer
+   */
+  static readonly default = new TerrainRegistry();
+
+  private terrain = new Map<string, TerrainConfig>();
+  private sources = new Map<string, string>();
+  private palettes = new Map<string, string[]>();
+  private features = new Map<string, ThemeFeature[]>();
+  private packs: string[] = [];
+
+  constructor() {
+    Object.values(TERRAIN_TYPES).forEach(config => {
+      this.terrain.set(config.id, config);
+      this.sources.set(config.id, 'built-in');
+    });
+    Object.entries(TERRAIN_PALETTES).forEach(([theme, ids]) => this.palettes.set(theme, [...ids]));
+    Object.entries(THEME_FEATURES).forEach(([theme, ids]) => {
+      this.features.set(theme, ids.map(terrain => ({ terrain, weight: 1 })));
+    });
+  }
+
+  /**
+   * A separate registry holding everything registered here so far, for trying out
+   * additions without touching this one
+   */
+  copy(): TerrainRegistry {
+    const copy = new TerrainRegistry();
+    copy.terrain = new Map(this.terrain);
+    copy.sources = new Map(this.sources);
+    copy.palettes = new Map(this.palettes);
+    copy.features = new Map(this.features);
+    copy.packs = [...this.packs];
+    return copy;
+  }
+
+  /**
+   * Get terrain config by ID
+   */
+  get(id: string): TerrainConfig | undefined {
+    return this.terrain.get(id);
+  }
+
+  /**
+   * Check whether a terrain ID is registered
+   */
+  has(id: string): boolean {
+    return this.terrain.has(id);
+  }
+
+  /**
+   * All registered terrain, built-in types first
+   */
+  getAll(): TerrainConfig[] {
+    return [...this.terrain.values()];
+  }
+
+  /**
+   * Terrain IDs in a theme's palette
+   */
+  getPalette(theme: string): string[] {
+    return [...(this.palettes.get(theme) || [])];
+  }
+
+  /**
+   * Weighted terrain scattered as features for a theme
+   */
+  getFeatures(theme: string): ThemeFeature[] {
+    return [...(this.features.get(theme) || FALLBACK_FEATURES.map(terrain => ({ terrain, weight: 1 })))];
+  }
+
+  /**
+   * Add the palette and feature weights of a new theme; ThemeRegistry checks them first
+   */
+  registerTheme(theme: string, palette: string[], features: Record<string, number>): void {
+    if (this.palettes.has(theme)) {
+      throw new Error(`Theme '${theme}' already has terrain registered`);
+    }
+
+    this.palettes.set(theme, [...palette]);
+    this.features.set(theme, Object.entries(features).map(([terrain, weight]) => ({ terrain, weight })));
+  }
+
+  /**
+   * IDs of the packs loaded so far, in load order
+   */
+  getPacks(): string[] {
+    return [...this.packs];
+  }
+
+  /**
+   * Add a terrain pack. The whole pack is checked first and nothing is registered
+   * if any entry is invalid or collides with an existing terrain ID or glyph.
+   */
+  registerPack(pack: TerrainPack): void {
+    const problems: string[] = [];
+    const label = typeof pack?.id === 'string' ? `Terrain pack '${pack.id}'` : 'Terrain pack';
+
+    if (!pack || typeof pack !== 'object' || typeof pack.id !== 'string' || pack.id.trim() === '') {
+      throw new Error('Terrain pack must be an object with a non-empty "id"');
+    }
+    if (this.packs.includes(pack.id)) {
+      throw new Error(`${label} is already loaded`);
+    }
+
+    const entries = pack.terrain || [];
+    const glyphs = new Map<string, string>();
+    this.terrain.forEach(config => glyphs.set(config.displayGlyph, config.id));
+
+    entries.forEach((config, i) => {
+      const problem = this.checkTerrainConfig(config);
+      if (problem) {
+        problems.push(`terrain[${i}]: ${problem}`);
+        return;
+      }
+
+      const existing = this.sources.get(config.id);
+      if (existing || entries.slice(0, i).some(other => other?.id === config.id)) {
+        problems.push(`terrain[${i}]: ID '${config.id}' is already defined${existing ? ` (${existing})` : ' in this pack'}`);
+      }
+
+      const glyphOwner = glyphs.get(config.displayGlyph);
+      if (glyphOwner) {
+        problems.push(`terrain[${i}]: glyph '${config.displayGlyph}' of '${config.id}' is already used by '${glyphOwner}'`);
+      } else {
+        glyphs.set(config.displayGlyph, config.id);
+      }
+    });
+
+    // Palettes and features may reference built-in terrain or terrain from this pack
+    const known = (id: string): boolean => this.terrain.has(id) || entries.some(config => config?.id === id);
+    for (const key of ['palettes', 'features'] as const) {
+      Object.entries(pack[key] || {}).forEach(([theme, ids]) => {
+        if (!this.palettes.has(theme)) {
+          problems.push(`${key}.${theme}: unknown theme`);
+        } else if (!Array.isArray(ids)) {
+          problems.push(`${key}.${theme}: must be an array of terrain IDs`);
+        } else {
+          ids.filter(id => !known(id)).forEach(id => problems.push(`${key}.${theme}: unknown terrain '${id}'`));
+        }
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`${label} is invalid:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    entries.forEach(config => {
+      this.terrain.set(config.id, { ...config });
+      this.sources.set(config.id, `pack '${pack.id}'`);
+    });
+    Object.entries(pack.palettes || {}).forEach(([theme, ids]) => {
+      const current = this.palettes.get(theme) || [];
+      this.palettes.set(theme, [...current, ...ids.filter(id => !current.includes(id))]);
+    });
+    Object.entries(pack.features || {}).forEach(([theme, ids]) => {
+      const current = this.features.get(theme) || [];
+      const added = ids.filter(id => !current.some(feature => feature.terrain === id));
+      this.features.set(theme, [...current, ...added.map(terrain => ({ terrain, weight: 1 }))]);
+    });
+    this.packs.push(pack.id);
+  }
+
+  /**
+   * Load a terrain pack from a JSON file
+   */
+  loadPackFile(filepath: string): TerrainPack {
+    const pack: TerrainPack = JSON.parse(readFileSync(filepath, 'utf8'));
+    this.registerPack(pack);
+    return pack;
+  }
+
+  /**
+   * Describe what is wrong with a terrain config, if anything
+   */
+  private checkTerrainConfig(config: TerrainConfig): string | null {
+    if (!config || typeof config !== 'object') {
+      return 'must be an object';
+    }
+    if (typeof config.id !== 'string' || !/^[a-z0-9-]+$/.test(config.id)) {
+      return 'id must use only lowercase letters, numbers, and hyphens';
+    }
+
+    const stringFields = ['name', 'displayGlyph', 'description'] as const;
+    const missing = stringFields.find(field => typeof config[field] !== 'string' || config[field] === '');
+    if (missing) {
+      return `'${config.id}' field '${missing}' must be a non-empty string`;
+    }
+    if (typeof config.blocksMovement !== 'boolean' || typeof config.blocksLineOfSight !== 'boolean') {
+      return `'${config.id}' fields 'blocksMovement' and 'blocksLineOfSight' must be booleans`;
+    }
+    if (!Number.isInteger(config.movementCost) || config.movementCost < 0) {
+      return `'${config.id}' field 'movementCost' must be a non-negative integer`;
+    }
+    if (!Object.values(TerrainCategory).includes(config.category)) {
+      return `'${config.id}' category must be one of: ${Object.values(TerrainCategory).join(', ')}`;
+    }
+
+    return null;
+  }
+}
+
 /**
  * Utility functions for terrain operations
  */
@@ -264,21 +613,21 @@ export class TerrainUtils {
    * Get terrain config by ID
    */
   static getTerrain(id: string): TerrainConfig | undefined {
-    return TERRAIN_TYPES[id];
+    return TerrainRegistry.default.get(id);
   }
 
   /**
    * Get all terrain types for a specific category
    */
   static getTerrainByCategory(category: TerrainCategory): TerrainConfig[] {
-    return Object.values(TERRAIN_TYPES).filter(terrain => terrain.category === category);
+    return TerrainRegistry.default.getAll().filter(terrain => terrain.category === category);
   }
 
   /**
    * Get terrain types for a specific theme
    */
-  static getTerrainForTheme(theme: keyof typeof TERRAIN_PALETTES): string[] {
-    return TERRAIN_PALETTES[theme];
+  static getTerrainForTheme(theme: string): string[] {
+    return TerrainRegistry.default.getPalette(theme);
   }
 
   /**
@@ -317,10 +666,77 @@ export class TerrainUtils {
    * Validate terrain ID exists
    */
   static isValidTerrain(terrainId: string): boolean {
-    return terrainId in TERRAIN_TYPES;
+    return TerrainRegistry.default.has(terrainId);
   }
+
+  /**
+   * Check if map dimensions fall within the supported range
+   */
+  static isValidDimensions(width: number, height: number): boolean {
+    const { min, max } = MAP_DIMENSION_LIMITS;
+    return Number.isInteger(width) && Number.isInteger(height) &&
+      width >= min && width <= max && height >= min && height <= max;
+  }
+}
+
+/**
+ * Map dimensions in grid squares
+ */
+export interface MapDimensions {
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Grid square coordinates (x = column, y = row)
+ */
+export interface GridPosition {
+  readonly x: number;
+  readonly y: number;
+}
+
+/**
+ * Sides of a map, named by compass direction with north at row 0
+ */
+export const MAP_SIDES = ['north', 'east', 'south', 'west'] as const;
+
+export type MapSide = typeof MAP_SIDES[number];
+
+/**
+ * Terrain along the outermost row or column of one or more sides of a map: north and
+ * south run west to east, east and west run north to south
+ */
+export type MapEdges = Partial<Record<MapSide, string[]>>;
+
+/**
+ * A tile of an overworld: its coordinates in the world grid (y grows southward) and
+ * the seed shared by every tile of the world
+ */
+export interface WorldTile {
+  readonly seed: number;
+  readonly x: number;
+  readonly y: number;
 }
 
+/**
+ * Supported map dimension range (applies to width and height independently)
+ */
+export const MAP_DIMENSION_LIMITS = {
+  min: 10,
+  max: 200,
+  defaultWidth: 25,
+  defaultHeight: 25
+} as const;
+
+/**
+ * Supported elevation range, in levels relative to the ground (0).
+ * Neighbouring squares one level apart form a ledge; two or more apart, a cliff.
+ */
+export const ELEVATION_LIMITS = {
+  min: -3,
+  max: 3
+} as const;
+
 /**
  * Map cell representation combining terrain with dynamic properties
  */
@@ -331,11 +747,82 @@ export interface MapCell {
   readonly objects?: string[];
 }
 
+/**
+ * A feature placed over base terrain, such as a pit dug into a floor.
+ * The effective terrain of the square is the feature; the base lies beneath it.
+ */
+export interface MapFeature {
+  readonly x: number;
+  readonly y: number;
+  readonly terrain: string;
+  readonly base: string;
+}
+
+/**
+ * Door terrain types
+ */
+export const DOOR_TYPES = ['door', 'locked-door', 'portcullis', 'secret-door'] as const;
+
+export type DoorType = typeof DOOR_TYPES[number];
+
+/**
+ * Whether a door currently lets creatures through
+ */
+export type DoorState = 'open' | 'closed' | 'locked';
+
+/**
+ * A door on the map. The square's terrain is the door type; the state is tracked here.
+ */
+export interface Door {
+  readonly id: string;
+  readonly x: number;
+  readonly y: number;
+  readonly type: DoorType;
+  readonly state: DoorState;
+  /** Perception DC to notice a secret door */
+  readonly findDC?: number;
+  /** Thievery DC to pick a locked door */
+  readonly pickDC?: number;
+  /** ID of the interactive object that unlocks the door */
+  readonly keyId?: string;
+}
+
+/**
+ * Terrain types that lead to another floor of a dungeon set
+ */
+export const LINK_TYPES = ['stairs-down', 'stairs-up', 'ladder', 'portal'] as const;
+
+export type LinkType = typeof LINK_TYPES[number];
+
+/**
+ * A square leading to another floor. The square's terrain is the link type; stepping
+ * onto it takes creatures to the target square on the target level.
+ */
+export interface FloorLink {
+  readonly id: string;
+  readonly x: number;
+  readonly y: number;
+  readonly type: LinkType;
+  readonly target: {
+    /** ID of the level the link leads to */
+    readonly levelId: string;
+    readonly x: number;
+    readonly y: number;
+  };
+}
+
+/**
+ * Map layers stored alongside the effective terrain grid
+ */
+export interface MapLayers {
+  readonly features: MapFeature[];
+}
+
 /**
  * Compact representation for map storage
  */
 export interface CompactMapData {
-  readonly dimensions: { width: number; height: number };
+  readonly dimensions: MapDimensions;
   readonly terrainLayer: string[][]; // 2D array of terrain IDs
   readonly metadata: {
     readonly theme: string;
@@ -0,0 +1,818 @@
+/**
+ * Theme Definitions for FOURE VTT Level Generator
+ *
+ * A theme is declared once - terrain palette, feature weights, environmental effects,
+ * interactive objects, narratives, name and description pools, and tags - and every
+ * subsystem reads it from ThemeRegistry.
+ */
+
+import { readFileSync } from 'node:fs';
+import { TERRAIN_PALETTES, THEME_FEATURES, TerrainRegistry } from './terrain.js';
+
+/**
+ * Where a themed element is placed on the map
+ * - first: the first `count` interior squares of a terrain type, in row order
+ * - all: every square of a terrain type, border included, optionally capped at `limit`
+ * - center: the map's central square
+ * - diagonal: a line from the top-left corner towards the bottom-right
+ * - edge: a random square one row in from the top or bottom edge
+ * - peripheral: a random square two columns in from the left or right edge
+ */
+export type ThemePlacement =
+  | { readonly kind: 'first'; readonly terrain: string; readonly count: number }
+  | { readonly kind: 'all'; readonly terrain: string; readonly limit?: number }
+  | { readonly kind: 'center' }
+  | { readonly kind: 'diagonal' }
+  | { readonly kind: 'edge' }
+  | { readonly kind: 'peripheral' };
+
+/**
+ * Environmental effect declared by a theme
+ */
+export interface ThemeEffectTemplate {
+  readonly id: string;
+  readonly name: string;
+  readonly type: 'lighting' | 'zone' | 'global' | 'aura';
+  readonly area: 'global' | ThemePlacement;
+  /** Emit one effect per placed square, with the square's index appended to the ID */
+  readonly perSquare?: boolean;
+  readonly effects: {
+    readonly brightness?: 'bright' | 'dim' | 'dark';
+    readonly concealment?: 'none' | 'partial' | 'total';
+    readonly movementCost?: number;
+    readonly damage?: number;
+    readonly healing?: number;
+    readonly statusEffects?: string[];
+  };
+  readonly description: string;
+}
+
+/**
+ * Interactive object declared by a theme. Placements that yield several squares
+ * create one object per square, with the square's index appended to the ID.
+ */
+export interface ThemeObjectTemplate {
+  readonly id: string;
+  readonly name: string;
+  readonly placement: ThemePlacement;
+  /** Defaults to the placement's terrain, or 'empty' */
+  readonly terrainType?: string;
+  readonly interactions: string[];
+  readonly description: string;
+}
+
+/**
+ * Narrative element declared by a theme, placed on the first square its placement
+ * yields (or the map centre when there is none)
+ */
+export interface ThemeNarrativeTemplate {
+  readonly id: string;
+  readonly type: 'story' | 'hint' | 'warning' | 'objective';
+  readonly placement: ThemePlacement;
+  readonly radius: number;
+  readonly message: string;
+  readonly conditions?: string[];
+}
+
+/**
+ * Step of the cave feature cascade: the square becomes `terrain` when a roll is
+ * below `chance`, otherwise the next step is tried. A step without a chance always applies.
+ */
+export interface ThemeCaveFeature {
+  readonly terrain: string;
+  readonly chance?: number;
+}
+
+/**
+ * Biome the regions algorithm can give a region: ground covering the whole region with
+ * terrain scattered over it
+ */
+export interface ThemeRegionBiome {
+  readonly id: string;
+  /** Relative chance of a region getting this biome */
+  readonly weight: number;
+  /** Terrain covering the region */
+  readonly ground: string;
+  /** Terrain scattered over the ground, as terrain ID → share of squares (together at most 1) */
+  readonly scatter?: Record<string, number>;
+}
+
+/**
+ * Large hazard a theme can add to its maps
+ * - lava-river: a meandering band of lava, bridged where paths cross it
+ * - chasm: a straighter cut of chasm, bridged where paths cross it
+ * - frozen-lake: a ragged patch of open ground and water frozen into ice
+ */
+export type HazardKind = 'lava-river' | 'chasm' | 'frozen-lake';
+
+export const HAZARD_KINDS: HazardKind[] = ['lava-river', 'chasm', 'frozen-lake'];
+
+/**
+ * Hazard declared by a theme, added once a level is difficult enough
+ */
+export interface ThemeHazard {
+  readonly kind: HazardKind;
+  /** Lowest difficulty level the hazard appears at */
+  readonly minDifficulty: number;
+  /** Chance of the hazard appearing at or above that difficulty; always when omitted */
+  readonly chance?: number;
+}
+
+/**
+ * Complete declarative theme definition
+ */
+export interface ThemeDefinition {
+  readonly id: string;
+  readonly name: string;
+  /** Map header used by MapRenderer.renderThemed */
+  readonly banner?: string;
+  /** Terrain IDs available to the theme */
+  readonly palette: string[];
+  /** Terrain scattered across open floor, as terrain ID → relative weight */
+  readonly features: Record<string, number>;
+  /** Features added to cellular caves; none when omitted */
+  readonly caveFeatures?: ThemeCaveFeature[];
+  /** Biomes for the regions algorithm; DEFAULT_REGION_BIOMES when omitted */
+  readonly regions?: ThemeRegionBiome[];
+  /** Hazards added by difficulty, in order; none when omitted */
+  readonly hazards?: ThemeHazard[];
+  readonly effects: ThemeEffectTemplate[];
+  readonly objects: ThemeObjectTemplate[];
+  readonly narratives: ThemeNarrativeTemplate[];
+  /** Level names are "<adjective> <place> #<seed>" */
+  readonly names: {
+    readonly places: string[];
+    readonly adjectives?: string[];
+  };
+  readonly descriptions: string[];
+  /** Tags added to generated levels after 'generated' and the theme ID */
+  readonly tags: string[];
+  /** Tags added to monsters after 'monster' */
+  readonly monsterTags: string[];
+}
+
+/**
+ * Name adjectives used by themes that don't bring their own
+ */
+export const DEFAULT_NAME_ADJECTIVES = [
+  'Forgotten', 'Ancient', 'Haunted', 'Sacred', 'Cursed',
+  'Mysterious', 'Dark', 'Hidden', 'Lost', 'Forbidden'
+];
+
+/**
+ * Wilderness biomes used by the regions algorithm for themes that don't bring their own
+ */
+export const DEFAULT_REGION_BIOMES: ThemeRegionBiome[] = [
+  { id: 'clearing', weight: 3, ground: 'empty', scatter: { trees: 0.04, rubble: 0.01 } },
+  { id: 'thicket', weight: 2, ground: 'empty', scatter: { trees: 0.45, difficult: 0.2 } },
+  { id: 'marsh', weight: 1, ground: 'difficult', scatter: { water: 0.35, trees: 0.03 } },
+  { id: 'ridge', weight: 1, ground: 'difficult', scatter: { rubble: 0.3, trees: 0.05, chasm: 0.02 } }
+];
+
+const PLACEMENT_KINDS = ['first', 'all', 'center', 'diagonal', 'edge', 'peripheral'];
+const EFFECT_TYPES = ['lighting', 'zone', 'global', 'aura'];
+const NARRATIVE_TYPES = ['story', 'hint', 'warning', 'objective'];
+
+/**
+ * Equal weights for a list of feature terrain
+ */
+function evenWeights(ids: string[]): Record<string, number> {
+  return Object.fromEntries(ids.map(id => [id, 1]));
+}
+
+/**
+ * The five themes that ship with the generator
+ */
+export const BUILT_IN_THEMES: ThemeDefinition[] = [
+  {
+    id: 'dungeon',
+    name: 'Dungeon',
+    banner: '🏰 DUNGEON MAP',
+    palette: TERRAIN_PALETTES.dungeon,
+    features: evenWeights(THEME_FEATURES.dungeon),
+    caveFeatures: [
+      { terrain: 'pit', chance: 0.3 },
+      { terrain: 'water', chance: 0.5 },
+      { terrain: 'difficult' }
+    ],
+    hazards: [
+      { kind: 'chasm', minDifficulty: 3, chance: 0.5 },
+      { kind: 'lava-river', minDifficulty: 4 }
+    ],
+    effects: [
+      {
+        id: 'cave-darkness',
+        name: 'Cave Darkness',
+        type: 'lighting',
+        area: 'global',
+        effects: { brightness: 'dim', concealment: 'partial' },
+        description: 'The cave is shrouded in perpetual dimness, providing partial concealment'
+      },
+      {
+        id: 'trap-area',
+        name: 'Suspicious Floor',
+        type: 'zone',
+        area: { kind: 'first', terrain: 'empty', count: 3 },
+        perSquare: true,
+        effects: { statusEffects: ['vulnerable'] },
+        description: 'The floor here looks unstable...'
+      },
+      {
+        id: 'magical-aura',
+        name: 'Magical Residue',
+        type: 'aura',
+        area: { kind: 'first', terrain: 'empty', count: 2 },
+        perSquare: true,
+        effects: { healing: 5 },
+        description: 'Faint magical energy lingers in the air'
+      }
+    ],
+    objects: [
+      {
+        id: 'chest',
+        name: 'Treasure Chest',
+        placement: { kind: 'first', terrain: 'empty', count: 3 },
+        interactions: ['open', 'lockpick', 'search'],
+        description: 'A sturdy wooden chest, possibly containing valuables'
+      },
+      {
+        id: 'pressure-plate',
+        name: 'Pressure Plate',
+        placement: { kind: 'first', terrain: 'empty', count: 2 },
+        interactions: ['step', 'examine'],
+        description: 'A suspicious-looking stone plate set into the floor'
+      }
+    ],
+    narratives: [
+      {
+        id: 'ancient-warning',
+        type: 'warning',
+        placement: { kind: 'center' },
+        radius: 3,
+        message: 'Turn back, mortal. The depths hunger for souls.'
+      },
+      {
+        id: 'treasure-hint',
+        type: 'hint',
+        placement: { kind: 'peripheral' },
+        radius: 2,
+        message: 'Riches await those brave enough to seek them.'
+      }
+    ],
+    names: { places: ['Caverns'] },
+    descriptions: [
+      'A dark cave system teeming with underground creatures.',
+      'Ancient caverns that have claimed many adventurers.',
+      'A mysterious dungeon complex with hidden dangers.'
+    ],
+    tags: ['cave', 'underground', 'exploration'],
+    monsterTags: ['undead', 'cave_dweller']
+  },
+  {
+    id: 'wilderness',
+    name: 'Wilderness',
+    banner: '🌲 WILDERNESS MAP',
+    palette: TERRAIN_PALETTES.wilderness,
+    features: evenWeights(THEME_FEATURES.wilderness),
+    caveFeatures: [{ terrain: 'difficult' }],
+    hazards: [
+      { kind: 'frozen-lake', minDifficulty: 2, chance: 0.3 },
+      { kind: 'chasm', minDifficulty: 3, chance: 0.5 }
+    ],
+    effects: [
+      {
+        id: 'forest-canopy',
+        name: 'Forest Canopy',
+        type: 'global',
+        area: 'global',
+        effects: { concealment: 'partial', movementCost: 1 },
+        description: 'Thick foliage overhead provides cover but slows movement'
+      },
+      {
+        id: 'rain-slick',
+        name: 'Rain-slicked Ground',
+        type: 'global',
+        area: 'global',
+        effects: { statusEffects: ['slippery'] },
+        description: 'Recent rain makes the ground treacherous'
+      }
+    ],
+    objects: [
+      {
+        id: 'campfire',
+        name: 'Abandoned Campfire',
+        placement: { kind: 'center' },
+        terrainType: 'empty',
+        interactions: ['examine', 'use', 'rest'],
+        description: 'A recently used campfire with embers still glowing'
+      },
+      {
+        id: 'hunting-trap',
+        name: 'Hunting Trap',
+        placement: { kind: 'first', terrain: 'difficult', count: 2 },
+        interactions: ['examine', 'disarm', 'trigger'],
+        description: 'A cleverly concealed trap for small game'
+      }
+    ],
+    narratives: [
+      {
+        id: 'wilderness-warning',
+        type: 'warning',
+        placement: { kind: 'edge' },
+        radius: 4,
+        message: 'Danger lurks in the shadows of the ancient forest.'
+      }
+    ],
+    names: { places: ['Wilds'] },
+    descriptions: [
+      'Dense forest wilderness with natural hazards.',
+      'Untamed wilds where nature reigns supreme.',
+      'A dangerous forest filled with wild creatures.'
+    ],
+    tags: ['forest', 'outdoor', 'nature'],
+    monsterTags: ['beast', 'wild']
+  },
+  {
+    id: 'underground',
+    name: 'Underground',
+    banner: '🕳️  UNDERGROUND MAP',
+    palette: TERRAIN_PALETTES.underground,
+    features: evenWeights(THEME_FEATURES.underground),
+    caveFeatures: [
+      { terrain: 'crystal', chance: 0.4 },
+      { terrain: 'water', chance: 0.7 }
+    ],
+    hazards: [
+      { kind: 'chasm', minDifficulty: 2, chance: 0.5 },
+      { kind: 'lava-river', minDifficulty: 3, chance: 0.6 }
+    ],
+    effects: [
+      {
+        id: 'crystal-resonance',
+        name: 'Crystal Resonance',
+        type: 'aura',
+        area: { kind: 'all', terrain: 'crystal', limit: 3 },
+        effects: { brightness: 'bright', healing: 3 },
+        description: 'Crystals hum with healing energy'
+      },
+      {
+        id: 'underground-chill',
+        name: 'Perpetual Chill',
+        type: 'global',
+        area: 'global',
+        effects: { statusEffects: ['chilled'] },
+        description: 'The deep earth maintains a constant chill'
+      }
+    ],
+    objects: [
+      {
+        id: 'crystal',
+        name: 'Crystal Formation',
+        placement: { kind: 'all', terrain: 'crystal' },
+        interactions: ['mine', 'examine', 'channel'],
+        description: 'A beautiful crystal formation pulsing with inner light'
+      }
+    ],
+    narratives: [
+      {
+        id: 'crystal-prophecy',
+        type: 'story',
+        placement: { kind: 'all', terrain: 'crystal' },
+        radius: 5,
+        message: 'When the crystals sing, the mountain shall awaken.'
+      }
+    ],
+    names: { places: ['Depths'] },
+    descriptions: [
+      'Deep underground caverns with crystal formations.',
+      'Subterranean depths hiding ancient secrets.',
+      'Crystal-lit caves with mysterious properties.'
+    ],
+    tags: ['crystal', 'deep', 'mining'],
+    monsterTags: ['elemental', 'crystal']
+  },
+  {
+    id: 'urban',
+    name: 'Urban',
+    banner: '🏙️  URBAN MAP',
+    palette: TERRAIN_PALETTES.urban,
+    features: evenWeights(THEME_FEATURES.urban),
+    effects: [
+      {
+        id: 'rubble-field',
+        name: 'Rubble Field',
+        type: 'zone',
+        area: { kind: 'all', terrain: 'rubble' },
+        effects: { movementCost: 2, concealment: 'partial' },
+        description: 'Collapsed buildings provide cover but hinder movement'
+      },
+      {
+        id: 'street-lights',
+        name: 'Street Lighting',
+        type: 'lighting',
+        area: 'global',
+        effects: { brightness: 'dim' },
+        description: 'Faint street lights cast eerie shadows'
+      }
+    ],
+    objects: [
+      {
+        id: 'market-stall',
+        name: 'Abandoned Market Stall',
+        placement: { kind: 'center' },
+        terrainType: 'empty',
+        interactions: ['search', 'examine', 'use'],
+        description: 'A weathered market stall with some goods still remaining'
+      },
+      {
+        id: 'sewer-grate',
+        name: 'Sewer Grate',
+        placement: { kind: 'first', terrain: 'empty', count: 1 },
+        interactions: ['lift', 'examine', 'enter'],
+        description: 'A heavy iron grate covering access to the sewers below'
+      }
+    ],
+    narratives: [
+      {
+        id: 'city-mystery',
+        type: 'story',
+        placement: { kind: 'center' },
+        radius: 3,
+        message: 'The city remembers what the people have forgotten.'
+      }
+    ],
+    names: { places: ['District'] },
+    descriptions: [
+      'Abandoned city streets with lurking dangers.',
+      'Urban decay where shadows come alive.',
+      'Forgotten district reclaimed by darkness.'
+    ],
+    tags: ['city', 'buildings', 'streets'],
+    monsterTags: ['humanoid', 'civilized']
+  },
+  {
+    id: 'mystical',
+    name: 'Mystical',
+    banner: '✨ MYSTICAL MAP',
+    palette: TERRAIN_PALETTES.mystical,
+    features: evenWeights(THEME_FEATURES.mystical),
+    effects: [
+      {
+        id: 'ley-line',
+        name: 'Ley Line Energy',
+        type: 'zone',
+        area: { kind: 'diagonal' },
+        effects: { brightness: 'bright', healing: 5, statusEffects: ['energized'] },
+        description: 'Powerful magical energy flows through ancient ley lines'
+      },
+      {
+        id: 'mystical-fog',
+        name: 'Mystical Fog',
+        type: 'global',
+        area: 'global',
+        effects: { concealment: 'partial', statusEffects: ['confused'] },
+        description: 'Thick fog infused with magical properties disorients travelers'
+      }
+    ],
+    objects: [
+      {
+        id: 'mystic-portal',
+        name: 'Mystic Portal',
+        placement: { kind: 'center' },
+        terrainType: 'portal',
+        interactions: ['enter', 'examine', 'stabilize'],
+        description: 'A swirling vortex of pure magical energy'
+      },
+      {
+        id: 'rune-circle',
+        name: 'Ancient Rune Circle',
+        placement: { kind: 'first', terrain: 'empty', count: 3 },
+        interactions: ['activate', 'study', 'disrupt'],
+        description: 'A circle of glowing runes etched into the stone floor'
+      }
+    ],
+    narratives: [
+      {
+        id: 'magical-convergence',
+        type: 'story',
+        placement: { kind: 'center' },
+        radius: 6,
+        message: 'Here the threads of fate are woven by ancient hands.'
+      }
+    ],
+    names: { places: ['Sanctum'] },
+    descriptions: [
+      'A realm where magic bends reality.',
+      'Mystical sanctum pulsing with arcane energy.',
+      'Magical convergence of ancient powers.'
+    ],
+    tags: ['magic', 'arcane', 'ritual'],
+    monsterTags: ['magical', 'summoned']
+  }
+];
+
+/**
+ * Registry of theme definitions.
+ * Starts with the built-in themes; theme files add to it.
+ */
+export class ThemeRegistry {
+  /**
+   * Registry consulted by the generators, the storyteller and the renderer
+   */
+  static readonly default = new ThemeRegistry();
+
+  private themes = new Map<string, ThemeDefinition>();
+  private terrain: TerrainRegistry;
+
+  /**
+   * @param terrain - Terrain registry that resolves palettes and receives new themes' terrain
+   */
+  constructor(terrain: TerrainRegistry = TerrainRegistry.default) {
+    this.terrain = terrain;
+    // Built-in palettes and features are already part of every TerrainRegistry
+    BUILT_IN_THEMES.forEach(theme => this.themes.set(theme.id, theme));
+  }
+
+  /**
+   * A separate registry holding every theme registered here so far
+   *
+   * @param terrain - Terrain registry for the copy, e.g. a copy of this one's
+   */
+  copy(terrain: TerrainRegistry): ThemeRegistry {
+    const copy = new ThemeRegistry(terrain);
+    copy.themes = new Map(this.themes);
+    return copy;
+  }
+
+  /**
+   * Get a theme definition by ID
+   */
+  get(id: string): ThemeDefinition | undefined {
+    return this.themes.get(id);
+  }
+
+  /**
+   * Check whether a theme ID is registered
+   */
+  has(id: string): boolean {
+    return this.themes.has(id);
+  }
+
+  /**
+   * IDs of every registered theme, built-in themes first
+   */
+  getIds(): string[] {
+    return [...this.themes.keys()];
+  }
+
+  /**
+   * All registered theme definitions, built-in themes first
+   */
+  getAll(): ThemeDefinition[] {
+    return [...this.themes.values()];
+  }
+
+  /**
+   * Add a theme. The whole definition is checked first and nothing is registered if
+   * any part is invalid; its terrain must already be known to the terrain registry.
+   */
+  register(theme: ThemeDefinition): void {
+    if (!theme || typeof theme !== 'object' || typeof theme.id !== 'string' || !/^[a-z0-9-]+$/.test(theme.id)) {
+      throw new Error('Theme must be an object whose "id" uses only lowercase letters, numbers, and hyphens');
+    }
+    if (this.themes.has(theme.id)) {
+      throw new Error(`Theme '${theme.id}' is already defined`);
+    }
+
+    const problems = this.checkTheme(theme);
+    if (problems.length > 0) {
+      throw new Error(`Theme '${theme.id}' is invalid:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    this.terrain.registerTheme(theme.id, theme.palette, theme.features);
+    this.themes.set(theme.id, theme);
+  }
+
+  /**
+   * Load a theme definition from a JSON file
+   */
+  loadThemeFile(filepath: string): ThemeDefinition {
+    const theme: ThemeDefinition = JSON.parse(readFileSync(filepath, 'utf8'));
+    this.register(theme);
+    return theme;
+  }
+
+  /**
+   * Collect every problem with a theme definition
+   */
+  private checkTheme(theme: ThemeDefinition): string[] {
+    const problems: string[] = [];
+    const isText = (value: unknown): boolean => typeof value === 'string' && value.trim() !== '';
+    const isTextList = (value: unknown, allowEmpty: boolean = true): boolean =>
+      Array.isArray(value) && (allowEmpty || value.length > 0) && value.every(isText);
+    const checkTerrain = (id: unknown, label: string): void => {
+      if (!this.terrain.has(id as string)) {
+        problems.push(`${label}: unknown terrain '${id}'`);
+      }
+    };
+
+    if (!isText(theme.name)) {
+      problems.push('name must be a non-empty string');
+    }
+    if (theme.banner !== undefined && !isText(theme.banner)) {
+      problems.push('banner must be a non-empty string');
+    }
+
+    if (!isTextList(theme.palette, false)) {
+      problems.push('palette must be a non-empty array of terrain IDs');
+    } else {
+      theme.palette.forEach(id => checkTerrain(id, 'palette'));
+    }
+
+    if (!theme.features || typeof theme.features !== 'object' || Array.isArray(theme.features) ||
+        Object.keys(theme.features).length === 0) {
+      problems.push('features must be a non-empty object of terrain ID → weight');
+    } else {
+      Object.entries(theme.features).forEach(([id, weight]) => {
+        checkTerrain(id, 'features');
+        if (typeof weight !== 'number' || !(weight > 0) || !Number.isFinite(weight)) {
+          problems.push(`features.${id}: weight must be a positive number`);
+        }
+      });
+    }
+
+    if (theme.caveFeatures !== undefined) {
+      if (!Array.isArray(theme.caveFeatures)) {
+        problems.push('caveFeatures must be an array');
+      } else {
+        theme.caveFeatures.forEach((step, i) => {
+          checkTerrain(step?.terrain, `caveFeatures[${i}]`);
+          if (step?.chance !== undefined && (typeof step.chance !== 'number' || step.chance < 0 || step.chance > 1)) {
+            problems.push(`caveFeatures[${i}].chance must be a number between 0 and 1`);
+          }
+        });
+      }
+    }
+
+    if (theme.regions !== undefined) {
+      if (!Array.isArray(theme.regions) || theme.regions.length === 0) {
+        problems.push('regions must be a non-empty array of biomes');
+      } else {
+        const ids = new Set<string>();
+        theme.regions.forEach((biome, i) => {
+          const label = `regions[${i}]`;
+          if (!biome || typeof biome !== 'object' || !isText(biome.id)) {
+            problems.push(`${label} must be an object with a non-empty "id"`);
+            return;
+          }
+          if (ids.has(biome.id)) {
+            problems.push(`${label}: ID '${biome.id}' is used more than once`);
+          }
+          ids.add(biome.id);
+
+          if (typeof biome.weight !== 'number' || !(biome.weight > 0) || !Number.isFinite(biome.weight)) {
+            problems.push(`${label}.weight must be a positive number`);
+          }
+          checkTerrain(biome.ground, `${label}.ground`);
+
+          if (biome.scatter !== undefined) {
+            if (!biome.scatter || typeof biome.scatter !== 'object' || Array.isArray(biome.scatter)) {
+              problems.push(`${label}.scatter must be an object of terrain ID → share`);
+            } else {
+              const shares = Object.entries(biome.scatter);
+              shares.forEach(([id, share]) => {
+                checkTerrain(id, `${label}.scatter`);
+                if (typeof share !== 'number' || share < 0 || share > 1) {
+                  problems.push(`${label}.scatter.${id}: share must be a number between 0 and 1`);
+                }
+              });
+              if (shares.reduce((sum, [, share]) => sum + (typeof share === 'number' ? share : 0), 0) > 1) {
+                problems.push(`${label}.scatter: shares must add up to at most 1`);
+              }
+            }
+          }
+        });
+      }
+    }
+
+    if (theme.hazards !== undefined) {
+      if (!Array.isArray(theme.hazards)) {
+        problems.push('hazards must be an array');
+      } else {
+        theme.hazards.forEach((hazard, i) => {
+          const label = `hazards[${i}]`;
+          if (!HAZARD_KINDS.includes(hazard?.kind)) {
+            problems.push(`${label}.kind must be one of: ${HAZARD_KINDS.join(', ')}`);
+          }
+          if (!Number.isInteger(hazard?.minDifficulty) || hazard.minDifficulty < 1) {
+            problems.push(`${label}.minDifficulty must be a positive integer`);
+          }
+          if (hazard?.chance !== undefined && (typeof hazard.chance !== 'number' || hazard.chance < 0 || hazard.chance > 1)) {
+            problems.push(`${label}.chance must be a number between 0 and 1`);
+          }
+        });
+      }
+    }
+
+    const checkList = (key: 'effects' | 'objects' | 'narratives', check: (item: any, label: string) => void): void => {
+      if (!Array.isArray(theme[key])) {
+        problems.push(`${key} must be an array`);
+        return;
+      }
+      const ids = new Set<string>();
+      theme[key].forEach((item: any, i: number) => {
+        const label = `${key}[${i}]`;
+        if (!item || typeof item !== 'object' || !isText(item.id)) {
+          problems.push(`${label} must be an object with a non-empty "id"`);
+          return;
+        }
+        if (ids.has(item.id)) {
+          problems.push(`${label}: ID '${item.id}' is used more than once`);
+        }
+        ids.add(item.id);
+        check(item, label);
+      });
+    };
+
+    checkList('effects', (effect: ThemeEffectTemplate, label) => {
+      if (!isText(effect.name) || !isText(effect.description)) {
+        problems.push(`${label}: name and description must be non-empty strings`);
+      }
+      if (!EFFECT_TYPES.includes(effect.type)) {
+        problems.push(`${label}.type must be one of: ${EFFECT_TYPES.join(', ')}`);
+      }
+      if (effect.area !== 'global') {
+        this.checkPlacement(effect.area, `${label}.area`, problems);
+      }
+      if (!effect.effects || typeof effect.effects !== 'object') {
+        problems.push(`${label}.effects must be an object`);
+      }
+    });
+
+    checkList('objects', (object: ThemeObjectTemplate, label) => {
+      if (!isText(object.name) || !isText(object.description)) {
+        problems.push(`${label}: name and description must be non-empty strings`);
+      }
+      this.checkPlacement(object.placement, `${label}.placement`, problems);
+      if (object.terrainType !== undefined) {
+        checkTerrain(object.terrainType, `${label}.terrainType`);
+      }
+      if (!isTextList(object.interactions)) {
+        problems.push(`${label}.interactions must be an array of strings`);
+      }
+    });
+
+    checkList('narratives', (narrative: ThemeNarrativeTemplate, label) => {
+      if (!NARRATIVE_TYPES.includes(narrative.type)) {
+        problems.push(`${label}.type must be one of: ${NARRATIVE_TYPES.join(', ')}`);
+      }
+      this.checkPlacement(narrative.placement, `${label}.placement`, problems);
+      if (!Number.isInteger(narrative.radius) || narrative.radius < 0) {
+        problems.push(`${label}.radius must be a non-negative integer`);
+      }
+      if (!isText(narrative.message)) {
+        problems.push(`${label}.message must be a non-empty string`);
+      }
+    });
+
+    if (!theme.names || !isTextList(theme.names.places, false)) {
+      problems.push('names.places must be a non-empty array of strings');
+    }
+    if (theme.names?.adjectives !== undefined && !isTextList(theme.names.adjectives, false)) {
+      problems.push('names.adjectives must be a non-empty array of strings');
+    }
+    if (!isTextList(theme.descriptions, false)) {
+      problems.push('descriptions must be a non-empty array of strings');
+    }
+    if (!isTextList(theme.tags)) {
+      problems.push('tags must be an array of strings');
+    }
+    if (!isTextList(theme.monsterTags)) {
+      problems.push('monsterTags must be an array of strings');
+    }
+
+    return problems;
+  }
+
+  /**
+   * Check a placement's kind and its terrain, count and limit fields
+   */
+  private checkPlacement(placement: ThemePlacement, label: string, problems: string[]): void {
+    if (!placement || typeof placement !== 'object' || !PLACEMENT_KINDS.includes(placement.kind)) {
+      problems.push(`${label}.kind must be one of: ${PLACEMENT_KINDS.join(', ')}`);
+      return;
+    }
+
+    if (placement.kind === 'first' || placement.kind === 'all') {
+      if (!this.terrain.has(placement.terrain)) {
+        problems.push(`${label}: unknown terrain '${placement.terrain}'`);
+      }
+    }
+    if (placement.kind === 'first' && (!Number.isInteger(placement.count) || placement.count < 1)) {
+      problems.push(`${label}.count must be a positive integer`);
+    }
+    if (placement.kind === 'all' && placement.limit !== undefined && (!Number.isInteger(placement.limit) || placement.limit < 1)) {
+      problems.push(`${label}.limit must be a positive integer`);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Terrain Connectivity Analysis for FOURE VTT Level Generator
+ *
+ * Flood-fill based region analysis of walkable terrain, plus a repair pass that
+ * joins sealed pockets with minimal tunnels (bridging chasms, pits and lava) or culls them.
+ */
+
+import { TerrainUtils, GridPosition } from '../types/terrain.js';
+
+/**
+ * Decides whether a terrain type blocks movement
+ */
+export type BlockingPredicate = (terrainType: string) => boolean;
+
+/**
+ * Connectivity repair strategy
+ * - tunnel: carve the cheapest tunnel from each pocket to the main region
+ * - cull: fill every pocket outside the main region with blocking terrain
+ * - none: leave the terrain untouched
+ */
+export type ConnectivityRepairMode = 'tunnel' | 'cull' | 'none';
+
+export const CONNECTIVITY_REPAIR_MODES: ConnectivityRepairMode[] = ['tunnel', 'cull', 'none'];
+
+/**
+ * A set of walkable squares reachable from one another
+ */
+export interface TerrainRegion {
+  readonly id: number;
+  readonly cells: GridPosition[];
+  readonly size: number;
+}
+
+/**
+ * Result of analyzing a map's connectivity
+ */
+export interface ConnectivityAnalysis {
+  /** Regions sorted largest first; region 0 is the main region */
+  readonly regions: TerrainRegion[];
+  /** Region id per square, or -1 for blocking terrain */
+  readonly regionMap: number[][];
+  readonly isConnected: boolean;
+}
+
+/**
+ * Result of a connectivity repair pass
+ */
+export interface ConnectivityRepairResult {
+  readonly terrain: string[][];
+  readonly mode: ConnectivityRepairMode;
+  readonly regionsBefore: number;
+  readonly regionsAfter: number;
+  readonly cellsCarved: number;
+  readonly cellsCulled: number;
+}
+
+/**
+ * Orthogonal neighbour offsets. Diagonal steps may not cut corners past blocking
+ * terrain, so orthogonal adjacency already captures every legal move.
+ */
+const NEIGHBOURS: ReadonlyArray<readonly [number, number]> = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+/**
+ * Default blocking rule: the terrain type's own blocksMovement flag
+ */
+const blocksMovement: BlockingPredicate = terrainType => TerrainUtils.blocksMovement(terrainType);
+
+/**
+ * Terrain that becomes a bridge rather than open floor when a tunnel crosses it
+ */
+const BRIDGEABLE_TERRAIN = new Set(['chasm', 'pit', 'lava']);
+
+/**
+ * Stand-in terrain for barrier squares; never a valid terrain ID
+ */
+const BARRIER = '#barrier';
+
+/**
+ * Terrain Connectivity Utilities
+ */
+export class TerrainConnectivity {
+  /**
+   * Split the walkable squares of a map into connected regions
+   */
+  static analyze(terrain: string[][], blocks: BlockingPredicate = blocksMovement): ConnectivityAnalysis {
+    const height = terrain.length;
+    const width = terrain[0]?.length || 0;
+    const labels: number[][] = Array(height).fill(null).map(() => Array(width).fill(-1));
+    const found: GridPosition[][] = [];
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (labels[y][x] !== -1 || blocks(terrain[y][x])) continue;
+
+        const label = found.length;
+        const cells: GridPosition[] = [];
+        const stack: GridPosition[] = [{ x, y }];
+        labels[y][x] = label;
+
+        while (stack.length > 0) {
+          const cell = stack.pop()!;
+          cells.push(cell);
+
+          for (const [dx, dy] of NEIGHBOURS) {
+            const nx = cell.x + dx;
+            const ny = cell.y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            if (labels[ny][nx] !== -1 || blocks(terrain[ny][nx])) continue;
+
+            labels[ny][nx] = label;
+            stack.push({ x: nx, y: ny });
+          }
+        }
+
+        found.push(cells);
+      }
+    }
+
+    // Renumber so the largest region comes first (ties keep scan order)
+    const order = found.map((_, label) => label).sort((a, b) => found[b].length - found[a].length);
+    const renumber: number[] = [];
+    order.forEach((label, index) => { renumber[label] = index; });
+
+    const regionMap = labels.map(row => row.map(label => label === -1 ? -1 : renumber[label]));
+    const regions: TerrainRegion[] = order.map((label, index) => ({
+      id: index,
+      cells: found[label],
+      size: found[label].length
+    }));
+
+    return { regions, regionMap, isConnected: regions.length <= 1 };
+  }
+
+  /**
+   * Split the walkable squares into regions as if the barrier squares (locked doors,
+   * say) blocked movement, whatever their terrain
+   */
+  static analyzeWithBarriers(
+    terrain: string[][],
+    barriers: GridPosition[],
+    blocks: BlockingPredicate = blocksMovement
+  ): ConnectivityAnalysis {
+    const closed = new Set(barriers.map(barrier => `${barrier.x},${barrier.y}`));
+    const marked = terrain.map((row, y) => row.map((cell, x) => closed.has(`${x},${y}`) ? BARRIER : cell));
+    return this.analyze(marked, terrainType => terrainType === BARRIER || blocks(terrainType));
+  }
+
+  /**
+   * Check whether every walkable square can reach every other
+   */
+  static isConnected(terrain: string[][], blocks?: BlockingPredicate): boolean {
+    return this.analyze(terrain, blocks).isConnected;
+  }
+
+  /**
+   * Check whether a creature moving within a region can reach a square.
+   * Blocking squares (an altar or crystal holding an objective, say) count as reached
+   * when the region touches them, diagonals included.
+   */
+  static canReach(analysis: ConnectivityAnalysis, region: number, position: GridPosition): boolean {
+    const { regionMap } = analysis;
+    const height = regionMap.length;
+    const width = regionMap[0]?.length || 0;
+
+    if (position.x < 0 || position.x >= width || position.y < 0 || position.y >= height) {
+      return false;
+    }
+
+    if (regionMap[position.y][position.x] !== -1) {
+      return regionMap[position.y][position.x] === region;
+    }
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = position.x + dx;
+        const ny = position.y + dy;
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height && regionMap[ny][nx] === region) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Join or remove disconnected regions. Returns a repaired copy; the input is not modified.
+   */
+  static repair(
+    terrain: string[][],
+    mode: ConnectivityRepairMode = 'tunnel',
+    blocks: BlockingPredicate = blocksMovement
+  ): ConnectivityRepairResult {
+    const repaired = terrain.map(row => [...row]);
+    let analysis = this.analyze(repaired, blocks);
+    const regionsBefore = analysis.regions.length;
+    let cellsCarved = 0;
+    let cellsCulled = 0;
+
+    if (mode === 'tunnel') {
+      // Each tunnel merges at least one pocket into the main region
+      while (!analysis.isConnected) {
+        const carved = this.carveTunnel(repaired, analysis, analysis.regions[1], blocks);
+        if (carved === 0) break;
+        cellsCarved += carved;
+        analysis = this.analyze(repaired, blocks);
+      }
+    } else if (mode === 'cull' && !analysis.isConnected) {
+      const fill = this.getCullTerrain(repaired, blocks);
+      for (const region of analysis.regions.slice(1)) {
+        for (const cell of region.cells) {
+          repaired[cell.y][cell.x] = fill;
+          cellsCulled++;
+        }
+      }
+      analysis = this.analyze(repaired, blocks);
+    }
+
+    return {
+      terrain: repaired,
+      mode,
+      regionsBefore,
+      regionsAfter: analysis.regions.length,
+      cellsCarved,
+      cellsCulled
+    };
+  }
+
+  /**
+   * Carve the path that crosses the fewest blocking squares from a pocket to the main
+   * region (0-1 breadth-first search). Map edge squares are never carved.
+   */
+  private static carveTunnel(
+    terrain: string[][],
+    analysis: ConnectivityAnalysis,
+    pocket: TerrainRegion,
+    blocks: BlockingPredicate
+  ): number {
+    const height = terrain.length;
+    const width = terrain[0].length;
+    const cost: number[][] = Array(height).fill(null).map(() => Array(width).fill(Infinity));
+    const previous: Array<Array<GridPosition | null>> = Array(height).fill(null).map(() => Array(width).fill(null));
+
+    // Frontier layers by number of blocking squares crossed
+    let current: GridPosition[] = [...pocket.cells];
+    pocket.cells.forEach(cell => { cost[cell.y][cell.x] = 0; });
+    let layer = 0;
+    let target: GridPosition | null = null;
+
+    while (current.length > 0 && !target) {
+      const next: GridPosition[] = [];
+
+      for (let i = 0; i < current.length && !target; i++) {
+        const cell = current[i];
+        if (cost[cell.y][cell.x] !== layer) continue;
+
+        for (const [dx, dy] of NEIGHBOURS) {
+          const nx = cell.x + dx;
+          const ny = cell.y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+          const blocked = blocks(terrain[ny][nx]);
+          const isEdge = nx === 0 || ny === 0 || nx === width - 1 || ny === height - 1;
+          if (blocked && isEdge) continue;
+
+          const stepCost = layer + (blocked ? 1 : 0);
+          if (stepCost >= cost[ny][nx]) continue;
+
+          cost[ny][nx] = stepCost;
+          previous[ny][nx] = cell;
+
+          if (analysis.regionMap[ny][nx] === 0) {
+            target = { x: nx, y: ny };
+            break;
+          }
+
+          (blocked ? next : current).push({ x: nx, y: ny });
+        }
+      }
+
+      current = next;
+      layer++;
+    }
+
+    if (!target) return 0;
+
+    let carved = 0;
+    for (let cell: GridPosition | null = target; cell; cell = previous[cell.y][cell.x]) {
+      const terrainType = terrain[cell.y][cell.x];
+      if (blocks(terrainType)) {
+        terrain[cell.y][cell.x] = BRIDGEABLE_TERRAIN.has(terrainType) ? 'bridge' : 'empty';
+        carved++;
+      }
+    }
+
+    return carved;
+  }
+
+  /**
+   * Pick the blocking terrain used to fill culled pockets: the most common one on the map
+   */
+  private static getCullTerrain(terrain: string[][], blocks: BlockingPredicate): string {
+    const counts = new Map<string, number>();
+
+    for (const row of terrain) {
+      for (const cell of row) {
+        if (blocks(cell)) {
+          counts.set(cell, (counts.get(cell) || 0) + 1);
+        }
+      }
+    }
+
+    let best = 'wall';
+    let bestCount = 0;
+    counts.forEach((count, terrainType) => {
+      if (count > bestCount) {
+        best = terrainType;
+        bestCount = count;
+      }
+    });
+
+    return best;
+  }
+}
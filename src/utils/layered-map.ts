@@ -0,0 +1,284 @@
+/**
+ * Layered Map Model for FOURE VTT Level Generator
+ *
+ * Splits a map into base terrain, a feature overlay, elevation, objects,
+ * effect zones and the lighting those effects produce, and answers queries
+ * about the composite state of any square. A level's map.terrain holds the
+ * flattened result; map.layers records what lies beneath the features.
+ */
+
+import { GridPosition, MapCell, MapFeature, MapLayers } from '../types/terrain.js';
+import { LineOfSight, Brightness, VisibilityEffect } from './line-of-sight.js';
+
+/**
+ * An object standing on a square, e.g. a level's interactiveObjects entry
+ */
+export interface MapObjectPlacement {
+  readonly id: string;
+  readonly position: GridPosition;
+}
+
+/**
+ * An effect covering some squares or the whole map, e.g. a level's environmentalEffects entry
+ */
+export interface MapEffectZone extends VisibilityEffect {
+  readonly id: string;
+}
+
+/**
+ * Input for a layered map
+ */
+export interface LayeredMapData {
+  /** Effective terrain, with features already applied */
+  readonly terrain: string[][];
+  readonly layers?: MapLayers;
+  readonly elevation?: number[][];
+  readonly objects?: MapObjectPlacement[];
+  readonly effects?: MapEffectZone[];
+}
+
+/**
+ * The parts of a level a layered map is built from
+ */
+export interface LayeredLevelData {
+  readonly map: {
+    readonly terrain: string[][];
+    readonly layers?: MapLayers;
+    readonly elevation?: number[][];
+  };
+  readonly interactiveObjects?: MapObjectPlacement[];
+  readonly environmentalEffects?: MapEffectZone[];
+}
+
+/**
+ * Composite state of a single square
+ */
+export interface LayeredCell extends MapCell {
+  readonly x: number;
+  readonly y: number;
+  /** Terrain beneath any feature */
+  readonly base: string;
+  /** Feature placed over the base, if any */
+  readonly feature: string | null;
+  /** Effective terrain: the feature if present, the base otherwise */
+  readonly terrain: string;
+  readonly elevation: number;
+  /** IDs of objects on the square */
+  readonly objects: string[];
+  /** IDs of effects covering the square, global effects included */
+  readonly effects: string[];
+  readonly brightness: Brightness;
+}
+
+/**
+ * Layered map with per-square composite queries
+ */
+export class LayeredMap {
+  private width: number;
+  private height: number;
+  private base: string[][];
+  private features: Array<Array<string | null>>;
+  private elevation?: number[][];
+  private objects: MapObjectPlacement[];
+  private effects: MapEffectZone[];
+  private lighting: LineOfSight | null = null;
+
+  constructor(data: LayeredMapData) {
+    this.height = data.terrain.length;
+    this.width = data.terrain[0]?.length || 0;
+    this.base = data.terrain.map(row => [...row]);
+    this.features = data.terrain.map(row => row.map(() => null));
+    this.elevation = data.elevation?.map(row => [...row]);
+    this.objects = [...(data.objects || [])];
+    this.effects = [...(data.effects || [])];
+
+    for (const feature of data.layers?.features || []) {
+      this.assertInBounds(feature);
+      this.base[feature.y][feature.x] = feature.base;
+      this.features[feature.y][feature.x] = feature.terrain;
+    }
+  }
+
+  /**
+   * Build a layered map from a generated or loaded level
+   */
+  static fromLevel(level: LayeredLevelData): LayeredMap {
+    return new LayeredMap({
+      terrain: level.map.terrain,
+      layers: level.map.layers,
+      elevation: level.map.elevation,
+      objects: level.interactiveObjects,
+      effects: level.environmentalEffects
+    });
+  }
+
+  getDimensions(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  /**
+   * Composite state of a square
+   */
+  getCell(position: GridPosition): LayeredCell {
+    this.assertInBounds(position);
+    const { x, y } = position;
+
+    return {
+      x,
+      y,
+      base: this.base[y][x],
+      feature: this.features[y][x],
+      terrain: this.getTerrain(position),
+      elevation: this.elevation?.[y]?.[x] ?? 0,
+      objects: this.getObjectsAt(position).map(object => object.id),
+      effects: this.getEffectsAt(position).map(effect => effect.id),
+      brightness: this.getLighting().getBrightness(position)
+    };
+  }
+
+  /**
+   * Effective terrain of a square
+   */
+  getTerrain(position: GridPosition): string {
+    this.assertInBounds(position);
+    return this.features[position.y][position.x] ?? this.base[position.y][position.x];
+  }
+
+  /**
+   * Terrain beneath any feature on a square
+   */
+  getBaseTerrain(position: GridPosition): string {
+    this.assertInBounds(position);
+    return this.base[position.y][position.x];
+  }
+
+  /**
+   * Feature on a square, or null if the base is exposed
+   */
+  getFeature(position: GridPosition): string | null {
+    this.assertInBounds(position);
+    return this.features[position.y][position.x];
+  }
+
+  getObjectsAt(position: GridPosition): MapObjectPlacement[] {
+    return this.objects.filter(object => object.position.x === position.x && object.position.y === position.y);
+  }
+
+  getEffectsAt(position: GridPosition): MapEffectZone[] {
+    return this.effects.filter(effect =>
+      effect.area === 'global' || effect.area.some(cell => cell.x === position.x && cell.y === position.y)
+    );
+  }
+
+  /**
+   * Replace the base terrain of a square, leaving any feature in place
+   */
+  setBaseTerrain(position: GridPosition, terrain: string): void {
+    this.assertInBounds(position);
+    this.base[position.y][position.x] = terrain;
+  }
+
+  /**
+   * Place a feature over a square's base terrain, or clear it with null
+   */
+  setFeature(position: GridPosition, terrain: string | null): void {
+    this.assertInBounds(position);
+    this.features[position.y][position.x] = terrain;
+  }
+
+  addObject(object: MapObjectPlacement): void {
+    this.assertInBounds(object.position);
+    this.objects.push(object);
+  }
+
+  /**
+   * Remove an object by ID; returns whether one was removed
+   */
+  removeObject(id: string): boolean {
+    const before = this.objects.length;
+    this.objects = this.objects.filter(object => object.id !== id);
+    return this.objects.length < before;
+  }
+
+  addEffect(effect: MapEffectZone): void {
+    this.effects.push(effect);
+    this.lighting = null;
+  }
+
+  /**
+   * Remove an effect by ID; returns whether one was removed
+   */
+  removeEffect(id: string): boolean {
+    const before = this.effects.length;
+    this.effects = this.effects.filter(effect => effect.id !== id);
+    this.lighting = null;
+    return this.effects.length < before;
+  }
+
+  /**
+   * Flattened terrain grid, as stored in a level's map.terrain
+   */
+  getTerrainLayer(): string[][] {
+    return this.base.map((row, y) => row.map((terrain, x) => this.features[y][x] ?? terrain));
+  }
+
+  getBaseLayer(): string[][] {
+    return this.base.map(row => [...row]);
+  }
+
+  getElevationLayer(): number[][] | undefined {
+    return this.elevation?.map(row => [...row]);
+  }
+
+  getObjects(): MapObjectPlacement[] {
+    return [...this.objects];
+  }
+
+  getEffects(): MapEffectZone[] {
+    return [...this.effects];
+  }
+
+  /**
+   * Feature overlay in row-major order, as stored in a level's map.layers
+   */
+  getLayers(): MapLayers {
+    const features: MapFeature[] = [];
+
+    this.features.forEach((row, y) => row.forEach((terrain, x) => {
+      if (terrain !== null) {
+        features.push({ x, y, terrain, base: this.base[y][x] });
+      }
+    }));
+
+    return { features };
+  }
+
+  /**
+   * Map fields for a level: the flattened terrain, the heightmap if any, and the layers
+   */
+  toLevelMap(): { terrain: string[][]; elevation?: number[][]; layers: MapLayers } {
+    const elevation = this.getElevationLayer();
+    return {
+      terrain: this.getTerrainLayer(),
+      ...(elevation ? { elevation } : {}),
+      layers: this.getLayers()
+    };
+  }
+
+  /**
+   * Lighting follows the effect zones; rebuilt lazily after they change
+   */
+  private getLighting(): LineOfSight {
+    if (!this.lighting) {
+      this.lighting = new LineOfSight(this.getTerrainLayer(), { effects: this.effects });
+    }
+    return this.lighting;
+  }
+
+  private assertInBounds(position: GridPosition): void {
+    const { x, y } = position;
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      throw new Error(`Position (${x}, ${y}) is outside the ${this.width}x${this.height} map`);
+    }
+  }
+}
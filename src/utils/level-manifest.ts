@@ -0,0 +1,361 @@
+/**
+ * Level Manifest Loader for FOURE VTT Level Generator
+ *
+ * Reads JSON or YAML manifests describing a batch of levels and expands them,
+ * including seed ranges, into individual level requests.
+ */
+
+import { readFileSync } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { MAP_DIMENSION_LIMITS, TerrainRegistry } from '../types/terrain.js';
+import { ThemeRegistry } from '../types/theme.js';
+import { PrefabRegistry } from '../types/prefab.js';
+import { DIFFICULTY_LIMITS } from '../types/level-schema.js';
+
+type Algorithm = 'bsp' | 'cellular' | 'drunkard' | 'template' | 'mixed' | 'wfc' | 'regions';
+
+const ALGORITHMS: Algorithm[] = ['bsp', 'cellular', 'drunkard', 'template', 'mixed', 'wfc', 'regions'];
+const POPULATION_MODES = ['none', 'balanced'];
+
+/**
+ * Largest number of levels a single seed range may expand to
+ */
+const MAX_SEED_RANGE = 1000;
+
+/**
+ * Inclusive seed range
+ */
+export interface SeedRange {
+  readonly from: number;
+  readonly to: number;
+}
+
+/**
+ * Settings shared by manifest entries; each entry may override any of them
+ */
+export interface ManifestLevelSettings {
+  readonly theme?: string;
+  readonly algorithm?: Algorithm;
+  readonly players?: number;
+  readonly difficulty?: number;
+  readonly width?: number;
+  readonly height?: number;
+  readonly populate?: 'none' | 'balanced';
+  readonly parameters?: Record<string, number | string | boolean>;
+  /** Level file whose map.terrain the wfc algorithm learns from, relative to the manifest file */
+  readonly example?: string;
+}
+
+/**
+ * A manifest entry: one level, or one level per seed in a range
+ */
+export interface ManifestEntry extends ManifestLevelSettings {
+  readonly name: string;
+  readonly seed: number | SeedRange;
+}
+
+/**
+ * Batch manifest file contents
+ */
+export interface LevelManifest {
+  /** Output folder, relative to the manifest file */
+  readonly output?: string;
+  /** Terrain pack files to load before generating, relative to the manifest file */
+  readonly terrainPacks?: string[];
+  /** Theme definition files to load before generating, relative to the manifest file */
+  readonly themes?: string[];
+  /** Prefab directories to load before generating, relative to the manifest file */
+  readonly prefabs?: string[];
+  readonly defaults?: ManifestLevelSettings;
+  readonly levels: ManifestEntry[];
+}
+
+/**
+ * A single level to generate, after defaults and seed ranges are applied
+ */
+export interface ExpandedManifestLevel {
+  readonly id?: string;
+  readonly name: string;
+  readonly seed: number;
+  readonly theme: string;
+  readonly algorithm: Algorithm;
+  readonly playerCount: number;
+  readonly difficulty: number;
+  readonly options: {
+    readonly width?: number;
+    readonly height?: number;
+    readonly populate: 'none' | 'balanced';
+    readonly parameters?: Record<string, number | string | boolean>;
+    readonly example?: string[][];
+  };
+}
+
+/**
+ * Loaded and expanded manifest
+ */
+export interface LoadedManifest {
+  readonly path: string;
+  readonly outputDir: string;
+  readonly terrainPacks: string[];
+  readonly themes: string[];
+  readonly prefabs: string[];
+  readonly levels: ExpandedManifestLevel[];
+}
+
+/**
+ * Manifest loading and expansion
+ */
+export class LevelManifestLoader {
+  /**
+   * Load a .json, .yaml or .yml manifest and expand it into level requests.
+   * The manifest's terrain packs, then its themes, then its prefab directories are
+   * loaded so its levels may use them. They are tried out in copies of the registries
+   * and only registered once the whole manifest is valid, so a rejected manifest leaves
+   * the registries as they were.
+   */
+  static load(manifestPath: string): LoadedManifest {
+    const path = resolve(manifestPath);
+    const content = readFileSync(path, 'utf8');
+    const manifest = this.parse(content, extname(path).toLowerCase());
+
+    for (const key of ['terrainPacks', 'themes', 'prefabs'] as const) {
+      const files = manifest?.[key];
+      if (files !== undefined && (!Array.isArray(files) || !files.every(file => typeof file === 'string'))) {
+        throw new Error(`Invalid manifest:\n  - ${key} must be an array of file paths`);
+      }
+    }
+
+    const terrainPacks = (manifest?.terrainPacks || []).map(pack => resolve(dirname(path), pack));
+    const themes = (manifest?.themes || []).map(theme => resolve(dirname(path), theme));
+    const prefabs = (manifest?.prefabs || []).map(dir => resolve(dirname(path), dir));
+
+    const terrainRegistry = TerrainRegistry.default.copy();
+    const themeRegistry = ThemeRegistry.default.copy(terrainRegistry);
+    const prefabRegistry = PrefabRegistry.default.copy(terrainRegistry);
+    const packDefinitions = terrainPacks.map(pack => terrainRegistry.loadPackFile(pack));
+    const themeDefinitions = themes.map(theme => themeRegistry.loadThemeFile(theme));
+    const prefabDefinitions = prefabs.flatMap(dir => prefabRegistry.loadPrefabDirectory(dir));
+    const levels = this.expand(manifest, dirname(path), themeRegistry);
+
+    packDefinitions.forEach(pack => TerrainRegistry.default.registerPack(pack));
+    themeDefinitions.forEach(theme => ThemeRegistry.default.register(theme));
+    prefabDefinitions.forEach(prefab => PrefabRegistry.default.register(prefab));
+
+    return {
+      path,
+      outputDir: resolve(dirname(path), manifest?.output || 'generated-levels'),
+      terrainPacks,
+      themes,
+      prefabs,
+      levels
+    };
+  }
+
+  /**
+   * Parse manifest text; YAML needs the Bun runtime's built-in parser
+   */
+  static parse(content: string, extension: string): LevelManifest {
+    if (extension === '.yaml' || extension === '.yml') {
+      const yaml = typeof Bun !== 'undefined' ? Bun.YAML : undefined;
+      if (!yaml) {
+        throw new Error('YAML manifests require the Bun runtime; convert the manifest to JSON to use it elsewhere');
+      }
+      return yaml.parse(content) as LevelManifest;
+    }
+
+    return JSON.parse(content);
+  }
+
+  /**
+   * Validate a manifest and expand it into one request per level.
+   * All problems are reported together in a single error.
+   *
+   * @param baseDir - Folder that example level paths are relative to
+   * @param themes - Themes the levels may use
+   */
+  static expand(
+    manifest: LevelManifest,
+    baseDir: string = '.',
+    themes: ThemeRegistry = ThemeRegistry.default
+  ): ExpandedManifestLevel[] {
+    const problems: string[] = [];
+    const examples = new Map<string, string[][] | null>();
+
+    if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.levels)) {
+      throw new Error('Manifest must be an object with a "levels" array');
+    }
+
+    const defaults = manifest.defaults || {};
+    this.checkSettings(defaults, 'defaults', problems, themes);
+
+    const levels: ExpandedManifestLevel[] = [];
+
+    manifest.levels.forEach((entry, index) => {
+      const label = `levels[${index}]`;
+
+      if (!entry || typeof entry !== 'object') {
+        problems.push(`${label} must be an object`);
+        return;
+      }
+
+      if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+        problems.push(`${label}.name must be a non-empty string`);
+      }
+      this.checkSettings(entry, label, problems, themes);
+
+      const seeds = this.expandSeeds(entry.seed, `${label}.seed`, problems);
+      const settings = { ...defaults, ...entry };
+      const isRange = typeof entry.seed === 'object';
+      const slug = String(entry.name).toLowerCase().replace(/\s+/g, '-');
+      const example = typeof settings.example === 'string'
+        ? this.loadExample(resolve(baseDir, settings.example), examples, label, problems)
+        : undefined;
+      if (settings.algorithm === 'wfc' && settings.example === undefined) {
+        problems.push(`${label}: the wfc algorithm needs an "example" level to learn from`);
+      }
+
+      for (const seed of seeds) {
+        levels.push({
+          // Levels from a seed range share a name, so each gets its own ID
+          ...(isRange ? { id: `${slug}-${seed}` } : {}),
+          name: entry.name,
+          seed,
+          theme: settings.theme || 'dungeon',
+          algorithm: settings.algorithm || 'mixed',
+          playerCount: settings.players ?? 4,
+          difficulty: settings.difficulty ?? 1,
+          options: {
+            populate: settings.populate || 'none',
+            ...(settings.width !== undefined ? { width: settings.width } : {}),
+            ...(settings.height !== undefined ? { height: settings.height } : {}),
+            ...(defaults.parameters || entry.parameters
+              ? { parameters: { ...defaults.parameters, ...entry.parameters } }
+              : {}),
+            ...(example ? { example } : {})
+          }
+        });
+      }
+    });
+
+    // Two levels writing the same file would silently overwrite each other
+    const seen = new Set<string>();
+    for (const level of levels) {
+      const key = `${level.name.toLowerCase().replace(/\s+/g, '-')}-${level.seed}`;
+      if (seen.has(key)) {
+        problems.push(`Level '${level.name}' with seed ${level.seed} is listed more than once`);
+      }
+      seen.add(key);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid manifest:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Read the terrain grid of an example level, once per file
+   */
+  private static loadExample(
+    filepath: string,
+    cache: Map<string, string[][] | null>,
+    label: string,
+    problems: string[]
+  ): string[][] | undefined {
+    if (!cache.has(filepath)) {
+      let terrain: string[][] | null = null;
+      try {
+        const grid = JSON.parse(readFileSync(filepath, 'utf8'))?.map?.terrain;
+        if (Array.isArray(grid) && grid.length > 0 && grid.every(Array.isArray)) {
+          terrain = grid;
+        }
+      } catch {
+        // Missing or unparseable; reported below
+      }
+      cache.set(filepath, terrain);
+    }
+
+    const terrain = cache.get(filepath);
+    if (!terrain) {
+      problems.push(`${label}.example: ${filepath} is not a level file with a map.terrain grid`);
+    }
+    return terrain ?? undefined;
+  }
+
+  /**
+   * Expand a seed or seed range into a list of seeds
+   */
+  private static expandSeeds(seed: number | SeedRange, label: string, problems: string[]): number[] {
+    if (typeof seed === 'number') {
+      if (!Number.isInteger(seed) || seed < 0) {
+        problems.push(`${label} must be a non-negative integer`);
+        return [];
+      }
+      return [seed];
+    }
+
+    if (!seed || typeof seed !== 'object' || !Number.isInteger(seed.from) || !Number.isInteger(seed.to)) {
+      problems.push(`${label} must be an integer or a { "from": n, "to": n } range`);
+      return [];
+    }
+
+    if (seed.from < 0 || seed.to < seed.from) {
+      problems.push(`${label} range must satisfy 0 <= from <= to`);
+      return [];
+    }
+
+    if (seed.to - seed.from + 1 > MAX_SEED_RANGE) {
+      problems.push(`${label} range covers more than ${MAX_SEED_RANGE} seeds`);
+      return [];
+    }
+
+    return Array.from({ length: seed.to - seed.from + 1 }, (_, i) => seed.from + i);
+  }
+
+  /**
+   * Check shared settings fields
+   */
+  private static checkSettings(
+    settings: ManifestLevelSettings,
+    label: string,
+    problems: string[],
+    themes: ThemeRegistry
+  ): void {
+    const { min, max } = MAP_DIMENSION_LIMITS;
+
+    if (settings.theme !== undefined && !themes.has(settings.theme)) {
+      problems.push(`${label}.theme must be one of: ${themes.getIds().join(', ')}`);
+    }
+
+    if (settings.algorithm !== undefined && !ALGORITHMS.includes(settings.algorithm)) {
+      problems.push(`${label}.algorithm must be one of: ${ALGORITHMS.join(', ')}`);
+    }
+
+    if (settings.populate !== undefined && !POPULATION_MODES.includes(settings.populate)) {
+      problems.push(`${label}.populate must be one of: ${POPULATION_MODES.join(', ')}`);
+    }
+
+    const integerFields: Array<[keyof ManifestLevelSettings, number, number]> = [
+      ['players', 1, 6],
+      ['difficulty', DIFFICULTY_LIMITS.min, DIFFICULTY_LIMITS.max],
+      ['width', min, max],
+      ['height', min, max]
+    ];
+
+    for (const [field, low, high] of integerFields) {
+      const value = settings[field];
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < low || (value as number) > high)) {
+        problems.push(`${label}.${field} must be an integer between ${low} and ${high}`);
+      }
+    }
+
+    if (settings.parameters !== undefined && (typeof settings.parameters !== 'object' || Array.isArray(settings.parameters))) {
+      problems.push(`${label}.parameters must be an object`);
+    }
+
+    if (settings.example !== undefined && (typeof settings.example !== 'string' || settings.example.trim() === '')) {
+      problems.push(`${label}.example must be a path to a level file`);
+    }
+  }
+}
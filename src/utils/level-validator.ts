@@ -2,16 +2,23 @@
  * Level Structure Validator for FOURE VTT Level Generator
  *
  * Comprehensive validation system that ensures JSON files meet all requirements
- * before being written to disk, with detailed error reporting.
+ * before being written to disk, with detailed error reporting. Structure, types and
+ * ranges are checked against LEVEL_SCHEMA; this class adds the semantic rules a
+ * schema can't express (grid sizes, bounds, reachability).
  */
 
-import { TERRAIN_TYPES } from '../types/terrain.js';
-import { LevelObjective } from '../types/level-schema.js';
+import { TerrainUtils, GridPosition, MapLayers, Door, DOOR_TYPES, FloorLink, WorldTile } from '../types/terrain.js';
+import { LEVEL_SCHEMA, LevelObjective } from '../types/level-schema.js';
+import { TerrainConnectivity, ConnectivityAnalysis, BlockingPredicate } from './connectivity.js';
+import { SchemaValidator } from './schema-validator.js';
+import { RoomGraphData } from './room-graph.js';
+import { VaultPlacement } from '../types/prefab.js';
 
 /**
  * Validation error interface
  */
 export interface ValidationError {
+  /** JSON Pointer to the offending value, e.g. "/map/terrainConfigs/wall/movementCost" */
   readonly field: string;
   readonly message: string;
   readonly value?: any;
@@ -33,16 +40,31 @@ export interface LevelValidationSchema {
   readonly map: {
     readonly dimensions: { width: number; height: number };
     readonly terrain: string[][];
+    readonly elevation?: number[][];
+    readonly layers?: MapLayers;
+    readonly doors?: Door[];
+    readonly graph?: RoomGraphData;
+    readonly vaults?: VaultPlacement[];
+    readonly links?: FloorLink[];
     readonly positions: Record<string, any>;
     readonly terrainConfigs: Record<string, any>;
   };
   readonly startingActors: any[];
   readonly playerSpawnPoints: Array<{ x: number; y: number }>;
   readonly environmentalEffects: any[];
+  readonly interactiveObjects?: any[];
+  readonly narrativeElements?: any[];
   readonly objectives: LevelObjective[];
   readonly tags: string[];
   readonly difficulty: string;
   readonly theme: string;
+  readonly dungeonSet?: {
+    readonly id: string;
+    readonly name: string;
+    readonly seed: number;
+    readonly floor: number;
+    readonly floorCount: number;
+  };
   readonly settings?: {
     readonly allowRespawn: boolean;
     readonly timeLimit: number;
@@ -53,6 +75,8 @@ export interface LevelValidationSchema {
     readonly algorithm: string;
     readonly compressedSize: number;
     readonly generationTime: number;
+    readonly xpBudget?: number;
+    readonly world?: WorldTile;
   };
 }
 
@@ -60,36 +84,41 @@ export interface LevelValidationSchema {
  * Level Structure Validator Class
  */
 export class LevelValidator {
+  private static readonly schemaValidator = new SchemaValidator(LEVEL_SCHEMA);
   private errors: ValidationError[] = [];
   private warnings: ValidationError[] = [];
 
   /**
    * Validate a complete level structure
+   *
+   * @param floors - Levels of the same dungeon set (the level itself may be among them).
+   *                 Link targets are only checked when the floors they lead to are given.
    */
-  validateLevel(levelData: any, filename: string): { isValid: boolean; errors: ValidationError[] } {
+  validateLevel(levelData: any, filename: string, floors: any[] = []): { isValid: boolean; errors: ValidationError[] } {
     this.errors = [];
     this.warnings = [];
 
+    // Validate required fields, types and ranges against LEVEL_SCHEMA
+    this.validateSchema(levelData);
+
+    // The remaining rules are semantic and assume an object to inspect
+    if (!levelData || typeof levelData !== 'object' || Array.isArray(levelData)) {
+      return { isValid: false, errors: [...this.errors] };
+    }
+
     // Validate filename ↔ ID consistency
     this.validateIdConsistency(levelData, filename);
 
-    // Validate top-level structure
-    this.validateTopLevelFields(levelData);
-
-    // Validate map structure
+    // Validate terrain grid against the declared dimensions
     this.validateMapStructure(levelData.map);
+    this.validateMapLayers(levelData.map);
+    this.validateDoors(levelData);
+    this.validateRoomGraph(levelData.map);
+    this.validateVaults(levelData.map);
+    this.validateLinks(levelData, floors);
 
-    // Validate terrain configurations
-    this.validateTerrainConfigs(levelData.map?.terrainConfigs);
-
-    // Validate arrays and collections
-    this.validateArrays(levelData);
-
-    // Validate nested objects
-    this.validateNestedObjects(levelData);
-
-    // Validate data types
-    this.validateDataTypes(levelData);
+    // Validate entity IDs are unique within each collection
+    this.validateUniqueIds(levelData);
 
     // Validate logical consistency
     this.validateLogicalConsistency(levelData);
@@ -101,13 +130,21 @@ export class LevelValidator {
     };
   }
 
+  /**
+   * Validate against LEVEL_SCHEMA; errors are reported at JSON Pointer paths
+   */
+  private validateSchema(levelData: any): void {
+    for (const error of LevelValidator.schemaValidator.validate(levelData)) {
+      this.addError(error.pointer, error.message);
+    }
+  }
+
   /**
    * Validate filename ↔ ID consistency
    */
   private validateIdConsistency(levelData: any, filename: string): void {
-    if (!levelData.id) {
-      this.addError('id', 'Level ID is required');
-      return;
+    if (typeof levelData.id !== 'string') {
+      return; // Missing or mistyped IDs are schema errors
     }
 
     // Extract expected ID from filename (e.g., "bandit-hideout-12345.json" -> "bandit-hideout")
@@ -115,396 +152,497 @@ export class LevelValidator {
     const expectedId = baseName;
 
     if (!levelData.id.includes(expectedId) && expectedId !== levelData.id) {
-      this.addWarning('id', `ID '${levelData.id}' should match filename pattern '${expectedId}'`);
-    }
-
-    // Validate ID format
-    if (!/^[a-z0-9-]+$/.test(levelData.id)) {
-      this.addError('id', `ID '${levelData.id}' contains invalid characters. Use only lowercase letters, numbers, and hyphens.`);
+      this.addWarning('/id', `ID '${levelData.id}' should match filename pattern '${expectedId}'`);
     }
   }
 
   /**
-   * Validate top-level required fields
-   */
-  private validateTopLevelFields(levelData: any): void {
-    const requiredFields: Array<{ field: keyof LevelValidationSchema; type: string; description: string }> = [
-      { field: 'id', type: 'string', description: 'Unique level identifier' },
-      { field: 'name', type: 'string', description: 'Display name' },
-      { field: 'description', type: 'string', description: 'Level description' },
-      { field: 'version', type: 'string', description: 'Version number' },
-      { field: 'author', type: 'string', description: 'Creator name' },
-      { field: 'recommendedLevel', type: 'number', description: 'Recommended player level' },
-      { field: 'estimatedDuration', type: 'number', description: 'Expected play time in minutes' },
-      { field: 'difficulty', type: 'string', description: 'Difficulty level (easy/medium/hard/epic)' },
-      { field: 'theme', type: 'string', description: 'Theme type' },
-      { field: 'tags', type: 'array', description: 'Category tags' },
-      { field: 'startingActors', type: 'array', description: 'Monster array (can be empty)' },
-      { field: 'playerSpawnPoints', type: 'array', description: 'Player starting positions' },
-      { field: 'environmentalEffects', type: 'array', description: 'Environmental effects' },
-      { field: 'objectives', type: 'array', description: 'Victory objectives' },
-      { field: 'map', type: 'object', description: 'Map data' }
-    ];
-
-    // Optional fields for compatibility
-    const optionalFields = ['settings', 'metadata'];
-
-    for (const { field, type, description } of requiredFields) {
-      // Skip optional fields that are missing
-      if (optionalFields.includes(field) && !(field in levelData)) {
-        continue;
-      }
-
-      if (!(field in levelData)) {
-        this.addError(field, `Missing required field: ${field} (${description})`);
-        continue;
-      }
-
-      if (levelData[field] === null || levelData[field] === undefined) {
-        this.addError(field, `Field '${field}' cannot be null or undefined`);
-        continue;
-      }
-
-      // Type validation (skip for optional fields that are missing)
-      if (type === 'array' && !Array.isArray(levelData[field])) {
-        this.addError(field, `Field '${field}' must be an array, got ${typeof levelData[field]}`);
-      } else if (type === 'string' && typeof levelData[field] !== 'string') {
-        this.addError(field, `Field '${field}' must be a string, got ${typeof levelData[field]}`);
-      } else if (type === 'number' && typeof levelData[field] !== 'number') {
-        this.addError(field, `Field '${field}' must be a number, got ${typeof levelData[field]}`);
-      } else if (type === 'object' && (typeof levelData[field] !== 'object' || Array.isArray(levelData[field]))) {
-        // Skip validation for optional fields that are missing
-        if (!optionalFields.includes(field)) {
-          this.addError(field, `Field '${field}' must be an object, got ${typeof levelData[field]}`);
-        }
-      }
-    }
-  }
-
-  /**
-   * Validate map structure
+   * Validate that the terrain grid, and the heightmap if present, match the map dimensions
    */
   private validateMapStructure(mapData: any): void {
-    if (!mapData) {
-      this.addError('map', 'Map data is required');
-      return;
+    const width = mapData?.dimensions?.width;
+    const height = mapData?.dimensions?.height;
+    if (typeof width !== 'number' || typeof height !== 'number' || !Array.isArray(mapData.terrain)) {
+      return; // Missing or mistyped map data is a schema error
     }
 
-    // Validate dimensions
-    if (!mapData.dimensions) {
-      this.addError('map.dimensions', 'Map dimensions are required');
-      return;
+    if (mapData.terrain.length !== height) {
+      this.addError('/map/terrain', `Terrain height (${mapData.terrain.length}) doesn't match dimensions (${height})`);
     }
 
-    if (typeof mapData.dimensions.width !== 'number' || typeof mapData.dimensions.height !== 'number') {
-      this.addError('map.dimensions', 'Map dimensions must be numbers');
-    }
+    mapData.terrain.forEach((row: any, y: number) => {
+      if (Array.isArray(row) && row.length !== width) {
+        this.addError(`/map/terrain/${y}`, `Terrain row ${y} width (${row.length}) doesn't match dimensions (${width})`);
+      }
+    });
 
-    if (mapData.dimensions.width <= 0 || mapData.dimensions.height <= 0) {
-      this.addError('map.dimensions', 'Map dimensions must be positive numbers');
+    if (!Array.isArray(mapData.elevation)) {
+      return; // Elevation is optional; a mistyped one is a schema error
     }
 
-    // Validate terrain array
-    if (!Array.isArray(mapData.terrain)) {
-      this.addError('map.terrain', 'Terrain must be an array');
-      return;
+    if (mapData.elevation.length !== height) {
+      this.addError('/map/elevation', `Elevation height (${mapData.elevation.length}) doesn't match dimensions (${height})`);
     }
 
-    if (mapData.terrain.length !== mapData.dimensions.height) {
-      this.addError('map.terrain', `Terrain height (${mapData.terrain.length}) doesn't match dimensions (${mapData.dimensions.height})`);
+    mapData.elevation.forEach((row: any, y: number) => {
+      if (Array.isArray(row) && row.length !== width) {
+        this.addError(`/map/elevation/${y}`, `Elevation row ${y} width (${row.length}) doesn't match dimensions (${width})`);
+      }
+    });
+  }
+
+  /**
+   * Validate that each feature lies on the map, matches the terrain grid, and has a square to itself
+   */
+  private validateMapLayers(mapData: any): void {
+    const terrain = mapData?.terrain;
+    const features = mapData?.layers?.features;
+    if (!Array.isArray(terrain) || !Array.isArray(features)) {
+      return; // Layers are optional; mistyped ones are schema errors
     }
 
-    for (let y = 0; y < mapData.terrain.length; y++) {
-      const row = mapData.terrain[y];
-      if (!Array.isArray(row)) {
-        this.addError('map.terrain', `Terrain row ${y} must be an array`);
-        continue;
+    const seen = new Set<string>();
+    features.forEach((feature: any, i: number) => {
+      const { x, y } = feature || {};
+      if (typeof x !== 'number' || typeof y !== 'number') return;
+
+      const cell = terrain[y]?.[x];
+      if (cell === undefined) {
+        this.addError(`/map/layers/features/${i}`, `Feature at (${x}, ${y}) is outside the map`);
+        return;
       }
 
-      if (row.length !== mapData.dimensions.width) {
-        this.addError('map.terrain', `Terrain row ${y} width (${row.length}) doesn't match dimensions (${mapData.dimensions.width})`);
+      if (cell !== feature.terrain) {
+        this.addError(
+          `/map/layers/features/${i}/terrain`,
+          `Feature '${feature.terrain}' at (${x}, ${y}) doesn't match terrain '${cell}'`
+        );
       }
 
-      // Validate each cell
-      for (let x = 0; x < row.length; x++) {
-        const cell = row[x];
-        if (typeof cell !== 'string') {
-          this.addError('map.terrain', `Terrain cell [${y},${x}] must be a string, got ${typeof cell}`);
-        } else if (cell.length === 0) {
-          this.addError('map.terrain', `Terrain cell [${y},${x}] cannot be empty string`);
-        }
+      const key = `${x},${y}`;
+      if (seen.has(key)) {
+        this.addWarning(`/map/layers/features/${i}`, `More than one feature at (${x}, ${y}); the last one wins`);
       }
-    }
+      seen.add(key);
+    });
   }
 
   /**
-   * Validate terrain configurations
+   * Validate that each door sits on terrain of its own type, that its key exists, and
+   * that every square of door terrain has a door
    */
-  private validateTerrainConfigs(terrainConfigs: any): void {
-    if (!terrainConfigs || typeof terrainConfigs !== 'object') {
-      this.addError('map.terrainConfigs', 'Terrain configurations must be an object');
-      return;
+  private validateDoors(levelData: any): void {
+    const terrain = levelData.map?.terrain;
+    const doors = levelData.map?.doors ?? [];
+    if (!Array.isArray(terrain) || !Array.isArray(doors)) {
+      return; // Doors are optional; mistyped ones are schema errors
     }
 
-    const usedTerrainTypes = new Set<string>();
+    const hung = new Set(doors.map((door: any) => `${door?.x},${door?.y}`));
+    terrain.forEach((row: any, y: number) => {
+      if (!Array.isArray(row)) return;
+      row.forEach((cell: any, x: number) => {
+        if ((DOOR_TYPES as readonly string[]).includes(cell) && !hung.has(`${x},${y}`)) {
+          this.addError(`/map/terrain/${y}/${x}`, `The ${cell} at (${x}, ${y}) has no entry in map.doors`);
+        }
+      });
+    });
 
-    // Find all terrain types used in the map (we'll need the terrain data for this)
-    // This will be called after map validation, so terrain data should be valid
+    const objects = Array.isArray(levelData.interactiveObjects) ? levelData.interactiveObjects : [];
+    const objectIds = new Set(objects.map((object: any) => object?.id));
+    const seenIds = new Set<string>();
 
-    for (const [terrainType, config] of Object.entries(terrainConfigs)) {
-      if (typeof config !== 'object' || Array.isArray(config)) {
-        this.addError('map.terrainConfigs', `Terrain config for '${terrainType}' must be an object`);
-        continue;
-      }
+    doors.forEach((door: any, i: number) => {
+      if (typeof door?.x !== 'number' || typeof door?.y !== 'number') return;
 
-      // Validate required terrain config fields
-      const requiredFields = ['id', 'name', 'blocksMovement', 'blocksLineOfSight', 'movementCost', 'displayGlyph', 'description'];
-      for (const field of requiredFields) {
-        if (!(field in config)) {
-          this.addError('map.terrainConfigs', `Terrain config '${terrainType}' missing required field: ${field}`);
-        }
+      const cell = terrain[door.y]?.[door.x];
+      if (cell === undefined) {
+        this.addError(`/map/doors/${i}`, `Door '${door.id}' at (${door.x}, ${door.y}) is outside the map`);
+        return;
       }
 
-      // Validate field types
-      if (typeof config.id !== 'string') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.id' must be a string`);
+      if (cell !== door.type) {
+        this.addError(`/map/doors/${i}/type`, `Door '${door.id}' is a ${door.type} but the terrain at (${door.x}, ${door.y}) is '${cell}'`);
       }
 
-      if (typeof config.name !== 'string') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.name' must be a string`);
+      if (seenIds.has(door.id)) {
+        this.addWarning(`/map/doors/${i}/id`, `ID '${door.id}' is used more than once in map.doors`);
       }
+      seenIds.add(door.id);
 
-      if (typeof config.blocksMovement !== 'boolean') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.blocksMovement' must be a boolean`);
+      if (typeof door.keyId === 'string' && !objectIds.has(door.keyId)) {
+        this.addError(`/map/doors/${i}/keyId`, `Door '${door.id}' key '${door.keyId}' does not match any interactive object`);
       }
+    });
+  }
 
-      if (typeof config.blocksLineOfSight !== 'boolean') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.blocksLineOfSight' must be a boolean`);
-      }
+  /**
+   * Validate that rooms and chokepoints lie on the map and corridors join known rooms
+   */
+  private validateRoomGraph(mapData: any): void {
+    const width = mapData?.dimensions?.width;
+    const height = mapData?.dimensions?.height;
+    const graph = mapData?.graph;
+    if (typeof width !== 'number' || typeof height !== 'number' || !graph ||
+        !Array.isArray(graph.rooms) || !Array.isArray(graph.corridors) || !Array.isArray(graph.chokepoints)) {
+      return; // The graph is optional; mistyped ones are schema errors
+    }
 
-      if (typeof config.movementCost !== 'number') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.movementCost' must be a number`);
+    const roomIds = new Set<string>();
+    graph.rooms.forEach((room: any, i: number) => {
+      const bounds = room?.bounds;
+      if (bounds && (bounds.x + bounds.width > width || bounds.y + bounds.height > height)) {
+        this.addError(`/map/graph/rooms/${i}/bounds`, `Room '${room.id}' extends past the ${width}x${height} map`);
       }
 
-      if (typeof config.displayGlyph !== 'string') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.displayGlyph' must be a string`);
+      if (roomIds.has(room?.id)) {
+        this.addWarning(`/map/graph/rooms/${i}/id`, `ID '${room.id}' is used more than once in map.graph.rooms`);
       }
+      roomIds.add(room?.id);
+    });
 
-      if (typeof config.description !== 'string') {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.description' must be a string`);
+    graph.corridors.forEach((corridor: any, i: number) => {
+      for (const end of ['from', 'to'] as const) {
+        if (typeof corridor?.[end] === 'string' && !roomIds.has(corridor[end])) {
+          this.addError(`/map/graph/corridors/${i}/${end}`, `Corridor '${corridor.id}' ${end} '${corridor[end]}' does not match any room`);
+        }
       }
+    });
 
-      // Validate movement cost is non-negative
-      if (config.movementCost < 0) {
-        this.addError('map.terrainConfigs', `Terrain config '${terrainType}.movementCost' cannot be negative`);
+    graph.chokepoints.forEach((chokepoint: any, i: number) => {
+      if (chokepoint?.x >= width || chokepoint?.y >= height) {
+        this.addError(`/map/graph/chokepoints/${i}`, `Chokepoint (${chokepoint.x}, ${chokepoint.y}) is outside the map`);
       }
-    }
+      if (typeof chokepoint?.roomId === 'string' && !roomIds.has(chokepoint.roomId)) {
+        this.addError(`/map/graph/chokepoints/${i}/roomId`, `Chokepoint (${chokepoint.x}, ${chokepoint.y}) room '${chokepoint.roomId}' does not match any room`);
+      }
+    });
   }
 
   /**
-   * Validate arrays and collections
+   * Validate that vaults and their anchors lie on the map and sit in known rooms
    */
-  private validateArrays(levelData: any): void {
-    // Validate startingActors
-    if (!Array.isArray(levelData.startingActors)) {
-      this.addError('startingActors', 'startingActors must be an array');
+  private validateVaults(mapData: any): void {
+    const width = mapData?.dimensions?.width;
+    const height = mapData?.dimensions?.height;
+    if (typeof width !== 'number' || typeof height !== 'number' || !Array.isArray(mapData?.vaults)) {
+      return; // Vaults are optional; mistyped ones are schema errors
     }
 
-    // Validate playerSpawnPoints
-    if (!Array.isArray(levelData.playerSpawnPoints)) {
-      this.addError('playerSpawnPoints', 'playerSpawnPoints must be an array');
-    } else {
-      for (let i = 0; i < levelData.playerSpawnPoints.length; i++) {
-        const spawn = levelData.playerSpawnPoints[i];
-        if (!spawn || typeof spawn !== 'object') {
-          this.addError('playerSpawnPoints', `Spawn point ${i} must be an object`);
-          continue;
-        }
+    const roomIds = new Set((Array.isArray(mapData.graph?.rooms) ? mapData.graph.rooms : []).map((room: any) => room?.id));
+    const seenIds = new Set<string>();
 
-        if (typeof spawn.x !== 'number' || typeof spawn.y !== 'number') {
-          this.addError('playerSpawnPoints', `Spawn point ${i} must have numeric x and y coordinates`);
-        }
+    mapData.vaults.forEach((vault: any, i: number) => {
+      if (vault?.x + vault?.width > width || vault?.y + vault?.height > height) {
+        this.addError(`/map/vaults/${i}`, `Vault '${vault.id}' extends past the ${width}x${height} map`);
+      }
 
-        if (spawn.x < 0 || spawn.y < 0) {
-          this.addError('playerSpawnPoints', `Spawn point ${i} coordinates cannot be negative`);
-        }
+      if (Array.isArray(vault?.anchors)) {
+        vault.anchors.forEach((anchor: any, j: number) => {
+          const inside = anchor?.x >= vault.x && anchor?.x < vault.x + vault.width &&
+            anchor?.y >= vault.y && anchor?.y < vault.y + vault.height;
+          if (!inside) {
+            this.addError(`/map/vaults/${i}/anchors/${j}`, `Vault '${vault.id}' anchor (${anchor?.x}, ${anchor?.y}) is outside the vault`);
+          }
+        });
+      }
+
+      if (typeof vault?.roomId === 'string' && !roomIds.has(vault.roomId)) {
+        this.addError(`/map/vaults/${i}/roomId`, `Vault '${vault.id}' room '${vault.roomId}' does not match any room`);
+      }
+
+      if (seenIds.has(vault?.id)) {
+        this.addWarning(`/map/vaults/${i}/id`, `ID '${vault.id}' is used more than once in map.vaults`);
       }
+      seenIds.add(vault?.id);
+    });
+  }
+
+  /**
+   * Validate that each link sits on terrain of its own type and, when the other floors
+   * are given, that it leads to a walkable square on one of them
+   */
+  private validateLinks(levelData: any, floors: any[]): void {
+    const terrain = levelData.map?.terrain;
+    const links = levelData.map?.links;
+    if (!Array.isArray(terrain) || !Array.isArray(links)) {
+      return; // Links are optional; mistyped ones are schema errors
     }
 
-    // Validate objectives
-    if (!Array.isArray(levelData.objectives)) {
-      this.addError('objectives', 'objectives must be an array');
-    } else {
-      for (let i = 0; i < levelData.objectives.length; i++) {
-        const objective = levelData.objectives[i];
-        if (!objective || typeof objective !== 'object' || Array.isArray(objective)) {
-          this.addError('objectives', `Objective ${i} must be an object`);
-          continue;
-        }
+    const seenIds = new Set<string>();
 
-        const requiredFields: Array<keyof LevelObjective> = ['id', 'type', 'description'];
-        requiredFields.forEach(field => {
-          if (!(field in objective)) {
-            this.addError('objectives', `Objective ${i} missing required field '${field}'`);
-          }
-        });
+    links.forEach((link: any, i: number) => {
+      if (typeof link?.x !== 'number' || typeof link?.y !== 'number') return;
 
-        if (objective.id && typeof objective.id !== 'string') {
-          this.addError('objectives', `Objective ${i} field 'id' must be a string`);
-        }
+      const cell = terrain[link.y]?.[link.x];
+      if (cell === undefined) {
+        this.addError(`/map/links/${i}`, `Link '${link.id}' at (${link.x}, ${link.y}) is outside the map`);
+        return;
+      }
 
-        if (objective.type && typeof objective.type !== 'string') {
-          this.addError('objectives', `Objective ${i} field 'type' must be a string`);
-        }
+      if (cell !== link.type) {
+        this.addError(`/map/links/${i}/type`, `Link '${link.id}' is a ${link.type} but the terrain at (${link.x}, ${link.y}) is '${cell}'`);
+      }
 
-        if (objective.description && typeof objective.description !== 'string') {
-          this.addError('objectives', `Objective ${i} field 'description' must be a string`);
-        }
+      if (seenIds.has(link.id)) {
+        this.addWarning(`/map/links/${i}/id`, `ID '${link.id}' is used more than once in map.links`);
+      }
+      seenIds.add(link.id);
 
-        if (objective.target && typeof objective.target !== 'string') {
-          this.addError('objectives', `Objective ${i} field 'target' must be a string`);
-        }
+      const target = link.target;
+      if (floors.length === 0 || typeof target?.levelId !== 'string') return;
 
-        if (objective.optional !== undefined && typeof objective.optional !== 'boolean') {
-          this.addError('objectives', `Objective ${i} field 'optional' must be a boolean`);
-        }
+      const floor = floors.find(candidate => candidate?.id === target.levelId);
+      if (!floor) {
+        this.addError(`/map/links/${i}/target/levelId`, `Link '${link.id}' leads to level '${target.levelId}', which is not in the dungeon set`);
+        return;
       }
-    }
 
-    // Validate tags
-    if (!Array.isArray(levelData.tags)) {
-      this.addError('tags', 'tags must be an array');
-    } else {
-      for (let i = 0; i < levelData.tags.length; i++) {
-        if (typeof levelData.tags[i] !== 'string') {
-          this.addError('tags', `Tag ${i} must be a string`);
-        }
+      const targetCell = Array.isArray(floor.map?.terrain) ? floor.map.terrain[target.y]?.[target.x] : undefined;
+      if (targetCell === undefined) {
+        this.addError(`/map/links/${i}/target`, `Link '${link.id}' target (${target.x}, ${target.y}) is outside level '${target.levelId}'`);
+      } else if (this.blockingPredicate(floor)(targetCell)) {
+        this.addError(`/map/links/${i}/target`, `Link '${link.id}' target (${target.x}, ${target.y}) on level '${target.levelId}' is on terrain '${targetCell}' that blocks movement`);
       }
-    }
+    });
   }
 
   /**
-   * Validate nested objects
+   * Warn about entity IDs used more than once in a collection
    */
-  private validateNestedObjects(levelData: any): void {
-    // Settings and metadata validation moved to validateDataTypes for optional field handling
+  private validateUniqueIds(levelData: any): void {
+    for (const field of ['interactiveObjects', 'narrativeElements']) {
+      if (!Array.isArray(levelData[field])) continue;
 
-    // Validate metadata only if it exists (skip for compatibility)
-    if (levelData.metadata && (typeof levelData.metadata !== 'object' || Array.isArray(levelData.metadata))) {
-      this.addError('metadata', 'metadata must be an object');
-      return;
+      const seenIds = new Set<string>();
+      levelData[field].forEach((entry: any, i: number) => {
+        if (typeof entry?.id !== 'string') return;
+
+        if (seenIds.has(entry.id)) {
+          this.addWarning(`/${field}/${i}/id`, `ID '${entry.id}' is used more than once in ${field}`);
+        }
+        seenIds.add(entry.id);
+      });
     }
+  }
 
-    if (levelData.metadata) {
-      const requiredMetadata = [
-        { field: 'seed', type: 'number' },
-        { field: 'algorithm', type: 'string' },
-        { field: 'compressedSize', type: 'number' },
-        { field: 'generationTime', type: 'number' }
-      ];
+  /**
+   * Validate logical consistency
+   */
+  private validateLogicalConsistency(levelData: any): void {
+    // Check that terrain types used in map have configurations
+    const terrain = levelData.map?.terrain;
+    const terrainConfigs = levelData.map?.terrainConfigs;
+    if (Array.isArray(terrain) && terrainConfigs && typeof terrainConfigs === 'object') {
+      const usedTerrainTypes = new Set<string>();
 
-      for (const { field, type } of requiredMetadata) {
-        if (!(field in levelData.metadata)) {
-          this.addError(`metadata.${field}`, `Missing required metadata: ${field}`);
-          continue;
+      for (const row of terrain) {
+        if (!Array.isArray(row)) continue;
+        for (const cell of row) {
+          usedTerrainTypes.add(cell);
         }
+      }
 
-        if (typeof levelData.metadata[field] !== type) {
-          this.addError(`metadata.${field}`, `Metadata '${field}' must be a ${type}, got ${typeof levelData.metadata[field]}`);
+      for (const terrainType of usedTerrainTypes) {
+        if (!(terrainType in terrainConfigs)) {
+          this.addError('/map/terrainConfigs', `Terrain type '${terrainType}' used in map but not defined in terrainConfigs`);
         }
       }
     }
+
+    const width = levelData.map?.dimensions?.width;
+    const height = levelData.map?.dimensions?.height;
+    const isInBounds = (position: any): boolean =>
+      position.x >= 0 && position.x < width && position.y >= 0 && position.y < height;
+
+    if (typeof width === 'number' && typeof height === 'number') {
+      // Check that spawn points are within map bounds
+      if (Array.isArray(levelData.playerSpawnPoints)) {
+        levelData.playerSpawnPoints.forEach((spawn: any, i: number) => {
+          if (typeof spawn?.x === 'number' && typeof spawn?.y === 'number' && !isInBounds(spawn)) {
+            this.addError(`/playerSpawnPoints/${i}`, `Spawn point ${i} is outside map bounds (${width}x${height})`);
+          }
+        });
+      }
+
+      // Check that interactive objects and narrative elements are within map bounds
+      const positioned: Array<{ field: string; label: string }> = [
+        { field: 'interactiveObjects', label: 'Interactive object' },
+        { field: 'narrativeElements', label: 'Narrative element' }
+      ];
+
+      for (const { field, label } of positioned) {
+        if (!Array.isArray(levelData[field])) continue;
+
+        levelData[field].forEach((entry: any, i: number) => {
+          const position = entry?.position;
+          if (!position || typeof position.x !== 'number' || typeof position.y !== 'number') return;
+
+          if (!isInBounds(position)) {
+            this.addError(`/${field}/${i}/position`, `${label} ${i} ('${entry.id}') is outside map bounds (${width}x${height})`);
+          }
+        });
+      }
+    }
+
+    // Check that players can reach each other and every objective target
+    this.validateReachability(levelData);
   }
 
   /**
-   * Validate data types and ranges
+   * Validate that all spawn points share one walkable area that reaches every objective target
    */
-  private validateDataTypes(levelData: any): void {
-    // Validate difficulty
-    const validDifficulties = ['easy', 'medium', 'hard', 'epic'];
-    if (!validDifficulties.includes(levelData.difficulty)) {
-      this.addError('difficulty', `Difficulty must be one of: ${validDifficulties.join(', ')}, got '${levelData.difficulty}'`);
+  private validateReachability(levelData: any): void {
+    const terrain = levelData.map?.terrain;
+    if (!Array.isArray(terrain) || !terrain.every((row: any) => Array.isArray(row)) || !Array.isArray(levelData.playerSpawnPoints)) {
+      return;
     }
 
-    // Validate recommendedLevel range
-    if (levelData.recommendedLevel < 1 || levelData.recommendedLevel > 30) {
-      this.addError('recommendedLevel', `Recommended level must be between 1-30, got ${levelData.recommendedLevel}`);
-    }
+    const blocks = this.blockingPredicate(levelData);
+    const analysis = TerrainConnectivity.analyze(terrain, blocks);
+    const spawnRegions = new Set<number>();
+
+    levelData.playerSpawnPoints.forEach((spawn: any, i: number) => {
+      const region = analysis.regionMap[spawn?.y]?.[spawn?.x];
+      if (region === undefined) return; // Malformed or out-of-bounds spawns are reported elsewhere
 
-    // Validate estimatedDuration range
-    if (levelData.estimatedDuration < 15 || levelData.estimatedDuration > 300) {
-      this.addError('estimatedDuration', `Estimated duration must be between 15-300 minutes, got ${levelData.estimatedDuration}`);
+      if (region === -1) {
+        this.addError(`/playerSpawnPoints/${i}`, `Spawn point ${i} is on terrain that blocks movement`);
+      } else {
+        spawnRegions.add(region);
+      }
+    });
+
+    if (spawnRegions.size > 1) {
+      this.addError('/playerSpawnPoints', `Spawn points are split across ${spawnRegions.size} disconnected areas`);
     }
 
-    // Validate version format
-    if (!/^\d+\.\d+\.\d+$/.test(levelData.version)) {
-      this.addError('version', `Version must be in format X.Y.Z, got '${levelData.version}'`);
+    if (spawnRegions.size !== 1) {
+      return;
     }
 
-    // Validate metadata ranges (skip if metadata doesn't exist for compatibility)
-    if (levelData.metadata) {
-      if (levelData.metadata.seed < 0) {
-        this.addError('metadata.seed', 'Seed cannot be negative');
-      }
+    const [spawnRegion] = spawnRegions;
+    this.validateLockedDoors(levelData, blocks);
 
-      if (levelData.metadata.compressedSize < 0 || levelData.metadata.compressedSize > 100) {
-        this.addError('metadata.compressedSize', 'Compressed size percentage must be between 0-100');
-      }
+    if (Array.isArray(levelData.map.links)) {
+      levelData.map.links.forEach((link: any, i: number) => {
+        if (typeof link?.x !== 'number' || typeof link?.y !== 'number') return;
 
-      if (levelData.metadata.generationTime < 0) {
-        this.addError('metadata.generationTime', 'Generation time cannot be negative');
-      }
+        if (terrain[link.y]?.[link.x] !== undefined && !TerrainConnectivity.canReach(analysis, spawnRegion, link)) {
+          this.addError(`/map/links/${i}`, `Link '${link.id}' at (${link.x}, ${link.y}) cannot be reached from the player spawn points`);
+        }
+      });
     }
 
-    // Validate settings ranges (skip if settings doesn't exist for compatibility)
-    if (levelData.settings && (typeof levelData.settings !== 'object' || Array.isArray(levelData.settings))) {
-      this.addError('settings', 'settings must be an object');
+    if (!Array.isArray(levelData.objectives)) {
       return;
     }
+
+    levelData.objectives.forEach((objective: any, i: number) => {
+      if (typeof objective?.target !== 'string') return;
+
+      const positions = this.resolveObjectiveTarget(levelData, objective.target);
+      if (positions.length === 0) {
+        this.addWarning(`/objectives/${i}/target`, `Objective '${objective.id}' target '${objective.target}' does not match any entity or position`);
+        return;
+      }
+
+      const unreachable = positions.filter(position => !TerrainConnectivity.canReach(analysis, spawnRegion, position));
+      if (unreachable.length > 0) {
+        const squares = unreachable.map(position => `${position.x},${position.y}`).join('; ');
+        this.addError(`/objectives/${i}/target`, `Objective '${objective.id}' target '${objective.target}' cannot be reached from the player spawn points (${squares})`);
+      }
+    });
   }
 
   /**
-   * Validate logical consistency
+   * Validate that the players can get past every locked door, either with a key they can
+   * reach or by another way round. Keys found behind opened doors count too.
    */
-  private validateLogicalConsistency(levelData: any): void {
-    // Check that terrain types used in map have configurations
-    if (levelData.map?.terrain && levelData.map?.terrainConfigs) {
-      const usedTerrainTypes = new Set<string>();
+  private validateLockedDoors(levelData: any, blocks: BlockingPredicate): void {
+    const terrain = levelData.map.terrain;
+    const doors: any[] = Array.isArray(levelData.map.doors) ? levelData.map.doors : [];
+    let locked = doors
+      .map((door, index) => ({ door, index }))
+      .filter(({ door }) => door?.state === 'locked' && typeof door.x === 'number' && typeof door.y === 'number');
+    if (locked.length === 0) {
+      return;
+    }
 
-      for (const row of levelData.map.terrain) {
-        for (const cell of row) {
-          usedTerrainTypes.add(cell);
-        }
+    const keys = new Map<string, GridPosition>();
+    (Array.isArray(levelData.interactiveObjects) ? levelData.interactiveObjects : []).forEach((object: any) => {
+      if (typeof object?.id === 'string' && typeof object.position?.x === 'number' && typeof object.position?.y === 'number') {
+        keys.set(object.id, object.position);
       }
+    });
 
-      for (const terrainType of usedTerrainTypes) {
-        if (!(terrainType in levelData.map.terrainConfigs)) {
-          this.addError('map.terrainConfigs', `Terrain type '${terrainType}' used in map but not defined in terrainConfigs`);
-        }
-      }
+    // Regions the players can walk to while the given doors stay locked
+    const explore = (closed: typeof locked): { analysis: ConnectivityAnalysis; regions: number[] } => {
+      const analysis = TerrainConnectivity.analyzeWithBarriers(terrain, closed.map(({ door }) => door), blocks);
+      const regions = levelData.playerSpawnPoints
+        .map((spawn: any) => analysis.regionMap[spawn?.y]?.[spawn?.x])
+        .filter((region: any) => typeof region === 'number' && region !== -1);
+      return { analysis, regions };
+    };
+
+    // Open every door whose key is within reach, until no more doors open
+    let reach = explore(locked);
+    for (;;) {
+      const { analysis, regions } = reach;
+      const opened = locked.filter(({ door }) => {
+        const key = keys.get(door.keyId);
+        return key !== undefined && regions.some(region => TerrainConnectivity.canReach(analysis, region, key));
+      });
+      if (opened.length === 0) break;
+
+      locked = locked.filter(entry => !opened.includes(entry));
+      reach = explore(locked);
     }
 
-    // Check that spawn points are within map bounds
-    if (levelData.map?.dimensions && levelData.playerSpawnPoints) {
-      const { width, height } = levelData.map.dimensions;
+    const { analysis, regions } = reach;
+    for (const { door, index } of locked) {
+      const sides = [[0, -1], [1, 0], [0, 1], [-1, 0]]
+        .map(([dx, dy]) => analysis.regionMap[door.y + dy]?.[door.x + dx] ?? -1)
+        .filter(region => region !== -1);
 
-      for (let i = 0; i < levelData.playerSpawnPoints.length; i++) {
-        const spawn = levelData.playerSpawnPoints[i];
-        if (spawn.x < 0 || spawn.x >= width || spawn.y < 0 || spawn.y >= height) {
-          this.addError('playerSpawnPoints', `Spawn point ${i} is outside map bounds (${width}x${height})`);
-        }
+      if (!sides.every(region => regions.includes(region))) {
+        this.addError(`/map/doors/${index}`, `Locked door '${door.id}' at (${door.x}, ${door.y}) has no reachable key and no alternate route`);
       }
     }
+  }
 
-    // Check that objectives are not empty
-    if (levelData.objectives && levelData.objectives.length === 0) {
-      this.addWarning('objectives', 'No objectives defined for this level');
-    }
+  /**
+   * Whether a terrain type blocks movement under a level's own terrain configs, falling
+   * back to the built-in types
+   */
+  private blockingPredicate(levelData: any): BlockingPredicate {
+    const terrainConfigs = levelData.map?.terrainConfigs || {};
+    return (terrainType: string): boolean =>
+      typeof terrainConfigs[terrainType]?.blocksMovement === 'boolean'
+        ? terrainConfigs[terrainType].blocksMovement
+        : TerrainUtils.blocksMovement(terrainType);
+  }
 
-    // Check that we have at least one spawn point
-    if (levelData.playerSpawnPoints && levelData.playerSpawnPoints.length === 0) {
-      this.addError('playerSpawnPoints', 'At least one player spawn point is required');
+  /**
+   * Resolve an objective target to map positions.
+   * Targets are either "x,y" coordinates or entity ids, where '*' matches any characters
+   * (e.g. "goblin-*" matches every goblin in startingActors).
+   */
+  private resolveObjectiveTarget(levelData: any, target: string): GridPosition[] {
+    const coordinates = target.match(/^\s*(\d+)\s*,\s*(\d+)\s*$/);
+    if (coordinates) {
+      return [{ x: Number(coordinates[1]), y: Number(coordinates[2]) }];
     }
+
+    const escaped = target.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`^${escaped.join('.*')}$`);
+    const entities = ['startingActors', 'interactiveObjects', 'narrativeElements']
+      .flatMap(field => Array.isArray(levelData[field]) ? levelData[field] : []);
+
+    return entities
+      .filter((entity: any) => typeof entity?.id === 'string' && pattern.test(entity.id))
+      .map((entity: any) => entity.position)
+      .filter((position: any) => typeof position?.x === 'number' && typeof position?.y === 'number');
   }
 
   /**
@@ -0,0 +1,397 @@
+/**
+ * Line of Sight and Field of View for FOURE VTT Level Generator
+ *
+ * Shadowcasting field of view, 4e corner-to-corner cover with a high-ground
+ * adjustment, and concealment from lighting and environmental effects.
+ */
+
+import { TerrainUtils, GridPosition } from '../types/terrain.js';
+
+/**
+ * Cover a target has against an attacker
+ */
+export type CoverLevel = 'none' | 'cover' | 'superior';
+
+/**
+ * Concealment a target has against an observer
+ */
+export type ConcealmentLevel = 'none' | 'partial' | 'total';
+
+/**
+ * Light level of a square
+ */
+export type Brightness = 'bright' | 'dim' | 'dark';
+
+/**
+ * Observer vision type
+ * - normal: dim light grants partial concealment, darkness total concealment
+ * - low-light: dim light grants no concealment, darkness total concealment
+ * - darkvision: neither dim light nor darkness grants concealment
+ */
+export type VisionType = 'normal' | 'low-light' | 'darkvision';
+
+/**
+ * The parts of an environmental effect that affect visibility
+ */
+export interface VisibilityEffect {
+  readonly area: GridPosition[] | 'global';
+  readonly effects: {
+    readonly brightness?: Brightness;
+    readonly concealment?: ConcealmentLevel;
+  };
+}
+
+/**
+ * Line of sight settings
+ */
+export interface LineOfSightOptions {
+  /** Lighting and concealment effects, e.g. a level's environmentalEffects */
+  readonly effects?: VisibilityEffect[];
+  /** Sight rules from a level's terrainConfigs; built-in terrain types are used otherwise */
+  readonly terrainConfigs?: Record<string, { readonly blocksLineOfSight: boolean }>;
+  /** Heightmap, e.g. a level's map.elevation; the map is treated as flat otherwise */
+  readonly elevation?: number[][];
+}
+
+/**
+ * Everything an attacker needs to know about a target square
+ */
+export interface TargetAssessment {
+  readonly lineOfSight: boolean;
+  readonly cover: CoverLevel;
+  readonly concealment: ConcealmentLevel;
+}
+
+/**
+ * Octant transforms for shadowcasting: [xx, xy, yx, yy]
+ */
+const OCTANTS: ReadonlyArray<readonly [number, number, number, number]> = [
+  [1, 0, 0, 1], [0, 1, 1, 0], [0, -1, 1, 0], [-1, 0, 0, 1],
+  [-1, 0, 0, -1], [0, -1, -1, 0], [0, 1, -1, 0], [1, 0, 0, -1]
+];
+
+/**
+ * Corner offsets of a square, whose top-left corner is at (x, y)
+ */
+const CORNERS: ReadonlyArray<readonly [number, number]> = [[0, 0], [1, 0], [0, 1], [1, 1]];
+
+const CONCEALMENT_ORDER: ConcealmentLevel[] = ['none', 'partial', 'total'];
+const COVER_ORDER: CoverLevel[] = ['none', 'cover', 'superior'];
+
+/**
+ * Line of sight engine for a single map
+ */
+export class LineOfSight {
+  private terrain: string[][];
+  private width: number;
+  private height: number;
+  private terrainConfigs: Record<string, { readonly blocksLineOfSight: boolean }>;
+  private elevation?: number[][];
+  private lighting: Brightness[][];
+  private effectConcealment: ConcealmentLevel[][];
+
+  constructor(terrain: string[][], options: LineOfSightOptions = {}) {
+    this.terrain = terrain;
+    this.height = terrain.length;
+    this.width = terrain[0]?.length || 0;
+    this.terrainConfigs = options.terrainConfigs || {};
+    this.elevation = options.elevation;
+    this.lighting = this.createGrid<Brightness>('bright');
+    this.effectConcealment = this.createGrid<ConcealmentLevel>('none');
+    this.applyEffects(options.effects || []);
+  }
+
+  /**
+   * Check whether a square blocks line of sight
+   */
+  blocksSight(position: GridPosition): boolean {
+    if (!this.isInBounds(position)) {
+      return true;
+    }
+
+    const terrainType = this.terrain[position.y][position.x];
+    const config = this.terrainConfigs[terrainType];
+    return config ? config.blocksLineOfSight : TerrainUtils.blocksLineOfSight(terrainType);
+  }
+
+  /**
+   * Squares visible from an origin. Recursive shadowcasting finds the candidates and each
+   * is kept only if hasLineOfSight reaches it, so the two never disagree about a square.
+   * Blocking squares at the edge of vision (walls, trees) are included.
+   */
+  computeFieldOfView(origin: GridPosition, radius: number = Math.max(this.width, this.height)): GridPosition[] {
+    const visible = this.createGrid(false);
+
+    if (this.isInBounds(origin)) {
+      visible[origin.y][origin.x] = true;
+      for (const octant of OCTANTS) {
+        this.castLight(origin, radius, 1, 1.0, 0.0, octant, visible);
+      }
+    }
+
+    const cells: GridPosition[] = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (visible[y][x] && this.hasLineOfSight(origin, { x, y })) {
+          cells.push({ x, y });
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * 4e line of sight: some corner of the observer's square has an unblocked line
+   * to some corner of the target's square
+   */
+  hasLineOfSight(from: GridPosition, to: GridPosition): boolean {
+    return CORNERS.some(([fx, fy]) =>
+      CORNERS.some(([tx, ty]) => !this.isLineBlocked(from.x + fx, from.y + fy, to.x + tx, to.y + ty, from, to))
+    );
+  }
+
+  /**
+   * 4e cover: the attacker picks the corner of its square with the fewest blocked lines
+   * to the four corners of the target's square. One or two blocked lines give cover;
+   * three or four give superior cover. Check hasLineOfSight first: a target no line
+   * reaches can't be attacked at all.
+   *
+   * With a heightmap, high ground shifts the result one step: an attacker above its
+   * target reduces the target's cover, and a target above its attacker gains cover.
+   */
+  getCover(attacker: GridPosition, target: GridPosition): CoverLevel {
+    let fewestBlocked = Infinity;
+
+    for (const [ax, ay] of CORNERS) {
+      const blocked = CORNERS.filter(([tx, ty]) =>
+        this.isLineBlocked(attacker.x + ax, attacker.y + ay, target.x + tx, target.y + ty, attacker, target)
+      ).length;
+      fewestBlocked = Math.min(fewestBlocked, blocked);
+    }
+
+    const cover: CoverLevel = fewestBlocked === 0 ? 'none' : fewestBlocked <= 2 ? 'cover' : 'superior';
+    const step = Math.sign(this.getElevation(target) - this.getElevation(attacker));
+
+    return COVER_ORDER[Math.max(0, Math.min(COVER_ORDER.length - 1, COVER_ORDER.indexOf(cover) + step))];
+  }
+
+  /**
+   * Elevation of a square; 0 without a heightmap or outside the map
+   */
+  getElevation(position: GridPosition): number {
+    return this.isInBounds(position) ? this.elevation?.[position.y]?.[position.x] ?? 0 : 0;
+  }
+
+  /**
+   * Light level of a square
+   */
+  getBrightness(position: GridPosition): Brightness {
+    return this.isInBounds(position) ? this.lighting[position.y][position.x] : 'dark';
+  }
+
+  /**
+   * Concealment of a target square from lighting and concealment effects
+   */
+  getConcealment(position: GridPosition, vision: VisionType = 'normal'): ConcealmentLevel {
+    if (!this.isInBounds(position)) {
+      return 'total';
+    }
+
+    const brightness = this.lighting[position.y][position.x];
+    let fromLighting: ConcealmentLevel = 'none';
+    if (brightness === 'dark' && vision !== 'darkvision') {
+      fromLighting = 'total';
+    } else if (brightness === 'dim' && vision === 'normal') {
+      fromLighting = 'partial';
+    }
+
+    return this.strongerConcealment(fromLighting, this.effectConcealment[position.y][position.x]);
+  }
+
+  /**
+   * Line of sight, cover and concealment of a target square from an observer
+   */
+  assessTarget(observer: GridPosition, target: GridPosition, vision: VisionType = 'normal'): TargetAssessment {
+    const lineOfSight = this.hasLineOfSight(observer, target);
+
+    return {
+      lineOfSight,
+      cover: lineOfSight ? this.getCover(observer, target) : 'none',
+      concealment: this.getConcealment(target, vision)
+    };
+  }
+
+  /**
+   * Scan one octant, narrowing the lit slope range as blocking squares cast shadows
+   */
+  private castLight(
+    origin: GridPosition,
+    radius: number,
+    row: number,
+    startSlope: number,
+    endSlope: number,
+    [xx, xy, yx, yy]: readonly [number, number, number, number],
+    visible: boolean[][]
+  ): void {
+    if (startSlope < endSlope) return;
+
+    let start = startSlope;
+    for (let distance = row; distance <= radius; distance++) {
+      let blocked = false;
+      let nextStart = start;
+
+      for (let dx = -distance; dx <= 0; dx++) {
+        const dy = -distance;
+        const leftSlope = (dx - 0.5) / (dy + 0.5);
+        const rightSlope = (dx + 0.5) / (dy - 0.5);
+
+        if (start < rightSlope) continue;
+        if (endSlope > leftSlope) break;
+
+        const position = { x: origin.x + dx * xx + dy * xy, y: origin.y + dx * yx + dy * yy };
+        if (this.isInBounds(position) && dx * dx + dy * dy <= radius * radius) {
+          visible[position.y][position.x] = true;
+        }
+
+        const opaque = this.blocksSight(position);
+        if (blocked) {
+          if (opaque) {
+            nextStart = rightSlope;
+          } else {
+            blocked = false;
+            start = nextStart;
+          }
+        } else if (opaque && distance < radius) {
+          blocked = true;
+          this.castLight(origin, radius, distance + 1, start, leftSlope, [xx, xy, yx, yy], visible);
+          nextStart = rightSlope;
+        }
+      }
+
+      if (blocked) break;
+    }
+  }
+
+  /**
+   * Check whether a line between two grid corners is blocked by sight-blocking terrain:
+   * it passes through the interior of a blocking square, or runs along the seam between
+   * two blocking squares. A line along an edge with open ground on one side is not
+   * blocked, and the squares of the two endpoints never block.
+   */
+  private isLineBlocked(x0: number, y0: number, x1: number, y1: number, from: GridPosition, to: GridPosition): boolean {
+    const minX = Math.max(0, Math.floor(Math.min(x0, x1)) - 1);
+    const maxX = Math.min(this.width - 1, Math.ceil(Math.max(x0, x1)));
+    const minY = Math.max(0, Math.floor(Math.min(y0, y1)) - 1);
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(y0, y1)));
+    const isEndpoint = (x: number, y: number): boolean => (x === from.x && y === from.y) || (x === to.x && y === to.y);
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (isEndpoint(x, y) || !this.blocksSight({ x, y })) continue;
+
+        const midpoint = this.clipToSquare(x0, y0, x1, y1, x, y);
+        if (!midpoint) continue;
+
+        const across = this.squareAcrossEdge(midpoint, x, y);
+        if (!across) return true;
+        if (!isEndpoint(across.x, across.y) && this.blocksSight(across)) return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Segment vs. closed unit square test (Liang-Barsky clipping). Returns the midpoint of
+   * the part of the segment inside the square, or null when that part has no length.
+   * Within a convex square, a clipped segment that touches the interior has its midpoint
+   * there; one that doesn't runs along an edge.
+   */
+  private clipToSquare(
+    x0: number, y0: number, x1: number, y1: number, squareX: number, squareY: number
+  ): { x: number; y: number } | null {
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    let tMin = 0;
+    let tMax = 1;
+
+    const clips: Array<[number, number]> = [
+      [-dx, x0 - squareX],
+      [dx, squareX + 1 - x0],
+      [-dy, y0 - squareY],
+      [dy, squareY + 1 - y0]
+    ];
+
+    for (const [p, q] of clips) {
+      if (p === 0) {
+        if (q < 0) return null;
+      } else {
+        const t = q / p;
+        if (p < 0) tMin = Math.max(tMin, t);
+        else tMax = Math.min(tMax, t);
+      }
+    }
+
+    if (tMax - tMin <= 1e-9) return null;
+
+    const midT = (tMin + tMax) / 2;
+    return { x: x0 + dx * midT, y: y0 + dy * midT };
+  }
+
+  /**
+   * The neighbouring square across the edge a point lies on, or null when the point is
+   * inside the square
+   */
+  private squareAcrossEdge(point: { x: number; y: number }, squareX: number, squareY: number): GridPosition | null {
+    const epsilon = 1e-9;
+    if (point.x <= squareX + epsilon) return { x: squareX - 1, y: squareY };
+    if (point.x >= squareX + 1 - epsilon) return { x: squareX + 1, y: squareY };
+    if (point.y <= squareY + epsilon) return { x: squareX, y: squareY - 1 };
+    if (point.y >= squareY + 1 - epsilon) return { x: squareX, y: squareY + 1 };
+    return null;
+  }
+
+  /**
+   * Build lighting and concealment grids. Area effects override global ones;
+   * later effects override earlier ones in the same scope.
+   */
+  private applyEffects(effects: VisibilityEffect[]): void {
+    const ordered = [
+      ...effects.filter(effect => effect.area === 'global'),
+      ...effects.filter(effect => effect.area !== 'global')
+    ];
+
+    for (const effect of ordered) {
+      const { brightness, concealment } = effect.effects || {};
+      const cells = effect.area === 'global' ? null : effect.area;
+
+      const apply = (x: number, y: number): void => {
+        if (brightness) this.lighting[y][x] = brightness;
+        if (concealment) this.effectConcealment[y][x] = concealment;
+      };
+
+      if (cells) {
+        cells.filter(cell => this.isInBounds(cell)).forEach(cell => apply(cell.x, cell.y));
+      } else {
+        for (let y = 0; y < this.height; y++) {
+          for (let x = 0; x < this.width; x++) {
+            apply(x, y);
+          }
+        }
+      }
+    }
+  }
+
+  private strongerConcealment(a: ConcealmentLevel, b: ConcealmentLevel): ConcealmentLevel {
+    return CONCEALMENT_ORDER.indexOf(a) >= CONCEALMENT_ORDER.indexOf(b) ? a : b;
+  }
+
+  private isInBounds(position: GridPosition): boolean {
+    return position.x >= 0 && position.x < this.width && position.y >= 0 && position.y < this.height;
+  }
+
+  private createGrid<T>(value: T): T[][] {
+    return Array(this.height).fill(null).map(() => Array(this.width).fill(value));
+  }
+}
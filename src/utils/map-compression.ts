@@ -1,11 +1,13 @@
 /**
  * Compact Map Representation and Compression for FOURE VTT Level Generator
  *
- * This module provides efficient storage and compression strategies for 25x25 maps,
+ * This module provides efficient storage and compression strategies for tactical maps
+ * (25x25 by default, up to MAP_DIMENSION_LIMITS.max per side),
  * including run-length encoding and various serialization formats.
  */
 
-import { CompactMapData, MapCell } from '../types/terrain.js';
+import { CompactMapData, MapCell, MapDimensions, MapFeature, MAP_DIMENSION_LIMITS } from '../types/terrain.js';
+import { LayeredMap, MapObjectPlacement, MapEffectZone } from './layered-map.js';
 
 /**
  * Run-Length Encoding (RLE) for terrain layers
@@ -32,6 +34,20 @@ export interface CompressedMapData {
   };
 }
 
+/**
+ * Compressed layered map. rleData holds the flattened terrain, so
+ * decompressMap still returns the playable grid.
+ */
+export interface CompressedLayeredMapData extends CompressedMapData {
+  readonly layers: {
+    readonly features: MapFeature[];
+    /** Heightmap rows, levels encoded as strings */
+    readonly elevation?: RLERow[];
+    readonly objects: MapObjectPlacement[];
+    readonly effects: MapEffectZone[];
+  };
+}
+
 /**
  * Map Compression Utilities
  */
@@ -43,30 +59,7 @@ export class MapCompression {
     const height = terrainLayer.length;
     const width = terrainLayer[0]?.length || 0;
 
-    const rleData: RLERow[] = [];
-
-    for (let y = 0; y < height; y++) {
-      const row = terrainLayer[y];
-      const segments: RLESegment[] = [];
-
-      let currentTerrain = row[0];
-      let count = 1;
-
-      for (let x = 1; x < width; x++) {
-        if (row[x] === currentTerrain) {
-          count++;
-        } else {
-          segments.push({ terrain: currentTerrain, count });
-          currentTerrain = row[x];
-          count = 1;
-        }
-      }
-
-      // Add final segment
-      segments.push({ terrain: currentTerrain, count });
-
-      rleData.push({ segments, y });
-    }
+    const rleData = this.encodeRows(terrainLayer);
 
     const originalSize = height * width;
     const compressedSize = rleData.reduce((sum, row) => sum + row.segments.length, 0);
@@ -88,25 +81,40 @@ export class MapCompression {
    * Decompress RLE data back to 2D terrain array
    */
   static decompressMap(compressedData: CompressedMapData): string[][] {
-    const { width, height, rleData } = compressedData;
-    const terrainLayer: string[][] = [];
+    return this.decodeRows(compressedData.rleData, compressedData.dimensions.height);
+  }
 
-    for (let y = 0; y < height; y++) {
-      const row: string[] = [];
-      const rleRow = rleData.find(r => r.y === y);
+  /**
+   * Compress a layered map: the flattened terrain as in compressMap, plus its
+   * feature overlay, RLE-encoded heightmap, objects and effect zones
+   */
+  static compressLayers(map: LayeredMap, seed: number, theme: string): CompressedLayeredMapData {
+    const elevation = map.getElevationLayer();
 
-      if (rleRow) {
-        for (const segment of rleRow.segments) {
-          for (let i = 0; i < segment.count; i++) {
-            row.push(segment.terrain);
-          }
-        }
+    return {
+      ...this.compressMap(map.getTerrainLayer(), seed, theme),
+      layers: {
+        features: map.getLayers().features,
+        ...(elevation ? { elevation: this.encodeRows(elevation.map(row => row.map(String))) } : {}),
+        objects: map.getObjects(),
+        effects: map.getEffects()
       }
+    };
+  }
 
-      terrainLayer.push(row);
-    }
-
-    return terrainLayer;
+  /**
+   * Decompress a layered map produced by compressLayers
+   */
+  static decompressLayers(compressedData: CompressedLayeredMapData): LayeredMap {
+    const { dimensions: { height }, layers } = compressedData;
+
+    return new LayeredMap({
+      terrain: this.decompressMap(compressedData),
+      layers: { features: layers.features },
+      elevation: layers.elevation && this.decodeRows(layers.elevation, height).map(row => row.map(Number)),
+      objects: layers.objects,
+      effects: layers.effects
+    });
   }
 
   /**
@@ -166,6 +174,59 @@ export class MapCompression {
     };
   }
 
+  /**
+   * Run-length encode each row of a grid
+   */
+  private static encodeRows(grid: string[][]): RLERow[] {
+    const width = grid[0]?.length || 0;
+
+    return grid.map((row, y) => {
+      const segments: RLESegment[] = [];
+
+      let currentTerrain = row[0];
+      let count = 1;
+
+      for (let x = 1; x < width; x++) {
+        if (row[x] === currentTerrain) {
+          count++;
+        } else {
+          segments.push({ terrain: currentTerrain, count });
+          currentTerrain = row[x];
+          count = 1;
+        }
+      }
+
+      // Add final segment
+      segments.push({ terrain: currentTerrain, count });
+
+      return { segments, y };
+    });
+  }
+
+  /**
+   * Expand run-length encoded rows back into a grid
+   */
+  private static decodeRows(rleData: RLERow[], height: number): string[][] {
+    const grid: string[][] = [];
+
+    for (let y = 0; y < height; y++) {
+      const row: string[] = [];
+      const rleRow = rleData.find(r => r.y === y);
+
+      if (rleRow) {
+        for (const segment of rleRow.segments) {
+          for (let i = 0; i < segment.count; i++) {
+            row.push(segment.terrain);
+          }
+        }
+      }
+
+      grid.push(row);
+    }
+
+    return grid;
+  }
+
   /**
    * Calculate compression statistics
    */
@@ -235,12 +296,13 @@ export class SeedMap {
     seed: number,
     theme: string,
     algorithm: string,
-    parameters: Record<string, number | string | boolean>
+    parameters: Record<string, number | string | boolean>,
+    dimensions: MapDimensions = { width: MAP_DIMENSION_LIMITS.defaultWidth, height: MAP_DIMENSION_LIMITS.defaultHeight }
   ): GenerationParams {
     return {
       seed,
       theme,
-      dimensions: { width: 25, height: 25 },
+      dimensions: { width: dimensions.width, height: dimensions.height },
       algorithm,
       parameters
     };
@@ -0,0 +1,380 @@
+/**
+ * Map Editor for FOURE VTT Level Generator
+ *
+ * Tweaks a generated level after the fact instead of hand-editing its JSON: paint
+ * squares, rectangles, lines and flood fills, stamp prefab vaults, move spawn points and
+ * add or remove effect zones. Every edit can be undone and redone. After each one the
+ * level's terrain configs and compressed size are brought up to date and it is validated.
+ */
+
+import { GeneratedLevel, LevelGenerator } from '../generators/level-generator.js';
+import { EnvironmentalEffect } from '../generators/environmental-storyteller.js';
+import { DoorType, DOOR_TYPES, GridPosition, TerrainUtils } from '../types/terrain.js';
+import { PrefabRegistry, PrefabRotation } from '../types/prefab.js';
+import { MapCompression } from './map-compression.js';
+import { LevelValidator, ValidationError } from './level-validator.js';
+
+/**
+ * Edits kept for undoing; older ones are forgotten
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Validation of a level after an edit
+ */
+export interface EditValidation {
+  readonly isValid: boolean;
+  /** Errors and warnings */
+  readonly errors: ValidationError[];
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+/**
+ * Working copy of a level an edit writes into
+ */
+type LevelDraft = Mutable<Omit<GeneratedLevel, 'map' | 'metadata'>> & {
+  map: Mutable<GeneratedLevel['map']>;
+  metadata: Mutable<GeneratedLevel['metadata']>;
+};
+
+interface HistoryEntry {
+  readonly level: GeneratedLevel;
+  readonly validation: EditValidation;
+}
+
+/**
+ * Undoable editor for a generated level
+ */
+export class MapEditor {
+  private level: GeneratedLevel;
+  private validation: EditValidation;
+  private filename: string;
+  private validator = new LevelValidator();
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  /**
+   * @param level - Level to edit; it is copied, never changed in place
+   * @param filename - Name the level is saved under, for the validator's ID check
+   */
+  constructor(level: GeneratedLevel, filename: string = `${level.id}.json`) {
+    this.level = MapEditor.copy(level);
+    this.filename = filename;
+    this.validation = this.validate(this.level);
+  }
+
+  /**
+   * The level as edited so far
+   */
+  getLevel(): GeneratedLevel {
+    return MapEditor.copy(this.level);
+  }
+
+  /**
+   * Validation of the level as edited so far
+   */
+  getValidation(): EditValidation {
+    return this.validation;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Go back to the level before the last edit; returns whether there was one to undo
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    this.redoStack.push({ level: this.level, validation: this.validation });
+    ({ level: this.level, validation: this.validation } = entry);
+    return true;
+  }
+
+  /**
+   * Reapply the last undone edit; returns whether there was one to redo
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+
+    this.undoStack.push({ level: this.level, validation: this.validation });
+    ({ level: this.level, validation: this.validation } = entry);
+    return true;
+  }
+
+  /**
+   * Paint one square
+   */
+  paintCell(position: GridPosition, terrain: string): EditValidation {
+    return this.edit(draft => this.paint(draft, [position], terrain));
+  }
+
+  /**
+   * Paint the rectangle between two corner squares, or only its outline when not filled
+   */
+  paintRect(from: GridPosition, to: GridPosition, terrain: string, filled: boolean = true): EditValidation {
+    const [left, right] = [Math.min(from.x, to.x), Math.max(from.x, to.x)];
+    const [top, bottom] = [Math.min(from.y, to.y), Math.max(from.y, to.y)];
+    const squares: GridPosition[] = [];
+
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        if (filled || x === left || x === right || y === top || y === bottom) {
+          squares.push({ x, y });
+        }
+      }
+    }
+
+    return this.edit(draft => this.paint(draft, squares, terrain));
+  }
+
+  /**
+   * Paint a straight line of squares from one square to another. Diagonal steps are
+   * filled out to an orthogonal step, so a painted wall leaves no gap to slip through.
+   */
+  paintLine(from: GridPosition, to: GridPosition, terrain: string): EditValidation {
+    const squares: GridPosition[] = [];
+    const dx = Math.abs(to.x - from.x);
+    const dy = Math.abs(to.y - from.y);
+    const stepX = Math.sign(to.x - from.x);
+    const stepY = Math.sign(to.y - from.y);
+    let { x, y } = from;
+    let error = dx - dy;
+
+    squares.push({ x, y });
+    while (x !== to.x || y !== to.y) {
+      const doubled = 2 * error;
+      if (doubled > -dy) {
+        error -= dy;
+        x += stepX;
+        squares.push({ x, y });
+      }
+      if (doubled < dx && (x !== to.x || y !== to.y)) {
+        error += dx;
+        y += stepY;
+        squares.push({ x, y });
+      }
+    }
+
+    return this.edit(draft => this.paint(draft, squares, terrain));
+  }
+
+  /**
+   * Paint the square and every square of the same terrain joined to it orthogonally
+   */
+  floodFill(start: GridPosition, terrain: string): EditValidation {
+    this.assertInBounds(this.level, start);
+    const grid = this.level.map.terrain;
+    const target = grid[start.y][start.x];
+    const squares: GridPosition[] = [];
+    const seen = new Set<string>([`${start.x},${start.y}`]);
+    const queue: GridPosition[] = [start];
+
+    while (queue.length > 0) {
+      const square = queue.shift()!;
+      squares.push(square);
+
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const next = { x: square.x + dx, y: square.y + dy };
+        const key = `${next.x},${next.y}`;
+        if (grid[next.y]?.[next.x] === target && !seen.has(key)) {
+          seen.add(key);
+          queue.push(next);
+        }
+      }
+    }
+
+    return this.edit(draft => this.paint(draft, squares, terrain));
+  }
+
+  /**
+   * Stamp a registered prefab with its top-left square at an origin, mirrored left to
+   * right first if asked and then turned clockwise. Blocking squares beyond its anchors
+   * are cleared, as when vaults are stamped during generation, and the vault is recorded
+   * in map.vaults.
+   */
+  stampPrefab(
+    prefabId: string,
+    origin: GridPosition,
+    rotation: PrefabRotation = 0,
+    mirrored: boolean = false,
+    registry: PrefabRegistry = PrefabRegistry.default
+  ): EditValidation {
+    const variant = registry.getVariant(prefabId, rotation, mirrored);
+    const { width, height } = this.level.map.dimensions;
+    if (origin.x < 0 || origin.y < 0 || origin.x + variant.width > width || origin.y + variant.height > height) {
+      throw new Error(`Prefab '${prefabId}' at (${origin.x}, ${origin.y}) extends past the ${width}x${height} map`);
+    }
+
+    return this.edit(draft => {
+      variant.cells.forEach((row, dy) => row.forEach((cell, dx) => {
+        if (cell !== null) {
+          this.paint(draft, [{ x: origin.x + dx, y: origin.y + dy }], cell);
+        }
+      }));
+
+      const anchors = variant.anchors.map(anchor => ({ ...anchor, x: origin.x + anchor.x, y: origin.y + anchor.y }));
+      anchors.forEach(anchor => {
+        const exit = PrefabRegistry.getAnchorExit(anchor);
+        const terrainType = draft.map.terrain[exit.y]?.[exit.x];
+        if (terrainType !== undefined && TerrainUtils.blocksMovement(terrainType)) {
+          this.paint(draft, [exit], 'empty');
+        }
+      });
+
+      const vaults = draft.map.vaults || [];
+      const ids = new Set(vaults.map(vault => vault.id));
+      let index = vaults.length;
+      while (ids.has(`vault-${index}`)) index++;
+
+      draft.map.vaults = [...vaults, {
+        id: `vault-${index}`,
+        prefab: variant.prefab,
+        x: origin.x,
+        y: origin.y,
+        width: variant.width,
+        height: variant.height,
+        rotation: variant.rotation,
+        mirrored: variant.mirrored,
+        anchors
+      }];
+    });
+  }
+
+  /**
+   * Move one of the players' spawn points to another square
+   */
+  moveSpawnPoint(index: number, position: GridPosition): EditValidation {
+    const count = this.level.playerSpawnPoints.length;
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      throw new Error(`No spawn point ${index}; the level has ${count}`);
+    }
+    this.assertInBounds(this.level, position);
+
+    return this.edit(draft => {
+      draft.playerSpawnPoints = draft.playerSpawnPoints.map((spawn, i) =>
+        i === index ? { x: position.x, y: position.y } : spawn
+      );
+    });
+  }
+
+  /**
+   * Add a copy of an effect zone to the level's environmentalEffects
+   */
+  addEffectZone(zone: EnvironmentalEffect): EditValidation {
+    // Keep a copy, so later changes to the caller's object can't reach the level or its history
+    const effect: EnvironmentalEffect = JSON.parse(JSON.stringify(zone));
+    if (this.level.environmentalEffects.some(existing => existing.id === effect.id)) {
+      throw new Error(`An effect zone with ID '${effect.id}' already exists`);
+    }
+    if (effect.area !== 'global') {
+      effect.area.forEach(square => this.assertInBounds(this.level, square));
+    }
+
+    return this.edit(draft => {
+      draft.environmentalEffects = [...draft.environmentalEffects, effect];
+    });
+  }
+
+  /**
+   * Remove an effect zone by ID
+   */
+  removeEffectZone(id: string): EditValidation {
+    if (!this.level.environmentalEffects.some(effect => effect.id === id)) {
+      throw new Error(`No effect zone with ID '${id}'`);
+    }
+
+    return this.edit(draft => {
+      draft.environmentalEffects = draft.environmentalEffects.filter(effect => effect.id !== id);
+    });
+  }
+
+  /**
+   * Apply a change to a copy of the level, bring its derived fields up to date, validate
+   * it, and make it the current level with the old one kept for undoing
+   */
+  private edit(change: (draft: LevelDraft) => void): EditValidation {
+    const draft = MapEditor.copy(this.level) as LevelDraft;
+    change(draft);
+
+    draft.map.terrainConfigs = LevelGenerator.generateTerrainConfigs(draft.map.terrain);
+    draft.metadata.compressedSize = Number(
+      MapCompression.getCompressionStats(draft.map.terrain).compressionRatio.toFixed(2)
+    );
+
+    this.undoStack.push({ level: this.level, validation: this.validation });
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+
+    this.level = draft;
+    this.validation = this.validate(draft);
+    return this.validation;
+  }
+
+  /**
+   * Write terrain into squares. Whatever stood on a square goes: its feature, and its
+   * door unless the square is painted with that same door. Squares painted with a door
+   * type get a new door in map.doors, locked if it's a locked door or portcullis.
+   */
+  private paint(draft: LevelDraft, squares: GridPosition[], terrain: string): void {
+    if (!TerrainUtils.getTerrain(terrain)) {
+      throw new Error(`Unknown terrain '${terrain}'`);
+    }
+    squares.forEach(square => this.assertInBounds(draft, square));
+
+    const painted = new Set(squares.map(square => `${square.x},${square.y}`));
+    const isPainted = (x: number, y: number): boolean => painted.has(`${x},${y}`);
+
+    squares.forEach(({ x, y }) => { draft.map.terrain[y][x] = terrain; });
+
+    if (draft.map.layers) {
+      draft.map.layers = { features: draft.map.layers.features.filter(feature => !isPainted(feature.x, feature.y)) };
+    }
+    const isDoor = (DOOR_TYPES as readonly string[]).includes(terrain);
+    if (draft.map.doors || isDoor) {
+      const doors = (draft.map.doors || []).filter(door => !isPainted(door.x, door.y) || door.type === terrain);
+      if (isDoor) {
+        const type = terrain as DoorType;
+        const state = type === 'locked-door' || type === 'portcullis' ? 'locked' : 'closed';
+        const ids = new Set(doors.map(door => door.id));
+        const hung = new Set(doors.map(door => `${door.x},${door.y}`));
+        let index = doors.length;
+
+        squares.forEach(({ x, y }) => {
+          if (hung.has(`${x},${y}`)) return;
+          hung.add(`${x},${y}`);
+          while (ids.has(`door-${index}`)) index++;
+          ids.add(`door-${index}`);
+          doors.push({ id: `door-${index}`, x, y, type, state });
+        });
+      }
+      draft.map.doors = doors;
+    }
+  }
+
+  private validate(level: GeneratedLevel): EditValidation {
+    return this.validator.validateLevel(level, this.filename);
+  }
+
+  private assertInBounds(level: GeneratedLevel, position: GridPosition): void {
+    const { x, y } = position;
+    const { width, height } = level.map.dimensions;
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= width || y >= height) {
+      throw new Error(`Position (${x}, ${y}) is outside the ${width}x${height} map`);
+    }
+  }
+
+  private static copy(level: GeneratedLevel): GeneratedLevel {
+    return JSON.parse(JSON.stringify(level));
+  }
+}
@@ -5,7 +5,13 @@
  * and colored output for better visualization.
  */
 
-import { TerrainUtils, TERRAIN_TYPES } from '../types/terrain.js';
+import { TerrainUtils, TerrainRegistry, ELEVATION_LIMITS } from '../types/terrain.js';
+import { ThemeRegistry } from '../types/theme.js';
+
+/**
+ * Heightmap glyphs from the lowest to the highest supported elevation
+ */
+const ELEVATION_GLYPHS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇'];
 
 /**
  * Map Renderer with visual enhancements
@@ -46,7 +52,7 @@ export class MapRenderer {
    * Generate a legend showing all terrain types
    */
   private static generateLegend(): string {
-    const terrainTypes = Object.values(TERRAIN_TYPES);
+    const terrainTypes = TerrainRegistry.default.getAll();
     let legend = '\n🏗️  Terrain Legend:\n';
 
     // Group by category for better organization
@@ -142,12 +148,12 @@ export class MapRenderer {
 
         for (let dy = 0; dy < scaleX && originalY + dy < height; dy++) {
           for (let dx = 0; dx < scaleX && originalX + dx < width; dx++) {
-            const terrain = terrain[originalY + dy][originalX + dx];
-            terrainCounts[terrain] = (terrainCounts[terrain] || 0) + 1;
+            const terrainType = terrain[originalY + dy][originalX + dx];
+            terrainCounts[terrainType] = (terrainCounts[terrainType] || 0) + 1;
 
-            if (terrainCounts[terrain] > maxCount) {
-              maxCount = terrainCounts[terrain];
-              mostCommon = terrain;
+            if (terrainCounts[terrainType] > maxCount) {
+              maxCount = terrainCounts[terrainType];
+              mostCommon = terrainType;
             }
           }
         }
@@ -159,31 +165,42 @@ export class MapRenderer {
     return this.renderSimple(scaledTerrain);
   }
 
+  /**
+   * Render a heightmap, one bar glyph per level. Blocking terrain at ground level
+   * (walls, trees) keeps its terrain glyph so the layout stays readable.
+   */
+  static renderElevation(terrain: string[][], elevation: number[][]): string {
+    const { min, max } = ELEVATION_LIMITS;
+    let output = '\n⛰️  ELEVATION MAP\n' + '═'.repeat(terrain[0].length) + '\n';
+
+    for (let y = 0; y < terrain.length; y++) {
+      let row = '';
+      for (let x = 0; x < terrain[0].length; x++) {
+        const level = elevation[y]?.[x] ?? 0;
+        if (level === 0 && TerrainUtils.blocksMovement(terrain[y][x])) {
+          row += TerrainUtils.getDisplayGlyph(terrain[y][x]);
+        } else {
+          row += ELEVATION_GLYPHS[Math.max(min, Math.min(max, level)) - min];
+        }
+      }
+      output += row + '\n';
+    }
+
+    const legend = ELEVATION_GLYPHS.map((glyph, i) => `${glyph} ${i + min > 0 ? '+' : ''}${i + min}`).join('  ');
+    output += `\n📏 Levels: ${legend}\n`;
+
+    return output;
+  }
+
   /**
    * Render with theme-specific styling
    */
   static renderThemed(terrain: string[][], theme: string): string {
     let header = '\n';
 
-    switch (theme) {
-      case 'dungeon':
-        header += '🏰 DUNGEON MAP\n';
-        break;
-      case 'wilderness':
-        header += '🌲 WILDERNESS MAP\n';
-        break;
-      case 'underground':
-        header += '🕳️  UNDERGROUND MAP\n';
-        break;
-      case 'urban':
-        header += '🏙️  URBAN MAP\n';
-        break;
-      case 'mystical':
-        header += '✨ MYSTICAL MAP\n';
-        break;
-      default:
-        header += '🗺️  GENERATED MAP\n';
-    }
+    const definition = ThemeRegistry.default.get(theme);
+    const banner = definition?.banner || (definition ? `🗺️  ${definition.name.toUpperCase()} MAP` : '🗺️  GENERATED MAP');
+    header += `${banner}\n`;
 
     header += '═'.repeat(terrain[0].length) + '\n';
 
@@ -239,7 +256,7 @@ export class MapRenderer {
 
     sortedTypes.forEach(([type, count]) => {
       const percentage = stats[`${type}_percentage`];
-      const terrainInfo = TERRAIN_TYPES[type];
+      const terrainInfo = TerrainUtils.getTerrain(type);
       const name = terrainInfo ? terrainInfo.name : type;
 
       output += `  ${TerrainUtils.getDisplayGlyph(type)} ${name}: ${count} cells (${percentage.toFixed(1)}%)\n`;
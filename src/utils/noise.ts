@@ -0,0 +1,84 @@
+/**
+ * Coherent Noise for FOURE VTT Level Generator
+ *
+ * Seeded 2D gradient (Perlin) noise. Nearby points get similar values, so thresholding
+ * a field gives blobs and bands - ponds, thickets, veins - rather than the scattered
+ * specks of an independent roll per square.
+ */
+
+import { SeededRandom } from './seeded-random.js';
+
+/**
+ * Unit gradients at the lattice corners, eight evenly spaced directions
+ */
+const GRADIENTS: ReadonlyArray<readonly [number, number]> = Array.from({ length: 8 }, (_, i) => {
+  const angle = (i * Math.PI) / 4;
+  return [Math.cos(angle), Math.sin(angle)] as const;
+});
+
+/**
+ * Seeded 2D gradient noise field
+ */
+export class NoiseField {
+  private permutation: number[];
+
+  /**
+   * @param random - Stream the lattice is shuffled from; the same stream state gives the same field
+   */
+  constructor(random: SeededRandom) {
+    const shuffled = random.shuffle(Array.from({ length: 256 }, (_, i) => i));
+    this.permutation = [...shuffled, ...shuffled];
+  }
+
+  /**
+   * Noise at a point, in [-1, 1]. The lattice is one unit apart, so divide square
+   * coordinates by the feature size wanted before sampling.
+   */
+  sample(x: number, y: number): number {
+    const cellX = Math.floor(x);
+    const cellY = Math.floor(y);
+    const fx = x - cellX;
+    const fy = y - cellY;
+    const u = NoiseField.fade(fx);
+    const v = NoiseField.fade(fy);
+
+    const corner = (dx: number, dy: number): number => {
+      const hash = this.permutation[this.permutation[(cellX + dx) & 255] + ((cellY + dy) & 255)];
+      const [gx, gy] = GRADIENTS[hash & 7];
+      return gx * (fx - dx) + gy * (fy - dy);
+    };
+
+    const top = corner(0, 0) + u * (corner(1, 0) - corner(0, 0));
+    const bottom = corner(0, 1) + u * (corner(1, 1) - corner(0, 1));
+    // Gradient noise peaks at √2/2 with unit gradients; scale it out to the full range
+    return Math.SQRT2 * (top + v * (bottom - top));
+  }
+
+  /**
+   * Octaves of noise summed, each at twice the frequency and `persistence` times the
+   * weight of the last, in [-1, 1]. More octaves give rougher edges to the same shapes.
+   */
+  fractal(x: number, y: number, octaves: number = 3, persistence: number = 0.5): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let range = 0;
+
+    for (let octave = 0; octave < octaves; octave++) {
+      // Offset each octave so their lattices don't line up at the origin
+      total += amplitude * this.sample(x * frequency + octave * 17.3, y * frequency + octave * 31.7);
+      range += amplitude;
+      amplitude *= persistence;
+      frequency *= 2;
+    }
+
+    return total / range;
+  }
+
+  /**
+   * Perlin's quintic ease curve, which keeps the field smooth across lattice cells
+   */
+  private static fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+  }
+}
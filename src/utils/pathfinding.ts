@@ -0,0 +1,326 @@
+/**
+ * Pathfinding for FOURE VTT Level Generator
+ *
+ * Dijkstra and A* search over terrain grids using each terrain type's movement cost,
+ * 4e diagonal movement rules, and per-creature movement profiles.
+ */
+
+import { TerrainUtils, GridPosition } from '../types/terrain.js';
+
+/**
+ * Per-terrain movement rule override
+ */
+export interface TerrainMovementOverride {
+  readonly blocksMovement?: boolean;
+  readonly movementCost?: number;
+}
+
+/**
+ * How a kind of creature moves across terrain
+ */
+export interface MovementProfile {
+  readonly id: string;
+  readonly name: string;
+  readonly terrainOverrides: Readonly<Record<string, TerrainMovementOverride>>;
+}
+
+/**
+ * Movement rules for a single terrain type, as level files store them in terrainConfigs
+ */
+export interface TerrainMovementRules {
+  readonly blocksMovement: boolean;
+  readonly movementCost: number;
+}
+
+/**
+ * A path between two squares
+ */
+export interface PathResult {
+  /** Squares from start to goal, both included */
+  readonly path: GridPosition[];
+  /** Total movement cost in squares */
+  readonly cost: number;
+}
+
+/**
+ * Built-in movement profiles
+ */
+export const MOVEMENT_PROFILES: Record<'walker' | 'flyer' | 'swimmer', MovementProfile> = {
+  walker: {
+    id: 'walker',
+    name: 'Walker',
+    terrainOverrides: {}
+  },
+  flyer: {
+    id: 'flyer',
+    name: 'Flyer',
+    terrainOverrides: {
+      pit: { blocksMovement: false, movementCost: 1 },
+      chasm: { blocksMovement: false, movementCost: 1 },
+      water: { movementCost: 1 },
+      difficult: { movementCost: 1 },
+      rubble: { movementCost: 1 }
+    }
+  },
+  swimmer: {
+    id: 'swimmer',
+    name: 'Swimmer',
+    terrainOverrides: {
+      water: { movementCost: 1 }
+    }
+  }
+};
+
+/**
+ * Eight-way neighbour offsets. In 4e a diagonal step costs the same as an orthogonal one.
+ */
+const DIRECTIONS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1], [1, 0], [0, 1], [-1, 0],
+  [1, -1], [1, 1], [-1, 1], [-1, -1]
+];
+
+/**
+ * Grid pathfinder
+ */
+export class Pathfinder {
+  private terrain: string[][];
+  private profile: MovementProfile;
+  private terrainConfigs: Record<string, TerrainMovementRules>;
+  private width: number;
+  private height: number;
+
+  /**
+   * @param terrain - Terrain grid indexed [y][x]
+   * @param profile - Creature movement profile; defaults to ordinary walking
+   * @param terrainConfigs - Movement rules from a level's terrainConfigs; built-in terrain types are used otherwise
+   */
+  constructor(
+    terrain: string[][],
+    profile: MovementProfile = MOVEMENT_PROFILES.walker,
+    terrainConfigs: Record<string, TerrainMovementRules> = {}
+  ) {
+    this.terrain = terrain;
+    this.profile = profile;
+    this.terrainConfigs = terrainConfigs;
+    this.height = terrain.length;
+    this.width = terrain[0]?.length || 0;
+  }
+
+  /**
+   * Check if a creature can stand in a square
+   */
+  isPassable(position: GridPosition): boolean {
+    return this.isInBounds(position) && !this.blocks(this.terrain[position.y][position.x]);
+  }
+
+  /**
+   * Cost of entering a square, or Infinity if the square can't be entered
+   */
+  getEnterCost(position: GridPosition): number {
+    if (!this.isPassable(position)) {
+      return Infinity;
+    }
+
+    const terrainType = this.terrain[position.y][position.x];
+    const override = this.profile.terrainOverrides[terrainType];
+    const cost = override?.movementCost ?? this.terrainConfigs[terrainType]?.movementCost ?? TerrainUtils.getMovementCost(terrainType);
+
+    // Every step uses at least one square of movement
+    return Math.max(1, cost);
+  }
+
+  /**
+   * Cost of a single step between adjacent squares, or Infinity if the step is illegal.
+   * Diagonal steps may not cut past the corner of blocking terrain.
+   */
+  getStepCost(from: GridPosition, to: GridPosition): number {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+
+    if (Math.max(Math.abs(dx), Math.abs(dy)) !== 1) {
+      return Infinity;
+    }
+
+    if (dx !== 0 && dy !== 0) {
+      if (!this.isPassable({ x: from.x + dx, y: from.y }) || !this.isPassable({ x: from.x, y: from.y + dy })) {
+        return Infinity;
+      }
+    }
+
+    return this.getEnterCost(to);
+  }
+
+  /**
+   * Find the cheapest path between two squares (A*), or null if the goal can't be reached
+   */
+  findPath(start: GridPosition, goal: GridPosition): PathResult | null {
+    if (!this.isPassable(start) || !this.isPassable(goal)) {
+      return null;
+    }
+
+    const cost = this.createGrid(Infinity);
+    const previous: Array<Array<GridPosition | null>> = this.createGrid(null);
+    const closed = this.createGrid(false);
+    const open = new MinHeap<GridPosition>();
+
+    // Chebyshev distance never overestimates, since every step costs at least 1
+    const heuristic = (position: GridPosition): number =>
+      Math.max(Math.abs(goal.x - position.x), Math.abs(goal.y - position.y));
+
+    cost[start.y][start.x] = 0;
+    open.push(start, heuristic(start));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (closed[current.y][current.x]) continue;
+      closed[current.y][current.x] = true;
+
+      if (current.x === goal.x && current.y === goal.y) {
+        const path: GridPosition[] = [];
+        for (let step: GridPosition | null = current; step; step = previous[step.y][step.x]) {
+          path.unshift(step);
+        }
+        return { path, cost: cost[goal.y][goal.x] };
+      }
+
+      for (const next of this.getNeighbours(current)) {
+        const nextCost = cost[current.y][current.x] + this.getStepCost(current, next);
+        if (nextCost < cost[next.y][next.x]) {
+          cost[next.y][next.x] = nextCost;
+          previous[next.y][next.x] = current;
+          open.push(next, nextCost + heuristic(next));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Movement cost from the nearest origin to every square (Dijkstra).
+   * Unreachable and blocking squares are Infinity.
+   */
+  distanceMap(origins: GridPosition | GridPosition[], maxCost: number = Infinity): number[][] {
+    const distances = this.createGrid(Infinity);
+    const open = new MinHeap<GridPosition>();
+
+    for (const origin of Array.isArray(origins) ? origins : [origins]) {
+      if (this.isPassable(origin)) {
+        distances[origin.y][origin.x] = 0;
+        open.push(origin, 0);
+      }
+    }
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      const currentCost = distances[current.y][current.x];
+
+      for (const next of this.getNeighbours(current)) {
+        const nextCost = currentCost + this.getStepCost(current, next);
+        if (nextCost <= maxCost && nextCost < distances[next.y][next.x]) {
+          distances[next.y][next.x] = nextCost;
+          open.push(next, nextCost);
+        }
+      }
+    }
+
+    return distances;
+  }
+
+  /**
+   * Squares a creature can reach with the given speed, including its starting square
+   */
+  reachableWithin(start: GridPosition, speed: number): GridPosition[] {
+    const distances = this.distanceMap(start, speed);
+    const reachable: GridPosition[] = [];
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (distances[y][x] <= speed) {
+          reachable.push({ x, y });
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Check whether terrain blocks movement for this creature
+   */
+  private blocks(terrainType: string): boolean {
+    const override = this.profile.terrainOverrides[terrainType];
+    if (override?.blocksMovement !== undefined) {
+      return override.blocksMovement;
+    }
+
+    const config = this.terrainConfigs[terrainType];
+    return config ? config.blocksMovement : TerrainUtils.blocksMovement(terrainType);
+  }
+
+  /**
+   * Passable squares adjacent to a position
+   */
+  private getNeighbours(position: GridPosition): GridPosition[] {
+    return DIRECTIONS
+      .map(([dx, dy]) => ({ x: position.x + dx, y: position.y + dy }))
+      .filter(next => this.isPassable(next));
+  }
+
+  private isInBounds(position: GridPosition): boolean {
+    return position.x >= 0 && position.x < this.width && position.y >= 0 && position.y < this.height;
+  }
+
+  private createGrid<T>(value: T): T[][] {
+    return Array(this.height).fill(null).map(() => Array(this.width).fill(value));
+  }
+}
+
+/**
+ * Binary min-heap keyed by priority
+ */
+class MinHeap<T> {
+  private items: Array<{ item: T; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.items.push({ item, priority });
+    let index = this.items.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (!top || !last || this.items.length === 0) {
+      return top?.item;
+    }
+
+    this.items[0] = last;
+    let index = 0;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+      if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+      if (smallest === index) break;
+
+      [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+      index = smallest;
+    }
+
+    return top.item;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Room and Corridor Graph for FOURE VTT Level Generator
+ *
+ * The structure of a room-based map: rooms with their bounds, area and tags,
+ * the corridors joining them, and the one-square doorways where corridors enter
+ * rooms. Placement code queries it for rooms by size, position and distance.
+ */
+
+import { GridPosition } from '../types/terrain.js';
+
+/**
+ * A room, perimeter included in its bounds
+ */
+export interface GraphRoom {
+  readonly id: string;
+  readonly bounds: { readonly x: number; readonly y: number; readonly width: number; readonly height: number };
+  readonly center: GridPosition;
+  /** Interior squares inside the perimeter */
+  readonly area: number;
+  /** Size ('small', 'medium', 'large') and shape in the graph ('dead-end', 'hub') */
+  readonly tags: string[];
+}
+
+/**
+ * A corridor joining two rooms
+ */
+export interface GraphCorridor {
+  readonly id: string;
+  readonly from: string;
+  readonly to: string;
+  /** Squares along the corridor, centre to centre */
+  readonly length: number;
+}
+
+/**
+ * A one-square doorway where a corridor enters a room
+ */
+export interface Chokepoint {
+  readonly x: number;
+  readonly y: number;
+  readonly roomId: string;
+}
+
+/**
+ * Serialized room graph, as stored in a level's map.graph
+ */
+export interface RoomGraphData {
+  readonly rooms: GraphRoom[];
+  readonly corridors: GraphCorridor[];
+  readonly chokepoints: Chokepoint[];
+}
+
+/**
+ * Interior area thresholds for the room size tags
+ */
+export const ROOM_SIZE_LIMITS = {
+  small: 9,
+  large: 36
+} as const;
+
+/**
+ * Queries over a map's rooms and corridors
+ */
+export class RoomGraph {
+  private data: RoomGraphData;
+
+  constructor(data: RoomGraphData) {
+    this.data = data;
+  }
+
+  /**
+   * Room graph of a generated or loaded level, or null if it has none
+   */
+  static fromLevel(level: { map: { graph?: RoomGraphData } }): RoomGraph | null {
+    return level.map.graph ? new RoomGraph(level.map.graph) : null;
+  }
+
+  getRooms(): GraphRoom[] {
+    return [...this.data.rooms];
+  }
+
+  getCorridors(): GraphCorridor[] {
+    return [...this.data.corridors];
+  }
+
+  getChokepoints(): Chokepoint[] {
+    return [...this.data.chokepoints];
+  }
+
+  getRoom(id: string): GraphRoom | undefined {
+    return this.data.rooms.find(room => room.id === id);
+  }
+
+  getRoomsByTag(tag: string): GraphRoom[] {
+    return this.data.rooms.filter(room => room.tags.includes(tag));
+  }
+
+  /**
+   * Rooms joined to a room by a corridor, in corridor order
+   */
+  getNeighbours(roomId: string): GraphRoom[] {
+    const ids = this.data.corridors.flatMap(corridor =>
+      corridor.from === roomId ? [corridor.to] : corridor.to === roomId ? [corridor.from] : []
+    );
+    return [...new Set(ids)].map(id => this.getRoom(id)).filter((room): room is GraphRoom => room !== undefined);
+  }
+
+  /**
+   * Room with the most interior squares; the first one wins ties
+   */
+  largestRoom(): GraphRoom | undefined {
+    return this.data.rooms.reduce<GraphRoom | undefined>(
+      (largest, room) => !largest || room.area > largest.area ? room : largest,
+      undefined
+    );
+  }
+
+  /**
+   * Room whose centre is furthest from a square. Distances are in squares, diagonals
+   * counting as one, unless a distance map (e.g. Pathfinder.distanceMap from the
+   * point) is given, in which case rooms it can't reach are skipped.
+   */
+  furthestRoomFrom(point: GridPosition, distances?: number[][]): GraphRoom | undefined {
+    let furthest: GraphRoom | undefined;
+    let furthestDistance = -1;
+
+    for (const room of this.data.rooms) {
+      const distance = distances
+        ? distances[room.center.y]?.[room.center.x] ?? Infinity
+        : Math.max(Math.abs(room.center.x - point.x), Math.abs(room.center.y - point.y));
+
+      if (distance !== Infinity && distance > furthestDistance) {
+        furthest = room;
+        furthestDistance = distance;
+      }
+    }
+
+    return furthest;
+  }
+
+  /**
+   * Room containing a square, perimeter included
+   */
+  roomAt(x: number, y: number): GraphRoom | undefined {
+    return this.data.rooms.find(({ bounds }) =>
+      x >= bounds.x && x < bounds.x + bounds.width && y >= bounds.y && y < bounds.y + bounds.height
+    );
+  }
+
+  toJSON(): RoomGraphData {
+    return this.data;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * JSON Schema Evaluator for FOURE VTT Level Generator
+ *
+ * Offline evaluator for the subset of JSON Schema draft-07 used by LEVEL_SCHEMA.
+ * Errors carry JSON Pointer paths (RFC 6901) to the offending value.
+ */
+
+/**
+ * A single schema violation
+ */
+export interface SchemaError {
+  /** JSON Pointer to the failing value ('' is the document root); for 'required', the missing property */
+  readonly pointer: string;
+  /** Schema keyword that failed */
+  readonly keyword: string;
+  readonly message: string;
+}
+
+/**
+ * Keywords that only describe a schema and never affect validation
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  '$schema', '$id', '$comment', 'title', 'description', 'examples', 'default', 'definitions', 'readOnly', 'writeOnly'
+]);
+
+/**
+ * Keywords evaluated by SchemaValidator
+ */
+const SUPPORTED_KEYWORDS = new Set([
+  '$ref', 'type', 'enum', 'const',
+  'required', 'properties', 'patternProperties', 'additionalProperties', 'minProperties', 'maxProperties',
+  'items', 'minItems', 'maxItems', 'uniqueItems',
+  'minLength', 'maxLength', 'pattern',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'allOf', 'anyOf', 'oneOf', 'not'
+]);
+
+/**
+ * JSON Schema evaluator
+ */
+export class SchemaValidator {
+  private root: any;
+  private patterns = new Map<string, RegExp>();
+
+  /**
+   * @param schema - Root schema; '$ref' may only point inside it ("#/..."), nothing is fetched
+   */
+  constructor(schema: any) {
+    this.root = schema;
+  }
+
+  /**
+   * Validate a value against a schema in one call
+   */
+  static validate(schema: any, data: any): SchemaError[] {
+    return new SchemaValidator(schema).validate(data);
+  }
+
+  /**
+   * Validate a value against the root schema
+   */
+  validate(data: any): SchemaError[] {
+    const errors: SchemaError[] = [];
+    this.evaluate(this.root, data, '', errors);
+    return errors;
+  }
+
+  /**
+   * Escape a property name for use as a JSON Pointer segment
+   */
+  static escapePointer(segment: string | number): string {
+    return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * Evaluate one schema against one value, appending any failures
+   */
+  private evaluate(schema: any, data: any, pointer: string, errors: SchemaError[]): void {
+    if (schema === true) return;
+    if (schema === false) {
+      errors.push({ pointer, keyword: 'false', message: 'No value is allowed here' });
+      return;
+    }
+
+    for (const keyword of Object.keys(schema)) {
+      if (!ANNOTATION_KEYWORDS.has(keyword) && !SUPPORTED_KEYWORDS.has(keyword)) {
+        throw new Error(`Unsupported JSON Schema keyword '${keyword}' while validating '${pointer}'`);
+      }
+    }
+
+    const fail = (keyword: string, message: string, at: string = pointer): void => {
+      errors.push({ pointer: at, keyword, message });
+    };
+
+    if (schema.$ref !== undefined) {
+      this.evaluate(this.resolveRef(schema.$ref), data, pointer, errors);
+    }
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(type, data))) {
+        fail('type', `Expected ${types.join(' or ')}, got ${this.typeOf(data)}`);
+        return; // Further keywords would only repeat the type mismatch
+      }
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some((option: any) => this.isEqual(option, data))) {
+      fail('enum', `Must be one of: ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(data)}`);
+    }
+
+    if (schema.const !== undefined && !this.isEqual(schema.const, data)) {
+      fail('const', `Must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof data === 'string') {
+      this.evaluateString(schema, data, fail);
+    } else if (typeof data === 'number') {
+      this.evaluateNumber(schema, data, fail);
+    } else if (Array.isArray(data)) {
+      this.evaluateArray(schema, data, pointer, errors, fail);
+    } else if (data !== null && typeof data === 'object') {
+      this.evaluateObject(schema, data, pointer, errors, fail);
+    }
+
+    this.evaluateCombinators(schema, data, pointer, errors, fail);
+  }
+
+  private evaluateString(schema: any, data: string, fail: (keyword: string, message: string) => void): void {
+    // Length counts code points, not UTF-16 units
+    const length = [...data].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail('minLength', `Must be at least ${schema.minLength} characters, got ${length}`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail('maxLength', `Must be at most ${schema.maxLength} characters, got ${length}`);
+    }
+    if (schema.pattern !== undefined && !this.getPattern(schema.pattern).test(data)) {
+      fail('pattern', `Must match pattern ${schema.pattern}, got '${data}'`);
+    }
+  }
+
+  private evaluateNumber(schema: any, data: number, fail: (keyword: string, message: string) => void): void {
+    if (schema.minimum !== undefined && data < schema.minimum) {
+      fail('minimum', `Must be >= ${schema.minimum}, got ${data}`);
+    }
+    if (schema.maximum !== undefined && data > schema.maximum) {
+      fail('maximum', `Must be <= ${schema.maximum}, got ${data}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && data <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `Must be > ${schema.exclusiveMinimum}, got ${data}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && data >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `Must be < ${schema.exclusiveMaximum}, got ${data}`);
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(data / schema.multipleOf)) {
+      fail('multipleOf', `Must be a multiple of ${schema.multipleOf}, got ${data}`);
+    }
+  }
+
+  private evaluateArray(
+    schema: any,
+    data: any[],
+    pointer: string,
+    errors: SchemaError[],
+    fail: (keyword: string, message: string) => void
+  ): void {
+    if (schema.minItems !== undefined && data.length < schema.minItems) {
+      fail('minItems', `Must have at least ${schema.minItems} items, got ${data.length}`);
+    }
+    if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+      fail('maxItems', `Must have at most ${schema.maxItems} items, got ${data.length}`);
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = data.findIndex((item, i) => data.slice(0, i).some(earlier => this.isEqual(earlier, item)));
+      if (duplicate !== -1) {
+        fail('uniqueItems', `Items must be unique, item ${duplicate} repeats an earlier item`);
+      }
+    }
+
+    if (schema.items !== undefined) {
+      data.forEach((item, i) => {
+        // Tuple form validates by position; items past the tuple are unconstrained
+        const itemSchema = Array.isArray(schema.items) ? schema.items[i] : schema.items;
+        if (itemSchema !== undefined) {
+          this.evaluate(itemSchema, item, `${pointer}/${i}`, errors);
+        }
+      });
+    }
+  }
+
+  private evaluateObject(
+    schema: any,
+    data: Record<string, any>,
+    pointer: string,
+    errors: SchemaError[],
+    fail: (keyword: string, message: string, at?: string) => void
+  ): void {
+    const keys = Object.keys(data);
+
+    for (const field of schema.required || []) {
+      if (!(field in data)) {
+        fail('required', `Missing required property '${field}'`, `${pointer}/${SchemaValidator.escapePointer(field)}`);
+      }
+    }
+
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      fail('minProperties', `Must have at least ${schema.minProperties} properties, got ${keys.length}`);
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      fail('maxProperties', `Must have at most ${schema.maxProperties} properties, got ${keys.length}`);
+    }
+
+    for (const key of keys) {
+      const childPointer = `${pointer}/${SchemaValidator.escapePointer(key)}`;
+      let matched = false;
+
+      if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+        matched = true;
+        this.evaluate(schema.properties[key], data[key], childPointer, errors);
+      }
+
+      for (const [pattern, patternSchema] of Object.entries(schema.patternProperties || {})) {
+        if (this.getPattern(pattern).test(key)) {
+          matched = true;
+          this.evaluate(patternSchema, data[key], childPointer, errors);
+        }
+      }
+
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          fail('additionalProperties', `Unexpected property '${key}'`, childPointer);
+        } else {
+          this.evaluate(schema.additionalProperties, data[key], childPointer, errors);
+        }
+      }
+    }
+  }
+
+  private evaluateCombinators(
+    schema: any,
+    data: any,
+    pointer: string,
+    errors: SchemaError[],
+    fail: (keyword: string, message: string) => void
+  ): void {
+    const failures = (subschema: any): SchemaError[] => {
+      const found: SchemaError[] = [];
+      this.evaluate(subschema, data, pointer, found);
+      return found;
+    };
+
+    if (schema.allOf !== undefined) {
+      schema.allOf.forEach((subschema: any) => errors.push(...failures(subschema)));
+    }
+
+    if (schema.anyOf !== undefined && !schema.anyOf.some((subschema: any) => failures(subschema).length === 0)) {
+      fail('anyOf', 'Must match at least one of the allowed schemas');
+    }
+
+    if (schema.oneOf !== undefined) {
+      const matches = schema.oneOf.filter((subschema: any) => failures(subschema).length === 0).length;
+      if (matches !== 1) {
+        fail('oneOf', matches === 0
+          ? 'Must match one of the allowed schemas'
+          : `Must match exactly one of the allowed schemas, matched ${matches}`);
+      }
+    }
+
+    if (schema.not !== undefined && failures(schema.not).length === 0) {
+      fail('not', 'Must not match the disallowed schema');
+    }
+  }
+
+  /**
+   * Resolve a local '$ref' such as "#/properties/map"
+   */
+  private resolveRef(ref: string): any {
+    if (ref !== '#' && !ref.startsWith('#/')) {
+      throw new Error(`Only local schema references are supported, got '${ref}'`);
+    }
+
+    return ref.slice(2).split('/').filter(segment => segment !== '').reduce((node: any, segment) => {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (node === undefined || node === null || !(key in node)) {
+        throw new Error(`Schema reference '${ref}' does not resolve`);
+      }
+      return node[key];
+    }, this.root);
+  }
+
+  private matchesType(type: string, data: any): boolean {
+    switch (type) {
+      case 'integer': return typeof data === 'number' && Number.isInteger(data);
+      case 'number': return typeof data === 'number' && Number.isFinite(data);
+      case 'array': return Array.isArray(data);
+      case 'object': return data !== null && typeof data === 'object' && !Array.isArray(data);
+      case 'null': return data === null;
+      default: return typeof data === type;
+    }
+  }
+
+  private typeOf(data: any): string {
+    if (data === null) return 'null';
+    if (Array.isArray(data)) return 'array';
+    if (typeof data === 'number' && Number.isInteger(data)) return 'integer';
+    return typeof data;
+  }
+
+  private isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every(key => key in b && this.isEqual(a[key], b[key]));
+  }
+
+  private getPattern(pattern: string): RegExp {
+    let compiled = this.patterns.get(pattern);
+    if (!compiled) {
+      compiled = new RegExp(pattern, 'u');
+      this.patterns.set(pattern, compiled);
+    }
+    return compiled;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Seeded Random Number Service for FOURE VTT Level Generator
+ *
+ * Provides deterministic random streams so the same seed always yields the same level.
+ * Each subsystem draws from its own labelled sub-stream (see `fork`), which means adding
+ * or removing random draws in one stage never reshuffles the output of another.
+ */
+
+/**
+ * Modulus and multiplier of the generator's Lehmer-style LCG.
+ * These match the original terrain generator so existing seeds keep their maps.
+ */
+const MODULUS = 2 ** 35 - 31;
+const MULTIPLIER = 185852;
+
+/**
+ * Number of values discarded when forking, so derived streams don't start with
+ * the small, correlated values an LCG produces right after seeding
+ */
+const FORK_WARMUP = 3;
+
+/**
+ * Deterministic random stream
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+    const normalized = ((Math.floor(seed) % MODULUS) + MODULUS) % MODULUS;
+    // A zero state would make the LCG return zero forever
+    this.state = normalized === 0 ? 1 : normalized;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state * MULTIPLIER) % MODULUS;
+    return this.state / MODULUS;
+  }
+
+  /**
+   * Next integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  range(min: number, max: number): number {
+    return min + this.nextInt(max - min + 1);
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty array');
+    }
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Return a shuffled copy of an array (Fisher-Yates)
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Create an independent sub-stream identified by a label.
+   * The child depends only on this stream's seed and the label, never on how many
+   * values have already been drawn, so sibling streams are isolated from each other.
+   */
+  fork(label: string): SeededRandom {
+    const child = new SeededRandom(SeededRandom.deriveSeed(this.seed, label));
+    for (let i = 0; i < FORK_WARMUP; i++) {
+      child.next();
+    }
+    return child;
+  }
+
+  /**
+   * Derive a child seed from a parent seed and a label (FNV-1a over both)
+   */
+  static deriveSeed(seed: number, label: string): number {
+    const input = `${seed}:${label}`;
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    return (hash % (MODULUS - 1)) + 1;
+  }
+}